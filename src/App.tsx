@@ -12,6 +12,12 @@ import { RegisterPage } from "./pages/RegisterPage";
 import { LoginPage } from "./pages/LoginPage";
 import { Layout } from "./Layout";
 import { MarketplacePage } from "./pages/MarketplacePage";
+import { ForgotPasswordPage } from "./pages/ForgotPasswordPage";
+import { ResetPasswordPage } from "./pages/ResetPasswordPage";
+import { VerifyEmailPage } from "./pages/VerifyEmailPage";
+import { AdminPage } from "./pages/AdminPage";
+import { OffersPage } from "./pages/OffersPage";
+import { CoinDetailPage } from "./pages/CoinDetailPage";
 import { isLoggedIn } from "./services/auth";
 
 export function App() {
@@ -28,8 +34,14 @@ export function App() {
 				<Routes>
 					<Route path="/register" element={<RegisterPage />} />
 					<Route path="/login" element={<LoginPage />} />
+					<Route path="/forgot-password" element={<ForgotPasswordPage />} />
+					<Route path="/reset-password" element={<ResetPasswordPage />} />
+					<Route path="/verify-email" element={<VerifyEmailPage />} />
 					<Route path="/marketplace" element={<MarketplacePage />} />
+					<Route path="/coins/:id" element={<CoinDetailPage />} />
 					<Route path="/transactions" element={<TransactionsPage />} />
+					<Route path="/offers" element={<OffersPage />} />
+					<Route path="/admin" element={<AdminPage />} />
 					<Route
 						path="/"
 						element={authenticated ? <DashboardPage /> : <TransactionsPage />}
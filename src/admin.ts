@@ -0,0 +1,440 @@
+import type { Database } from "bun:sqlite";
+import {
+	HOUSE_COINS_ACCOUNT,
+	MINT_ACCOUNT,
+	clientCoinsAccount,
+	getReversalLegs,
+	postJournal,
+} from "./ledger";
+import { TokenManager } from "./utils/auth_token";
+
+export type AdminAction =
+	| "suspend_client"
+	| "unsuspend_client"
+	| "force_logout"
+	| "reassign_coin"
+	| "burn_coin"
+	| "void_transaction";
+
+export type AdminResult =
+	| { status: "ok" }
+	| { status: "not_found" }
+	| { status: "conflict"; message: string };
+
+type CoinRow = {
+	coin_id: number;
+	client_id: number | null;
+	value: number;
+	burned_at: string | null;
+};
+
+const CLIENT_CASH_PATTERN = /^cash:client:(\d+)$/;
+const CLIENT_COINS_PATTERN = /^coins:client:(\d+)$/;
+
+function conflict(message: string): AdminResult {
+	return { status: "conflict", message };
+}
+
+function getCoin(db: Database, coinId: number): CoinRow | null {
+	return db
+		.query<CoinRow, number>(
+			"SELECT coin_id, client_id, value, burned_at FROM coins WHERE coin_id = ?",
+		)
+		.get(coinId);
+}
+
+// Every admin action is kept with the reason given for it
+function recordAdminAction(
+	db: Database,
+	adminId: number,
+	action: AdminAction,
+	targetType: "client" | "coin" | "transaction",
+	targetId: number,
+	reason: string,
+): void {
+	db.query(
+		"INSERT INTO admin_actions (admin_id, action, target_type, target_id, reason) VALUES (?, ?, ?, ?, ?)",
+	).run(adminId, action, targetType, targetId, reason);
+}
+
+/**
+ * Suspend a client, signing them out everywhere, revoking their API keys
+ * and blocking new logins
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param clientId Client to suspend
+ * @param reason Why the client is suspended
+ */
+export async function suspendClient(
+	db: Database,
+	adminId: number,
+	clientId: number,
+	reason: string,
+): Promise<AdminResult> {
+	if (clientId === adminId) {
+		return conflict("You cannot suspend yourself");
+	}
+
+	const result = db.transaction((): AdminResult => {
+		const client = db
+			.query<{ suspended_at: string | null }, number>(
+				"SELECT suspended_at FROM clients WHERE id = ?",
+			)
+			.get(clientId);
+
+		if (!client) {
+			return { status: "not_found" };
+		}
+		if (client.suspended_at !== null) {
+			return conflict("Client is already suspended");
+		}
+
+		db.query("UPDATE clients SET suspended_at = ? WHERE id = ?").run(
+			new Date().toISOString(),
+			clientId,
+		);
+		recordAdminAction(
+			db,
+			adminId,
+			"suspend_client",
+			"client",
+			clientId,
+			reason,
+		);
+		return { status: "ok" };
+	})();
+
+	if (result.status === "ok") {
+		await TokenManager.revokeAllSessions(clientId);
+		await TokenManager.revokeAllApiKeys(clientId);
+	}
+
+	return result;
+}
+
+/**
+ * Lift a client's suspension
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param clientId Client to reinstate
+ * @param reason Why the suspension is lifted
+ */
+export function unsuspendClient(
+	db: Database,
+	adminId: number,
+	clientId: number,
+	reason: string,
+): AdminResult {
+	return db.transaction((): AdminResult => {
+		const client = db
+			.query<{ suspended_at: string | null }, number>(
+				"SELECT suspended_at FROM clients WHERE id = ?",
+			)
+			.get(clientId);
+
+		if (!client) {
+			return { status: "not_found" };
+		}
+		if (client.suspended_at === null) {
+			return conflict("Client is not suspended");
+		}
+
+		db.query("UPDATE clients SET suspended_at = NULL WHERE id = ?").run(
+			clientId,
+		);
+		recordAdminAction(
+			db,
+			adminId,
+			"unsuspend_client",
+			"client",
+			clientId,
+			reason,
+		);
+		return { status: "ok" };
+	})();
+}
+
+/**
+ * Sign a client out of every session
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param clientId Client to sign out
+ * @param reason Why the client is signed out
+ */
+export async function forceLogout(
+	db: Database,
+	adminId: number,
+	clientId: number,
+	reason: string,
+): Promise<AdminResult> {
+	const client = db.query("SELECT id FROM clients WHERE id = ?").get(clientId);
+	if (!client) {
+		return { status: "not_found" };
+	}
+
+	await TokenManager.revokeAllSessions(clientId);
+	recordAdminAction(db, adminId, "force_logout", "client", clientId, reason);
+	return { status: "ok" };
+}
+
+/**
+ * Move a coin to another client, recorded as a zero-amount admin transfer
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param coinId Coin to move
+ * @param newOwnerId Client receiving the coin
+ * @param reason Why the coin is moved
+ */
+export function reassignCoin(
+	db: Database,
+	adminId: number,
+	coinId: number,
+	newOwnerId: number,
+	reason: string,
+): AdminResult {
+	return db.transaction((): AdminResult => {
+		const coin = getCoin(db, coinId);
+		if (!coin) {
+			return { status: "not_found" };
+		}
+		if (coin.burned_at !== null) {
+			return conflict("Coin has been burned");
+		}
+		if (coin.client_id === newOwnerId) {
+			return conflict("Client already owns this coin");
+		}
+
+		const newOwner = db
+			.query("SELECT id FROM clients WHERE id = ?")
+			.get(newOwnerId);
+		if (!newOwner) {
+			return conflict("New owner does not exist");
+		}
+
+		db.query(
+			"UPDATE coins SET client_id = ?, asking_price = NULL WHERE coin_id = ?",
+		).run(newOwnerId, coinId);
+
+		// A transaction row keeps the ownership chain intact for reconciliation
+		const transaction = db
+			.query(`
+        INSERT INTO transactions (
+          buyer_id, seller_id, coin_id, transaction_date, amount, kind
+        ) VALUES (?, ?, ?, ?, 0, 'admin_transfer')
+      `)
+			.run(newOwnerId, coin.client_id, coinId, new Date().toISOString());
+
+		postJournal(db, {
+			description: "Admin coin reassignment",
+			coinId,
+			transactionId: Number(transaction.lastInsertRowid),
+			legs: [
+				{
+					debit:
+						coin.client_id === null
+							? HOUSE_COINS_ACCOUNT
+							: clientCoinsAccount(coin.client_id),
+					credit: clientCoinsAccount(newOwnerId),
+					amount: coin.value,
+				},
+			],
+		});
+
+		recordAdminAction(db, adminId, "reassign_coin", "coin", coinId, reason);
+		return { status: "ok" };
+	})();
+}
+
+/**
+ * Take a coin out of circulation for good
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param coinId Coin to burn
+ * @param reason Why the coin is burned
+ */
+export function burnCoin(
+	db: Database,
+	adminId: number,
+	coinId: number,
+	reason: string,
+): AdminResult {
+	return db.transaction((): AdminResult => {
+		const coin = getCoin(db, coinId);
+		if (!coin) {
+			return { status: "not_found" };
+		}
+		if (coin.burned_at !== null) {
+			return conflict("Coin has already been burned");
+		}
+
+		db.query(
+			"UPDATE coins SET burned_at = ?, asking_price = NULL WHERE coin_id = ?",
+		).run(new Date().toISOString(), coinId);
+
+		// The coin's value goes back where minted value comes from
+		postJournal(db, {
+			description: "Coin burned",
+			coinId,
+			legs: [
+				{
+					debit:
+						coin.client_id === null
+							? HOUSE_COINS_ACCOUNT
+							: clientCoinsAccount(coin.client_id),
+					credit: MINT_ACCOUNT,
+					amount: coin.value,
+				},
+			],
+		});
+
+		recordAdminAction(db, adminId, "burn_coin", "coin", coinId, reason);
+		return { status: "ok" };
+	})();
+}
+
+/**
+ * Void a transaction by reversing its ledger journals.
+ *
+ * Only the latest transaction of a coin can be voided, while the buyer
+ * still holds it. Cash and the coin go back wherever the journals took
+ * them from; a voided mint burns the coin.
+ * @param db SQLite database instance
+ * @param adminId Admin performing the action
+ * @param transactionId Transaction to void
+ * @param reason Why the transaction is voided
+ */
+export function voidTransaction(
+	db: Database,
+	adminId: number,
+	transactionId: number,
+	reason: string,
+): AdminResult {
+	return db.transaction((): AdminResult => {
+		const transaction = db
+			.query<
+				{
+					id: number;
+					coin_id: number;
+					buyer_id: number;
+					voided_at: string | null;
+				},
+				number
+			>(
+				"SELECT id, coin_id, buyer_id, voided_at FROM transactions WHERE id = ?",
+			)
+			.get(transactionId);
+
+		if (!transaction) {
+			return { status: "not_found" };
+		}
+		if (transaction.voided_at !== null) {
+			return conflict("Transaction is already voided");
+		}
+
+		const coin = getCoin(db, transaction.coin_id);
+		const latest = db
+			.query<{ id: number }, number>(`
+        SELECT id FROM transactions
+        WHERE coin_id = ? AND voided_at IS NULL
+        ORDER BY transaction_date DESC, id DESC
+        LIMIT 1
+      `)
+			.get(transaction.coin_id);
+
+		if (
+			!coin ||
+			coin.burned_at !== null ||
+			coin.client_id !== transaction.buyer_id ||
+			latest?.id !== transaction.id
+		) {
+			return conflict(
+				"Only the latest transaction of a coin its buyer still holds can be voided",
+			);
+		}
+
+		// Seeded history only has opening balances, so there is nothing to undo
+		const legs = getReversalLegs(db, transaction.id);
+		if (legs.length === 0) {
+			return conflict("Transaction predates the ledger and cannot be voided");
+		}
+
+		// Net cash change per client, refused if a refund would overdraw anyone
+		const cashChanges = new Map<number, number>();
+		let returnedTo: string | null = null;
+		for (const leg of legs) {
+			const credited = CLIENT_CASH_PATTERN.exec(leg.credit);
+			const debited = CLIENT_CASH_PATTERN.exec(leg.debit);
+			if (credited) {
+				const clientId = Number(credited[1]);
+				cashChanges.set(
+					clientId,
+					(cashChanges.get(clientId) ?? 0) + leg.amount,
+				);
+			}
+			if (debited) {
+				const clientId = Number(debited[1]);
+				cashChanges.set(
+					clientId,
+					(cashChanges.get(clientId) ?? 0) - leg.amount,
+				);
+			}
+			if (leg.debit === clientCoinsAccount(transaction.buyer_id)) {
+				returnedTo = leg.credit;
+			}
+		}
+
+		for (const [clientId, change] of cashChanges) {
+			const client = db
+				.query<{ cash_balance: number }, number>(
+					"SELECT cash_balance FROM clients WHERE id = ?",
+				)
+				.get(clientId);
+			if (!client || client.cash_balance + change < 0) {
+				return conflict(`Client ${clientId} cannot cover the refund`);
+			}
+		}
+
+		const adjustCash = db.prepare(
+			"UPDATE clients SET cash_balance = cash_balance + ? WHERE id = ?",
+		);
+		for (const [clientId, change] of cashChanges) {
+			adjustCash.run(change, clientId);
+		}
+
+		postJournal(db, {
+			description: "Transaction voided",
+			coinId: coin.coin_id,
+			transactionId: transaction.id,
+			legs,
+		});
+
+		const previousOwner = returnedTo && CLIENT_COINS_PATTERN.exec(returnedTo);
+		if (previousOwner) {
+			db.query(
+				"UPDATE coins SET client_id = ?, asking_price = NULL WHERE coin_id = ?",
+			).run(Number(previousOwner[1]), coin.coin_id);
+		} else if (returnedTo === HOUSE_COINS_ACCOUNT) {
+			db.query(
+				"UPDATE coins SET client_id = NULL, asking_price = NULL WHERE coin_id = ?",
+			).run(coin.coin_id);
+		} else {
+			db.query(
+				"UPDATE coins SET burned_at = ?, asking_price = NULL WHERE coin_id = ?",
+			).run(new Date().toISOString(), coin.coin_id);
+		}
+
+		db.query("UPDATE transactions SET voided_at = ? WHERE id = ?").run(
+			new Date().toISOString(),
+			transaction.id,
+		);
+		recordAdminAction(
+			db,
+			adminId,
+			"void_transaction",
+			"transaction",
+			transaction.id,
+			reason,
+		);
+		return { status: "ok" };
+	})();
+}
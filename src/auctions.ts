@@ -0,0 +1,447 @@
+import type { Database } from "bun:sqlite";
+import { recordAuditEvent } from "./audit";
+import { transferCoin } from "./trading";
+
+export type AuctionStatus = "open" | "settled" | "unsold" | "cancelled";
+
+export interface Auction {
+	id: number;
+	coinId: number;
+	// null when an admin auctions a coin nobody owns yet
+	sellerId: number | null;
+	sellerName: string | null;
+	reservePrice: number;
+	minIncrement: number;
+	status: AuctionStatus;
+	createdAt: string;
+	endsAt: string;
+	// How many times late bids pushed the end back
+	extensions: number;
+	highBid: number | null;
+	highBidderId: number | null;
+	highBidderName: string | null;
+	bidCount: number;
+	// Lowest amount the next bid may be
+	minimumBid: number;
+	winningBidId: number | null;
+	transactionId: number | null;
+	settledAt: string | null;
+}
+
+export interface AuctionBid {
+	id: number;
+	auctionId: number;
+	bidderId: number;
+	bidderName: string;
+	amount: number;
+	createdAt: string;
+}
+
+export interface AuctionOptions {
+	reservePrice: number;
+	minIncrement: number;
+	endsAt: string;
+}
+
+export type AuctionResult =
+	| { status: "ok"; auction: Auction }
+	| { status: "not_found" }
+	| { status: "forbidden"; message: string }
+	| { status: "conflict"; message: string }
+	| { status: "insufficient_funds" };
+
+type AuctionRow = {
+	id: number;
+	coin_id: number;
+	seller_id: number | null;
+	seller_name: string | null;
+	created_by: number;
+	reserve_price: number;
+	min_increment: number;
+	status: AuctionStatus;
+	created_at: string;
+	ends_at: string;
+	extensions: number;
+	winning_bid_id: number | null;
+	transaction_id: number | null;
+	settled_at: string | null;
+	high_bid: number | null;
+	high_bidder_id: number | null;
+	high_bidder_name: string | null;
+	bid_count: number;
+};
+
+type BidRow = {
+	id: number;
+	auction_id: number;
+	bidder_id: number;
+	bidder_name: string;
+	amount: number;
+	created_at: string;
+};
+
+// A bid this close to the end pushes the end back to this far from the bid,
+// so nobody can win by bidding in the last second
+export const ANTI_SNIPING_WINDOW = 2 * 60 * 1000;
+
+const SELECT_AUCTIONS = `
+  SELECT a.*, seller.name as seller_name,
+    high.amount as high_bid, high.bidder_id as high_bidder_id,
+    bidder.name as high_bidder_name,
+    (SELECT COUNT(*) FROM auction_bids WHERE auction_id = a.id) as bid_count
+  FROM auctions a
+  LEFT JOIN clients seller ON a.seller_id = seller.id
+  LEFT JOIN auction_bids high ON high.id = (
+    SELECT id FROM auction_bids WHERE auction_id = a.id
+    ORDER BY amount DESC, id ASC LIMIT 1
+  )
+  LEFT JOIN clients bidder ON high.bidder_id = bidder.id
+`;
+
+function conflict(message: string): AuctionResult {
+	return { status: "conflict", message };
+}
+
+function toAuction(row: AuctionRow): Auction {
+	return {
+		id: row.id,
+		coinId: row.coin_id,
+		sellerId: row.seller_id,
+		sellerName: row.seller_name,
+		reservePrice: row.reserve_price,
+		minIncrement: row.min_increment,
+		status: row.status,
+		createdAt: row.created_at,
+		endsAt: row.ends_at,
+		extensions: row.extensions,
+		highBid: row.high_bid,
+		highBidderId: row.high_bidder_id,
+		highBidderName: row.high_bidder_name,
+		bidCount: row.bid_count,
+		minimumBid:
+			row.high_bid === null
+				? row.reserve_price
+				: row.high_bid + row.min_increment,
+		winningBidId: row.winning_bid_id,
+		transactionId: row.transaction_id,
+		settledAt: row.settled_at,
+	};
+}
+
+function getAuctionRow(db: Database, auctionId: number): AuctionRow | null {
+	return db
+		.query<AuctionRow, number>(`${SELECT_AUCTIONS} WHERE a.id = ?`)
+		.get(auctionId);
+}
+
+/**
+ * Whether a coin is up for auction right now. While it is, it cannot be
+ * bought, listed or sold through an offer.
+ * @param db SQLite database instance
+ * @param coinId Coin to check
+ */
+export function hasOpenAuction(db: Database, coinId: number): boolean {
+	return (
+		db
+			.query<{ id: number }, number>(
+				"SELECT id FROM auctions WHERE coin_id = ? AND status = 'open'",
+			)
+			.get(coinId) !== null
+	);
+}
+
+/**
+ * Put a coin up for an English auction. Owners auction their own coins,
+ * coins without an owner can only be auctioned by someone who manages coins.
+ * @param db SQLite database instance
+ * @param clientId Client starting the auction
+ * @param canManageCoins Whether the client may auction unowned coins
+ * @param coinId Coin to auction
+ * @param options Reserve price, minimum increment and end time
+ */
+export function startAuction(
+	db: Database,
+	clientId: number,
+	canManageCoins: boolean,
+	coinId: number,
+	options: AuctionOptions,
+): AuctionResult {
+	return db.transaction((): AuctionResult => {
+		const coin = db
+			.query<{ client_id: number | null }, number>(
+				"SELECT client_id FROM coins WHERE coin_id = ? AND burned_at IS NULL",
+			)
+			.get(coinId);
+
+		if (!coin) {
+			return { status: "not_found" };
+		}
+		if (coin.client_id === null && !canManageCoins) {
+			return {
+				status: "forbidden",
+				message: "Only admins can auction coins nobody owns",
+			};
+		}
+		if (coin.client_id !== null && coin.client_id !== clientId) {
+			return {
+				status: "forbidden",
+				message: "You can only auction coins you own",
+			};
+		}
+		if (hasOpenAuction(db, coinId)) {
+			return conflict("This coin is already up for auction");
+		}
+
+		// The auction replaces any fixed-price listing
+		db.query("UPDATE coins SET asking_price = NULL WHERE coin_id = ?").run(
+			coinId,
+		);
+
+		const result = db
+			.query(`
+        INSERT INTO auctions (
+          coin_id, seller_id, created_by, reserve_price, min_increment, created_at, ends_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+			.run(
+				coinId,
+				coin.client_id,
+				clientId,
+				options.reservePrice,
+				options.minIncrement,
+				new Date().toISOString(),
+				options.endsAt,
+			);
+
+		return {
+			status: "ok",
+			auction: toAuction(
+				getAuctionRow(db, Number(result.lastInsertRowid)) as AuctionRow,
+			),
+		};
+	})();
+}
+
+/**
+ * Bid on an open auction. The bid must reach the reserve price, or beat the
+ * high bid by the minimum increment, and the bidder must be able to cover it.
+ * A bid close to the end extends the auction.
+ * @param db SQLite database instance
+ * @param bidderId Client placing the bid
+ * @param auctionId Auction to bid on
+ * @param amount Amount bid
+ * @param now Time of the bid, in milliseconds
+ */
+export function placeBid(
+	db: Database,
+	bidderId: number,
+	auctionId: number,
+	amount: number,
+	now: number = Date.now(),
+): AuctionResult {
+	return db.transaction((): AuctionResult => {
+		const row = getAuctionRow(db, auctionId);
+
+		if (!row) {
+			return { status: "not_found" };
+		}
+
+		const auction = toAuction(row);
+		const endsAt = new Date(auction.endsAt).getTime();
+
+		if (auction.status !== "open" || endsAt <= now) {
+			return conflict("This auction has ended");
+		}
+		if (auction.sellerId === bidderId) {
+			return conflict("You cannot bid on your own auction");
+		}
+		if (amount < auction.minimumBid) {
+			return conflict(
+				`Bids must be at least $${auction.minimumBid.toLocaleString()}`,
+			);
+		}
+
+		const bidder = db
+			.query<{ cash_balance: number }, number>(
+				"SELECT cash_balance FROM clients WHERE id = ?",
+			)
+			.get(bidderId);
+		if (!bidder || bidder.cash_balance < amount) {
+			return { status: "insufficient_funds" };
+		}
+
+		db.query(
+			"INSERT INTO auction_bids (auction_id, bidder_id, amount, created_at) VALUES (?, ?, ?, ?)",
+		).run(auctionId, bidderId, amount, new Date(now).toISOString());
+
+		if (endsAt - now < ANTI_SNIPING_WINDOW) {
+			db.query(
+				"UPDATE auctions SET ends_at = ?, extensions = extensions + 1 WHERE id = ?",
+			).run(new Date(now + ANTI_SNIPING_WINDOW).toISOString(), auctionId);
+		}
+
+		return {
+			status: "ok",
+			auction: toAuction(getAuctionRow(db, auctionId) as AuctionRow),
+		};
+	})();
+}
+
+/**
+ * Look up an auction
+ * @param db SQLite database instance
+ * @param auctionId Auction to fetch
+ */
+export function getAuction(db: Database, auctionId: number): Auction | null {
+	const row = getAuctionRow(db, auctionId);
+	return row ? toAuction(row) : null;
+}
+
+/**
+ * Every auction still taking bids, ending soonest first
+ * @param db SQLite database instance
+ */
+export function listOpenAuctions(db: Database): Auction[] {
+	return db
+		.query<AuctionRow, []>(
+			`${SELECT_AUCTIONS} WHERE a.status = 'open' ORDER BY a.ends_at, a.id`,
+		)
+		.all()
+		.map(toAuction);
+}
+
+/**
+ * An auction's bids, highest first
+ * @param db SQLite database instance
+ * @param auctionId Auction whose bids to list
+ */
+export function listBids(db: Database, auctionId: number): AuctionBid[] {
+	return db
+		.query<BidRow, number>(`
+      SELECT b.*, c.name as bidder_name
+      FROM auction_bids b
+      JOIN clients c ON b.bidder_id = c.id
+      WHERE b.auction_id = ?
+      ORDER BY b.amount DESC, b.id ASC
+    `)
+		.all(auctionId)
+		.map((row) => ({
+			id: row.id,
+			auctionId: row.auction_id,
+			bidderId: row.bidder_id,
+			bidderName: row.bidder_name,
+			amount: row.amount,
+			createdAt: row.created_at,
+		}));
+}
+
+// Sell the coin to the highest bidder who can still pay, falling back
+// down the bids when the leader's cash has gone elsewhere since bidding
+function settleAuction(db: Database, auction: AuctionRow, now: string): void {
+	const coin = db
+		.query<{ client_id: number | null; value: number }, number>(
+			"SELECT client_id, value FROM coins WHERE coin_id = ? AND burned_at IS NULL",
+		)
+		.get(auction.coin_id);
+
+	// An admin burned or reassigned the coin while it was up for auction
+	if (!coin || coin.client_id !== auction.seller_id) {
+		db.query(
+			"UPDATE auctions SET status = 'cancelled', settled_at = ? WHERE id = ?",
+		).run(now, auction.id);
+		return;
+	}
+
+	for (const bid of listBids(db, auction.id)) {
+		const transfer = transferCoin(db, {
+			coinId: auction.coin_id,
+			coinValue: coin.value,
+			buyerId: bid.bidderId,
+			sellerId: auction.seller_id,
+			price: bid.amount,
+		});
+
+		if (transfer.status === "ok") {
+			db.query(
+				"UPDATE auctions SET status = 'settled', winning_bid_id = ?, transaction_id = ?, settled_at = ? WHERE id = ?",
+			).run(bid.id, transfer.transactionId, now, auction.id);
+
+			recordAuditEvent(
+				db,
+				"coin_purchased",
+				{ actorId: bid.bidderId, ipAddress: null, userAgent: null },
+				{
+					coinId: auction.coin_id,
+					sellerId: auction.seller_id,
+					price: bid.amount,
+					transactionId: transfer.transactionId,
+					auctionId: auction.id,
+				},
+			);
+			return;
+		}
+	}
+
+	db.query(
+		"UPDATE auctions SET status = 'unsold', settled_at = ? WHERE id = ?",
+	).run(now, auction.id);
+}
+
+/**
+ * Close every open auction whose end time has passed
+ * @param db SQLite database instance
+ * @param now Current time, in milliseconds
+ * @returns The auctions closed by this call
+ */
+export function settleDueAuctions(
+	db: Database,
+	now: number = Date.now(),
+): Auction[] {
+	const settledAt = new Date(now).toISOString();
+
+	return db.transaction(() => {
+		const due = db
+			.query<AuctionRow, string>(
+				`${SELECT_AUCTIONS} WHERE a.status = 'open' AND a.ends_at <= ? ORDER BY a.ends_at`,
+			)
+			.all(settledAt);
+
+		for (const auction of due) {
+			settleAuction(db, auction, settledAt);
+		}
+
+		return due.map((auction) =>
+			toAuction(getAuctionRow(db, auction.id) as AuctionRow),
+		);
+	})();
+}
+
+/**
+ * Settle auctions in the background as they end
+ * @param db SQLite database instance
+ * @param onSettled Called with the auctions each run closed, if any
+ * @param intervalMs How often to look for ended auctions
+ * @returns Stops the scheduler
+ */
+export function startAuctionScheduler(
+	db: Database,
+	onSettled: (auctions: Auction[]) => void,
+	intervalMs = 1000,
+): () => void {
+	const timer = setInterval(() => {
+		try {
+			const settled = settleDueAuctions(db);
+
+			if (settled.length > 0) {
+				console.log(`🔨 Closed ${settled.length} auctions`);
+				onSettled(settled);
+			}
+		} catch (error) {
+			console.error("Error settling auctions:", error);
+		}
+	}, intervalMs);
+	// Never keep the process alive just to settle auctions
+	timer.unref();
+
+	return () => clearInterval(timer);
+}
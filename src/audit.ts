@@ -0,0 +1,220 @@
+import { createHash } from "node:crypto";
+import type { Database } from "bun:sqlite";
+
+export type AuditEventType =
+	| "login_succeeded"
+	| "login_failed"
+	| "logout"
+	| "register"
+	| "coin_purchased"
+	| "coin_generated"
+	| "admin_action";
+
+export const AUDIT_EVENT_TYPES: readonly AuditEventType[] = [
+	"login_succeeded",
+	"login_failed",
+	"logout",
+	"register",
+	"coin_purchased",
+	"coin_generated",
+	"admin_action",
+];
+
+// Who caused an event and where the request came from
+export interface AuditContext {
+	actorId: number | null;
+	ipAddress: string | null;
+	userAgent: string | null;
+}
+
+export interface AuditEvent {
+	id: number;
+	eventType: AuditEventType;
+	actorId: number | null;
+	ipAddress: string | null;
+	userAgent: string | null;
+	payload: Record<string, unknown>;
+	createdAt: string;
+	hash: string;
+}
+
+export interface AuditFilters {
+	eventType?: AuditEventType | null;
+	actorId?: number | null;
+	startDate?: string | null;
+	endDate?: string | null;
+}
+
+export type AuditChainResult =
+	| { valid: true; checked: number }
+	| { valid: false; checked: number; brokenAt: number };
+
+type AuditRow = {
+	id: number;
+	event_type: AuditEventType;
+	actor_id: number | null;
+	ip_address: string | null;
+	user_agent: string | null;
+	payload: string;
+	created_at: string;
+	prev_hash: string;
+	hash: string;
+};
+
+// The first event links to this instead of a previous hash
+const GENESIS_HASH = "0".repeat(64);
+
+// Hash everything stored about an event together with the previous hash,
+// so editing or removing any row breaks every hash after it
+function hashEvent(row: Omit<AuditRow, "id" | "hash">): string {
+	return createHash("sha256")
+		.update(
+			JSON.stringify([
+				row.prev_hash,
+				row.event_type,
+				row.actor_id,
+				row.ip_address,
+				row.user_agent,
+				row.payload,
+				row.created_at,
+			]),
+		)
+		.digest("hex");
+}
+
+/**
+ * Append an event to the audit log.
+ *
+ * Runs inside the caller's SQLite transaction when there is one, so the
+ * event is only kept if the change it describes is.
+ * @param db SQLite database instance
+ * @param eventType What happened
+ * @param context Who did it and from where
+ * @param payload Event details, stored as JSON
+ */
+export function recordAuditEvent(
+	db: Database,
+	eventType: AuditEventType,
+	context: AuditContext,
+	payload: Record<string, unknown> = {},
+): void {
+	db.transaction(() => {
+		const previous = db
+			.query<{ hash: string }, []>(
+				"SELECT hash FROM audit_events ORDER BY id DESC LIMIT 1",
+			)
+			.get();
+
+		const row = {
+			event_type: eventType,
+			actor_id: context.actorId,
+			ip_address: context.ipAddress,
+			user_agent: context.userAgent,
+			payload: JSON.stringify(payload),
+			created_at: new Date().toISOString(),
+			prev_hash: previous?.hash ?? GENESIS_HASH,
+		};
+
+		db.query(`
+      INSERT INTO audit_events (
+        event_type, actor_id, ip_address, user_agent, payload, created_at, prev_hash, hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+			row.event_type,
+			row.actor_id,
+			row.ip_address,
+			row.user_agent,
+			row.payload,
+			row.created_at,
+			row.prev_hash,
+			hashEvent(row),
+		);
+	})();
+}
+
+/**
+ * Page through audit events, newest first
+ * @param db SQLite database instance
+ * @param filters Optional event type, actor and date range
+ * @param page 1-based page number
+ * @param pageSize Events per page
+ */
+export function listAuditEvents(
+	db: Database,
+	filters: AuditFilters,
+	page: number,
+	pageSize: number,
+): { events: AuditEvent[]; total: number } {
+	let where = "WHERE 1=1";
+	const params: (string | number)[] = [];
+
+	if (filters.eventType) {
+		where += " AND event_type = ?";
+		params.push(filters.eventType);
+	}
+
+	if (filters.actorId) {
+		where += " AND actor_id = ?";
+		params.push(filters.actorId);
+	}
+
+	if (filters.startDate) {
+		where += " AND created_at >= ?";
+		params.push(filters.startDate);
+	}
+
+	if (filters.endDate) {
+		where += " AND created_at <= ?";
+		params.push(filters.endDate);
+	}
+
+	const { total } = db
+		.query<{ total: number }, (string | number)[]>(
+			`SELECT COUNT(*) as total FROM audit_events ${where}`,
+		)
+		.get(...params) as { total: number };
+
+	const rows = db
+		.query<AuditRow, (string | number)[]>(
+			`SELECT * FROM audit_events ${where} ORDER BY id DESC LIMIT ? OFFSET ?`,
+		)
+		.all(...params, pageSize, (page - 1) * pageSize);
+
+	return {
+		total,
+		events: rows.map((row) => ({
+			id: row.id,
+			eventType: row.event_type,
+			actorId: row.actor_id,
+			ipAddress: row.ip_address,
+			userAgent: row.user_agent,
+			payload: JSON.parse(row.payload),
+			createdAt: row.created_at,
+			hash: row.hash,
+		})),
+	};
+}
+
+/**
+ * Walk the whole audit log and check every row still hashes to its
+ * stored hash and links to the row before it
+ * @param db SQLite database instance
+ * @returns The first row that does not check out, if any
+ */
+export function verifyAuditChain(db: Database): AuditChainResult {
+	let previousHash = GENESIS_HASH;
+	let checked = 0;
+
+	for (const row of db
+		.query<AuditRow, []>("SELECT * FROM audit_events ORDER BY id")
+		.iterate()) {
+		if (row.prev_hash !== previousHash || hashEvent(row) !== row.hash) {
+			return { valid: false, checked, brokenAt: row.id };
+		}
+
+		previousHash = row.hash;
+		checked++;
+	}
+
+	return { valid: true, checked };
+}
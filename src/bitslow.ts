@@ -1,4 +1,18 @@
 import { CryptoHasher } from "bun";
+import { WorkerPool } from "./utils/worker_pool";
+
+// Number of BitSlow workers, leaving one core for the server by default
+const WORKER_COUNT =
+	Number(process.env.BITSLOW_WORKERS) ||
+	Math.max(1, navigator.hardwareConcurrency - 1);
+
+// Maximum number of computations waiting for a free worker
+const MAX_QUEUE_SIZE = Number(process.env.BITSLOW_QUEUE_SIZE) || 1000;
+
+let workerPool: WorkerPool<
+	{ bit1: number; bit2: number; bit3: number },
+	string
+> | null = null;
 
 /**
  * Compute the BitSlow based on its components.
@@ -33,3 +47,26 @@ export function computeBitSlow(
 	hasher.update(n.toString());
 	return hasher.digest("hex");
 }
+
+/**
+ * Compute the BitSlow on a worker thread so the server stays responsive.
+ * Rejects when too many computations are already waiting.
+ * @param bit1 The first component.
+ * @param bit2 The second component.
+ * @param bit3 The third component.
+ * @returns - The computed BitSlow.
+ */
+export function computeBitSlowAsync(
+	bit1: number,
+	bit2: number,
+	bit3: number,
+): Promise<string> {
+	if (!workerPool) {
+		workerPool = new WorkerPool(
+			new URL("./bitslow_worker.ts", import.meta.url),
+			{ size: WORKER_COUNT, maxQueueSize: MAX_QUEUE_SIZE },
+		);
+	}
+
+	return workerPool.run({ bit1, bit2, bit3 });
+}
@@ -0,0 +1,26 @@
+/**
+ * Worker entry point that computes BitSlows off the main thread.
+ *
+ * Spawned by the pool behind `computeBitSlowAsync` in `bitslow.ts`.
+ */
+
+import { parentPort } from "node:worker_threads";
+import { computeBitSlow } from "./bitslow";
+
+parentPort?.on(
+	"message",
+	({
+		id,
+		input,
+	}: { id: number; input: { bit1: number; bit2: number; bit3: number } }) => {
+		try {
+			const result = computeBitSlow(input.bit1, input.bit2, input.bit3);
+			parentPort?.postMessage({ id, result });
+		} catch (error) {
+			parentPort?.postMessage({
+				id,
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	},
+);
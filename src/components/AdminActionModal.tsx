@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { authFetch } from "@/services/auth";
+import { Toast } from "../components/Toast";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+// One moderation action waiting for the admin to give a reason
+export interface PendingAdminAction {
+	title: string;
+	confirmLabel: string;
+	endpoint: string;
+	payload: Record<string, number>;
+	// Reassigning a coin also asks who gets it
+	needsNewOwner?: boolean;
+}
+
+interface AdminActionModalProps {
+	action: PendingAdminAction | null;
+	onClose: () => void;
+	onSuccess: (message: string) => void;
+}
+
+export function AdminActionModal({
+	action,
+	onClose,
+	onSuccess,
+}: AdminActionModalProps) {
+	const [reason, setReason] = useState("");
+	const [newOwnerId, setNewOwnerId] = useState<number | "">("");
+	const [isLoading, setIsLoading] = useState(false);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+
+	const handleClose = () => {
+		setReason("");
+		setNewOwnerId("");
+		onClose();
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!action) return;
+
+		if (!reason.trim()) {
+			setToast({ message: "Please give a reason", type: "error" });
+			return;
+		}
+
+		if (action.needsNewOwner && (newOwnerId === "" || newOwnerId <= 0)) {
+			setToast({ message: "Please enter the new owner's ID", type: "error" });
+			return;
+		}
+
+		setIsLoading(true);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}${action.endpoint}`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					...action.payload,
+					...(action.needsNewOwner ? { client_id: newOwnerId } : {}),
+					reason,
+				}),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Action failed");
+			}
+
+			onSuccess(`${action.title} done`);
+			handleClose();
+		} catch (err) {
+			const errorMessage =
+				err instanceof Error ? err.message : "An unknown error occurred";
+			setToast({ message: errorMessage, type: "error" });
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	if (!action) return null;
+
+	return (
+		<div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+			<div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+				<div className="p-6">
+					<h3 className="text-xl font-semibold text-gray-800 mb-4">
+						{action.title}
+					</h3>
+
+					<form onSubmit={handleSubmit}>
+						{action.needsNewOwner && (
+							<div className="mb-4">
+								<label
+									htmlFor="newOwnerId"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									New owner's client ID
+								</label>
+								<input
+									type="number"
+									id="newOwnerId"
+									value={newOwnerId}
+									onChange={(e) =>
+										setNewOwnerId(
+											e.target.value === "" ? "" : Number(e.target.value),
+										)
+									}
+									className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+									min="1"
+									required
+								/>
+							</div>
+						)}
+
+						<div className="mb-4">
+							<label
+								htmlFor="actionReason"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Reason
+							</label>
+							<textarea
+								id="actionReason"
+								value={reason}
+								onChange={(e) => setReason(e.target.value)}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+								placeholder="Why is this needed?"
+								rows={3}
+								required
+							/>
+						</div>
+
+						<div className="flex justify-end gap-3">
+							<button
+								type="button"
+								onClick={handleClose}
+								className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500"
+								disabled={isLoading}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 flex items-center"
+								disabled={isLoading}
+							>
+								{isLoading ? (
+									<>
+										<div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+										Working...
+									</>
+								) : (
+									action.confirmLabel
+								)}
+							</button>
+						</div>
+					</form>
+				</div>
+			</div>
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
+
+export default AdminActionModal;
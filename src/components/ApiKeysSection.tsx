@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { authFetch } from "@/services/auth";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+type Scope = "read" | "trade" | "mint";
+
+interface ApiKey {
+	id: string;
+	name: string;
+	prefix: string;
+	scopes: Scope[];
+	createdAt: string;
+	expiresAt: string | null;
+	lastUsedAt: string | null;
+}
+
+interface ApiKeysSectionProps {
+	onMessage: (message: string, type: "success" | "error") => void;
+}
+
+const SCOPES: { id: Scope; label: string }[] = [
+	{ id: "read", label: "Read only" },
+	{ id: "trade", label: "Trade" },
+	{ id: "mint", label: "Mint" },
+];
+
+const EXPIRY_OPTIONS = [
+	{ days: 30, label: "30 days" },
+	{ days: 90, label: "90 days" },
+	{ days: 365, label: "1 year" },
+	{ days: null, label: "Never" },
+];
+
+export function ApiKeysSection({ onMessage }: ApiKeysSectionProps) {
+	const [keys, setKeys] = useState<ApiKey[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [name, setName] = useState("");
+	const [scopes, setScopes] = useState<Scope[]>(["read"]);
+	const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+	const [isCreating, setIsCreating] = useState(false);
+	const [newKey, setNewKey] = useState<string | null>(null);
+	const [revokingId, setRevokingId] = useState<string | null>(null);
+
+	useEffect(() => {
+		const fetchKeys = async () => {
+			try {
+				const response = await authFetch(`${ENDPOINT_URL}api/keys`);
+
+				if (!response.ok) {
+					throw new Error("Failed to fetch API keys");
+				}
+
+				const data = await response.json();
+				setKeys(data.keys);
+			} catch (error) {
+				console.error("Error fetching API keys:", error);
+				setError("Failed to fetch API keys");
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchKeys();
+	}, []);
+
+	const toggleScope = (scope: Scope) => {
+		setScopes((current) =>
+			current.includes(scope)
+				? current.filter((s) => s !== scope)
+				: [...current, scope],
+		);
+	};
+
+	const createKey = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsCreating(true);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/keys`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ name, scopes, expiresInDays }),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to create API key");
+			}
+
+			setKeys((current) => [data.apiKey, ...current]);
+			setNewKey(data.key);
+			setName("");
+			onMessage("API key created", "success");
+		} catch (error) {
+			onMessage(
+				error instanceof Error ? error.message : "Failed to create API key",
+				"error",
+			);
+		} finally {
+			setIsCreating(false);
+		}
+	};
+
+	const revokeKey = async (keyId: string) => {
+		setRevokingId(keyId);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/keys/revoke`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ key_id: keyId }),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to revoke API key");
+			}
+
+			setKeys((current) => current.filter((key) => key.id !== keyId));
+			onMessage("API key revoked", "success");
+		} catch (error) {
+			onMessage(
+				error instanceof Error ? error.message : "Failed to revoke API key",
+				"error",
+			);
+		} finally {
+			setRevokingId(null);
+		}
+	};
+
+	return (
+		<div className="api-keys mt-8">
+			<h2 className="text-xl font-semibold mb-4">API Keys</h2>
+			<div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+				{newKey && (
+					<div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+						<p className="font-medium mb-2">Copy your new API key</p>
+						<p className="text-sm text-gray-600 mb-3">
+							Send it as <code>Authorization: ApiKey &lt;key&gt;</code>. It will
+							not be shown again.
+						</p>
+						<p className="font-mono text-sm break-all">{newKey}</p>
+						<button
+							type="button"
+							onClick={() => setNewKey(null)}
+							className="text-sm text-gray-500 hover:underline mt-3"
+						>
+							Done
+						</button>
+					</div>
+				)}
+
+				<form onSubmit={createKey} className="space-y-3">
+					<div className="flex flex-wrap items-center gap-3">
+						<input
+							type="text"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							placeholder="Key name, e.g. Trading bot"
+							maxLength={50}
+							className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+						<select
+							value={expiresInDays ?? ""}
+							onChange={(e) =>
+								setExpiresInDays(
+									e.target.value === "" ? null : Number(e.target.value),
+								)
+							}
+							className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+						>
+							{EXPIRY_OPTIONS.map((option) => (
+								<option key={option.label} value={option.days ?? ""}>
+									Expires: {option.label}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="flex flex-wrap items-center gap-4">
+						{SCOPES.map((scope) => (
+							<label key={scope.id} className="flex items-center gap-2 text-sm">
+								<input
+									type="checkbox"
+									checked={scopes.includes(scope.id)}
+									onChange={() => toggleScope(scope.id)}
+								/>
+								{scope.label}
+							</label>
+						))}
+						<button
+							type="submit"
+							disabled={isCreating || !name.trim() || scopes.length === 0}
+							className="text-sm bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded disabled:opacity-50"
+						>
+							{isCreating ? "Creating..." : "Create key"}
+						</button>
+					</div>
+				</form>
+
+				{isLoading ? (
+					<p className="text-gray-500">Loading API keys...</p>
+				) : error ? (
+					<p className="text-red-500">{error}</p>
+				) : keys.length > 0 ? (
+					<div className="overflow-x-auto">
+						<table className="min-w-full border border-gray-200">
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="border px-4 py-2">Name</th>
+									<th className="border px-4 py-2">Key</th>
+									<th className="border px-4 py-2">Scopes</th>
+									<th className="border px-4 py-2">Expires</th>
+									<th className="border px-4 py-2">Last Used</th>
+									<th className="border px-4 py-2" />
+								</tr>
+							</thead>
+							<tbody>
+								{keys.map((key) => (
+									<tr key={key.id} className="hover:bg-gray-50">
+										<td className="border px-4 py-2">{key.name}</td>
+										<td className="border px-4 py-2 font-mono text-sm">
+											{key.prefix}…
+										</td>
+										<td className="border px-4 py-2">
+											{key.scopes.join(", ")}
+										</td>
+										<td className="border px-4 py-2">
+											{key.expiresAt
+												? new Date(key.expiresAt).toLocaleDateString()
+												: "Never"}
+										</td>
+										<td className="border px-4 py-2">
+											{key.lastUsedAt
+												? new Date(key.lastUsedAt).toLocaleString()
+												: "Never"}
+										</td>
+										<td className="border px-4 py-2 text-center">
+											<button
+												type="button"
+												onClick={() => revokeKey(key.id)}
+												disabled={revokingId === key.id}
+												className="text-sm bg-red-600 hover:bg-red-700 text-white py-1 px-3 rounded disabled:opacity-50"
+											>
+												{revokingId === key.id ? "Revoking..." : "Revoke"}
+											</button>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				) : (
+					<p className="text-gray-500">No API keys yet.</p>
+				)}
+			</div>
+		</div>
+	);
+}
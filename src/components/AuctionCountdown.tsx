@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+
+interface AuctionCountdownProps {
+	endsAt: string;
+	// Called once when the countdown reaches zero
+	onEnd?: () => void;
+}
+
+function formatRemaining(ms: number): string {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const days = Math.floor(totalSeconds / 86400);
+	const hours = Math.floor((totalSeconds % 86400) / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	const pad = (value: number) => value.toString().padStart(2, "0");
+
+	return days > 0
+		? `${days}d ${pad(hours)}h ${pad(minutes)}m`
+		: `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function AuctionCountdown({ endsAt, onEnd }: AuctionCountdownProps) {
+	const [remaining, setRemaining] = useState(
+		new Date(endsAt).getTime() - Date.now(),
+	);
+
+	useEffect(() => {
+		const end = new Date(endsAt).getTime();
+		setRemaining(end - Date.now());
+
+		// Only report the end when it happens while this is on screen
+		if (end <= Date.now()) return;
+
+		const timerId = window.setInterval(() => {
+			const left = end - Date.now();
+			setRemaining(left);
+
+			if (left <= 0) {
+				clearInterval(timerId);
+				onEnd?.();
+			}
+		}, 1000);
+
+		return () => clearInterval(timerId);
+	}, [endsAt, onEnd]);
+
+	if (remaining <= 0) {
+		return <span className="text-gray-500">Ended</span>;
+	}
+
+	// Anti-sniping extends auctions, so flag the final two minutes
+	return (
+		<span
+			className={`font-mono ${remaining < 2 * 60 * 1000 ? "text-red-600" : "text-gray-700"}`}
+		>
+			{formatRemaining(remaining)}
+		</span>
+	);
+}
+
+export default AuctionCountdown;
@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { authFetch, getUserId, isLoggedIn } from "@/services/auth";
+import type { Auction, AuctionBid } from "../types";
+import { AuctionCountdown } from "../components/AuctionCountdown";
+import { Toast } from "../components/Toast";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+// How often an open auction is re-fetched to pick up other bidders
+const POLL_INTERVAL = 3000;
+
+interface AuctionModalProps {
+	auctionId: number | null;
+	onClose: () => void;
+	onBid: (message: string) => void;
+}
+
+export function AuctionModal({ auctionId, onClose, onBid }: AuctionModalProps) {
+	const [auction, setAuction] = useState<Auction | null>(null);
+	const [bids, setBids] = useState<AuctionBid[]>([]);
+	const [amount, setAmount] = useState<number | "">("");
+	const [isLoading, setIsLoading] = useState(true);
+	const [isBidding, setIsBidding] = useState(false);
+	const [refreshTrigger, setRefreshTrigger] = useState(0);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+	const currentUserId = Number(getUserId());
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: refreshTrigger re-fetches after a bid
+	useEffect(() => {
+		if (auctionId === null) return;
+
+		const fetchAuction = async () => {
+			try {
+				const response = await fetch(
+					`${ENDPOINT_URL}api/auctions/${auctionId}`,
+				);
+
+				if (!response.ok) {
+					throw new Error("Failed to fetch auction");
+				}
+
+				const data = await response.json();
+				setAuction(data.auction);
+				setBids(data.bids);
+			} catch (error) {
+				console.error("Error fetching auction:", error);
+				setToast({ message: "Failed to fetch auction", type: "error" });
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchAuction();
+		const timerId = window.setInterval(fetchAuction, POLL_INTERVAL);
+
+		return () => clearInterval(timerId);
+	}, [auctionId, refreshTrigger]);
+
+	useEffect(() => {
+		// Start each auction with an empty form and a spinner
+		if (auctionId === null) {
+			setAuction(null);
+			setBids([]);
+			setAmount("");
+			setIsLoading(true);
+		}
+	}, [auctionId]);
+
+	const placeBid = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!auction || amount === "") return;
+
+		setIsBidding(true);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/auctions/bid`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ auction_id: auction.id, amount }),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to place bid");
+			}
+
+			setAmount("");
+			onBid(
+				`Bid of $${amount.toLocaleString()} placed on BitSlow #${auction.coinId}`,
+			);
+			setRefreshTrigger((prev) => prev + 1);
+		} catch (error) {
+			setToast({
+				message: error instanceof Error ? error.message : "Failed to place bid",
+				type: "error",
+			});
+		} finally {
+			setIsBidding(false);
+		}
+	};
+
+	if (auctionId === null) return null;
+
+	const isOpen =
+		auction?.status === "open" &&
+		new Date(auction.endsAt).getTime() > Date.now();
+	const canBid = isOpen && isLoggedIn() && auction?.sellerId !== currentUserId;
+
+	return (
+		<div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+			<div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+				<div className="p-6">
+					{isLoading || !auction ? (
+						<div className="flex justify-center items-center h-32">
+							<div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+						</div>
+					) : (
+						<>
+							<div className="flex justify-between items-start mb-4">
+								<div>
+									<h3 className="text-xl font-semibold text-gray-800">
+										Auction for BitSlow #{auction.coinId}
+									</h3>
+									<p className="text-sm text-gray-500">
+										Sold by {auction.sellerName || "Original Issuer"}
+									</p>
+								</div>
+								<div className="text-right">
+									<p className="text-sm text-gray-500">
+										{isOpen ? "Ends in" : "Status"}
+									</p>
+									{isOpen ? (
+										<AuctionCountdown endsAt={auction.endsAt} />
+									) : (
+										<span className="capitalize">{auction.status}</span>
+									)}
+								</div>
+							</div>
+
+							<div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+								<div>
+									<p className="text-gray-500">High bid</p>
+									<p className="font-semibold">
+										{auction.highBid === null
+											? "No bids"
+											: `$${auction.highBid.toLocaleString()}`}
+									</p>
+								</div>
+								<div>
+									<p className="text-gray-500">Reserve</p>
+									<p className="font-semibold">
+										${auction.reservePrice.toLocaleString()}
+									</p>
+								</div>
+								<div>
+									<p className="text-gray-500">Increment</p>
+									<p className="font-semibold">
+										${auction.minIncrement.toLocaleString()}
+									</p>
+								</div>
+							</div>
+
+							{auction.extensions > 0 && (
+								<p className="text-xs text-gray-500 mb-4">
+									Extended {auction.extensions} times by late bids
+								</p>
+							)}
+
+							{canBid && (
+								<form onSubmit={placeBid} className="flex gap-3 mb-4">
+									<input
+										type="number"
+										value={amount}
+										onChange={(e) =>
+											setAmount(
+												e.target.value === "" ? "" : Number(e.target.value),
+											)
+										}
+										min={auction.minimumBid}
+										step="any"
+										placeholder={`$${auction.minimumBid.toLocaleString()} or more`}
+										className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+										required
+									/>
+									<button
+										type="submit"
+										disabled={isBidding}
+										className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-md disabled:opacity-50"
+									>
+										{isBidding ? "Bidding..." : "Place Bid"}
+									</button>
+								</form>
+							)}
+
+							<h4 className="font-medium text-gray-700 mb-2">Bid history</h4>
+							{bids.length === 0 ? (
+								<p className="text-gray-500 text-sm">No bids yet.</p>
+							) : (
+								<div className="max-h-60 overflow-y-auto">
+									<table className="min-w-full border border-gray-200 text-sm">
+										<thead className="bg-gray-50">
+											<tr>
+												<th className="border px-3 py-2 text-left">Bidder</th>
+												<th className="border px-3 py-2 text-right">Amount</th>
+												<th className="border px-3 py-2 text-right">Time</th>
+											</tr>
+										</thead>
+										<tbody>
+											{bids.map((bid) => (
+												<tr
+													key={bid.id}
+													className={
+														bid.id === auction.winningBidId
+															? "bg-green-50"
+															: "hover:bg-gray-50"
+													}
+												>
+													<td className="border px-3 py-2">
+														{bid.bidderId === currentUserId
+															? "You"
+															: bid.bidderName}
+													</td>
+													<td className="border px-3 py-2 text-right">
+														${bid.amount.toLocaleString()}
+													</td>
+													<td className="border px-3 py-2 text-right">
+														{new Date(bid.createdAt).toLocaleTimeString()}
+													</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+								</div>
+							)}
+						</>
+					)}
+
+					<div className="flex justify-end mt-6">
+						<button
+							type="button"
+							onClick={onClose}
+							className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+						>
+							Close
+						</button>
+					</div>
+				</div>
+			</div>
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
+
+export default AuctionModal;
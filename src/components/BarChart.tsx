@@ -0,0 +1,102 @@
+interface BarChartProps {
+	bars: { label: string; value: number }[];
+	color: string;
+	formatValue?: (value: number) => string;
+	height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+/**
+ * Vertical bars over evenly spaced labels, such as one bar per day
+ */
+export function BarChart({
+	bars,
+	color,
+	formatValue = (value) => value.toLocaleString(),
+	height = 180,
+}: BarChartProps) {
+	if (bars.length === 0) {
+		return (
+			<div
+				className="flex items-center justify-center text-gray-500 text-sm"
+				style={{ height }}
+			>
+				Nothing to chart yet.
+			</div>
+		);
+	}
+
+	const maxValue = Math.max(...bars.map((bar) => bar.value)) || 1;
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = height - PADDING.top - PADDING.bottom;
+	const slot = plotWidth / bars.length;
+	// Leave a gap between bars while there is room for one
+	const barWidth = slot > 4 ? slot * 0.8 : slot;
+
+	return (
+		<svg
+			viewBox={`0 0 ${WIDTH} ${height}`}
+			className="w-full"
+			role="img"
+			aria-label="Bar chart"
+		>
+			<line
+				x1={PADDING.left}
+				y1={PADDING.top + plotHeight}
+				x2={WIDTH - PADDING.right}
+				y2={PADDING.top + plotHeight}
+				stroke="#d1d5db"
+			/>
+			<text
+				x={PADDING.left - 6}
+				y={PADDING.top + 4}
+				textAnchor="end"
+				fontSize="11"
+				fill="#6b7280"
+			>
+				{formatValue(maxValue)}
+			</text>
+			<text
+				x={PADDING.left - 6}
+				y={PADDING.top + plotHeight}
+				textAnchor="end"
+				fontSize="11"
+				fill="#6b7280"
+			>
+				{formatValue(0)}
+			</text>
+			<text x={PADDING.left} y={height - 6} fontSize="11" fill="#6b7280">
+				{bars[0].label}
+			</text>
+			<text
+				x={WIDTH - PADDING.right}
+				y={height - 6}
+				textAnchor="end"
+				fontSize="11"
+				fill="#6b7280"
+			>
+				{bars[bars.length - 1].label}
+			</text>
+
+			{bars.map((bar, index) => {
+				const barHeight = (bar.value / maxValue) * plotHeight;
+				return (
+					<rect
+						key={bar.label}
+						x={PADDING.left + index * slot + (slot - barWidth) / 2}
+						y={PADDING.top + plotHeight - barHeight}
+						width={barWidth}
+						height={barHeight}
+						fill={color}
+					>
+						<title>{`${bar.label}: ${formatValue(bar.value)}`}</title>
+					</rect>
+				);
+			})}
+		</svg>
+	);
+}
+
+export default BarChart;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { getAuthToken } from "@/services/auth";
+import { authFetch } from "@/services/auth";
 import { Toast } from "../components/Toast";
 
 interface OwnershipRecord {
@@ -44,11 +44,9 @@ export function CoinHistoryModal({
 		setError(null);
 
 		try {
-			const response = await fetch(`${ENDPOINT_URL}api/coins/${id}/history`, {
-				headers: {
-					Authorization: `Bearer ${getAuthToken()}`,
-				},
-			});
+			const response = await authFetch(
+				`${ENDPOINT_URL}api/coins/${id}/history`,
+			);
 
 			const data = await response.json();
 
@@ -132,7 +130,9 @@ export function CoinHistoryModal({
 												? "bg-green-500"
 												: record.type === "current"
 													? "bg-blue-500"
-													: "bg-yellow-500"
+													: record.type === "transfer"
+														? "bg-purple-500"
+														: "bg-yellow-500"
 												}`}
 										/>
 
@@ -164,6 +164,25 @@ export function CoinHistoryModal({
 															? "Available for Purchase"
 															: `Currently owned by ${record.owner_name}`}
 													</div>
+												) : record.type === "transfer" ? (
+													<>
+														<span className="font-medium text-purple-600">
+															Transferred
+														</span>
+														<span className="text-gray-700"> from </span>
+														<span className="font-medium text-gray-900">
+															{record.previous_owner_name}
+														</span>
+														<span className="text-gray-700"> to </span>
+														<span className="font-medium text-gray-900">
+															{record.owner_name}
+														</span>
+														{record.amount && (
+															<div className="text-sm text-gray-600">
+																Sale price: ${record.amount.toLocaleString()}
+															</div>
+														)}
+													</>
 												) : (
 													<>
 														<span className="font-medium text-gray-900">
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { getAuthToken } from "@/services/auth";
+import { authFetch } from "@/services/auth";
 import { Toast } from "../components/Toast";
 
 const ENDPOINT_URL = "http://localhost:3000/";
@@ -37,11 +37,10 @@ export function GenerateCoinModal({
 		setError(null);
 
 		try {
-			const response = await fetch(`${ENDPOINT_URL}api/coins/generate`, {
+			const response = await authFetch(`${ENDPOINT_URL}api/coins/generate`, {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
-					Authorization: `Bearer ${getAuthToken()}`,
 				},
 				body: JSON.stringify({ value: amount }),
 			});
@@ -0,0 +1,161 @@
+export interface LineSeries {
+	label: string;
+	// Any SVG colour, used for the line, its points and the legend
+	color: string;
+	points: { time: number; value: number }[];
+}
+
+interface LineChartProps {
+	series: LineSeries[];
+	formatValue?: (value: number) => string;
+	height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+/**
+ * Plots one or more series against a shared time axis. Series are drawn
+ * in order, so the one that matters most should come last.
+ */
+export function LineChart({
+	series,
+	formatValue = (value) => value.toLocaleString(),
+	height = 220,
+}: LineChartProps) {
+	const points = series.flatMap((line) => line.points);
+
+	if (points.length === 0) {
+		return (
+			<div
+				className="flex items-center justify-center text-gray-500 text-sm"
+				style={{ height }}
+			>
+				Nothing to chart yet.
+			</div>
+		);
+	}
+
+	const times = points.map((point) => point.time);
+	const values = points.map((point) => point.value);
+	const minTime = Math.min(...times);
+	const maxTime = Math.max(...times);
+	const minValue = Math.min(...values);
+	const maxValue = Math.max(...values);
+
+	// A flat line is centred in a band around its value
+	const valueRange = maxValue - minValue || Math.abs(maxValue) || 1;
+	const bottom = maxValue === minValue ? minValue - valueRange / 2 : minValue;
+	const top = bottom + valueRange;
+
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = height - PADDING.top - PADDING.bottom;
+	// A single point in time sits in the middle of the axis
+	const x = (time: number) =>
+		PADDING.left +
+		(maxTime === minTime
+			? plotWidth / 2
+			: ((time - minTime) / (maxTime - minTime)) * plotWidth);
+	const y = (value: number) =>
+		PADDING.top + plotHeight - ((value - bottom) / (top - bottom)) * plotHeight;
+
+	const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+	return (
+		<div>
+			<svg
+				viewBox={`0 0 ${WIDTH} ${height}`}
+				className="w-full"
+				role="img"
+				aria-label={series.map((line) => line.label).join(", ")}
+			>
+				<line
+					x1={PADDING.left}
+					y1={PADDING.top + plotHeight}
+					x2={WIDTH - PADDING.right}
+					y2={PADDING.top + plotHeight}
+					stroke="#d1d5db"
+				/>
+				<line
+					x1={PADDING.left}
+					y1={PADDING.top}
+					x2={PADDING.left}
+					y2={PADDING.top + plotHeight}
+					stroke="#d1d5db"
+				/>
+				<text
+					x={PADDING.left - 6}
+					y={PADDING.top + 4}
+					textAnchor="end"
+					fontSize="11"
+					fill="#6b7280"
+				>
+					{formatValue(top)}
+				</text>
+				<text
+					x={PADDING.left - 6}
+					y={PADDING.top + plotHeight}
+					textAnchor="end"
+					fontSize="11"
+					fill="#6b7280"
+				>
+					{formatValue(bottom)}
+				</text>
+				<text x={PADDING.left} y={height - 6} fontSize="11" fill="#6b7280">
+					{formatDate(minTime)}
+				</text>
+				<text
+					x={WIDTH - PADDING.right}
+					y={height - 6}
+					textAnchor="end"
+					fontSize="11"
+					fill="#6b7280"
+				>
+					{formatDate(maxTime)}
+				</text>
+
+				{series.map((line) => (
+					<g key={line.label}>
+						<polyline
+							fill="none"
+							stroke={line.color}
+							strokeWidth="2"
+							points={line.points
+								.map((point) => `${x(point.time)},${y(point.value)}`)
+								.join(" ")}
+						/>
+						{line.points.map((point) => (
+							<circle
+								key={point.time}
+								cx={x(point.time)}
+								cy={y(point.value)}
+								r="3"
+								fill={line.color}
+							>
+								<title>
+									{`${line.label}: ${formatValue(point.value)} on ${formatDate(point.time)}`}
+								</title>
+							</circle>
+						))}
+					</g>
+				))}
+			</svg>
+
+			{series.length > 1 && (
+				<div className="flex gap-4 justify-center text-sm text-gray-600 mt-2">
+					{series.map((line) => (
+						<span key={line.label} className="flex items-center gap-1">
+							<span
+								className="inline-block w-3 h-3 rounded-full"
+								style={{ backgroundColor: line.color }}
+							/>
+							{line.label}
+						</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+export default LineChart;
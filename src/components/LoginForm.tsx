@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import type { LoginCredentials } from "../types";
-import { loginUser } from "../services/auth";
+import { completeTwoFactorLogin, loginUser } from "../services/auth";
 
 interface LoginFormProps {
 	onSuccess?: () => void;
@@ -16,6 +16,10 @@ export function LoginForm({ onSuccess, onError, className }: LoginFormProps) {
 	});
 	const [isLoading, setIsLoading] = useState(false);
 	const [errors, setErrors] = useState<Record<string, string>>({});
+	// Set once the password is accepted but a two-factor code is still needed
+	const [challenge, setChallenge] = useState<string | null>(null);
+	const [code, setCode] = useState("");
+	const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
 	const validate = () => {
 		const newErrors: Record<string, string> = {};
@@ -52,6 +56,10 @@ export function LoginForm({ onSuccess, onError, className }: LoginFormProps) {
 
 		try {
 			const response = await loginUser(formData);
+			if (response.twoFactorRequired && response.challenge) {
+				setChallenge(response.challenge);
+				return;
+			}
 			onSuccess?.();
 		} catch (error) {
 			onError?.(error instanceof Error ? error.message : "Login failed");
@@ -60,6 +68,132 @@ export function LoginForm({ onSuccess, onError, className }: LoginFormProps) {
 		}
 	};
 
+	const handleCodeSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!challenge) {
+			return;
+		}
+
+		if (!code.trim()) {
+			setErrors({
+				code: useRecoveryCode
+					? "Recovery code is required"
+					: "Authentication code is required",
+			});
+			return;
+		}
+
+		setErrors({});
+		setIsLoading(true);
+
+		try {
+			await completeTwoFactorLogin(challenge, code.trim());
+			onSuccess?.();
+		} catch (error) {
+			const message =
+				error instanceof Error
+					? error.message
+					: "Two-factor verification failed";
+			onError?.(message);
+
+			// An expired or exhausted challenge means starting over
+			if (message.includes("log in again")) {
+				setChallenge(null);
+				setFormData({ ...formData, password: "" });
+			}
+			setCode("");
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	if (challenge) {
+		return (
+			<div className="flex flex-col gap-6 max-w-3xl mx-auto">
+				<div className="rounded-lg border bg-card text-card-foreground shadow-lg overflow-hidden">
+					<div className="flex flex-col space-y-1.5 p-6 bg-gray-50">
+						<h3 className="text-2xl font-semibold leading-none tracking-tight">
+							Two-Factor Authentication
+						</h3>
+						<p className="text-sm text-gray-500">
+							{useRecoveryCode
+								? "Enter one of your recovery codes"
+								: "Enter the 6-digit code from your authenticator app"}
+						</p>
+					</div>
+					<div className="p-8 pt-6">
+						<form onSubmit={handleCodeSubmit}>
+							<div className="flex flex-col gap-6">
+								<div className="grid gap-2">
+									<label htmlFor="code" className="text-sm font-medium">
+										{useRecoveryCode ? "Recovery Code" : "Authentication Code"}{" "}
+										<span className="text-red-500">*</span>
+									</label>
+									<input
+										type="text"
+										id="code"
+										name="code"
+										value={code}
+										onChange={(e) => setCode(e.target.value)}
+										autoComplete="one-time-code"
+										inputMode={useRecoveryCode ? "text" : "numeric"}
+										className={`flex h-11 w-full rounded-md border border-input bg-background px-3 py-2 text-sm tracking-widest ring-offset-background placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all ${errors.code ? "border-red-500" : ""}`}
+										placeholder={useRecoveryCode ? "XXXXX-XXXXX" : "123456"}
+									/>
+									{errors.code && (
+										<p className="text-red-500 text-xs mt-1">{errors.code}</p>
+									)}
+								</div>
+
+								<button
+									type="submit"
+									disabled={isLoading}
+									className="flex items-center justify-center rounded-md bg-blue-600 text-white hover:bg-blue-700 h-11 w-full mt-4 text-sm font-medium transition-colors disabled:opacity-50"
+								>
+									{isLoading ? (
+										<>
+											<span className="mr-2 h-4 w-4 border-2 border-t-transparent border-white rounded-full animate-spin" />
+											Verifying...
+										</>
+									) : (
+										"Verify"
+									)}
+								</button>
+							</div>
+							<div className="mt-6 flex justify-between text-sm">
+								<button
+									type="button"
+									onClick={() => {
+										setUseRecoveryCode(!useRecoveryCode);
+										setCode("");
+										setErrors({});
+									}}
+									className="text-primary font-medium hover:underline underline-offset-4"
+								>
+									{useRecoveryCode
+										? "Use authenticator app"
+										: "Use a recovery code"}
+								</button>
+								<button
+									type="button"
+									onClick={() => {
+										setChallenge(null);
+										setCode("");
+										setErrors({});
+									}}
+									className="text-gray-500 hover:underline underline-offset-4"
+								>
+									Back to login
+								</button>
+							</div>
+						</form>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
 	return (
 		<div className="flex flex-col gap-6 max-w-3xl mx-auto">
 			<div className="rounded-lg border bg-card text-card-foreground shadow-lg overflow-hidden">
@@ -137,6 +271,12 @@ export function LoginForm({ onSuccess, onError, className }: LoginFormProps) {
 								{errors.password && (
 									<p className="text-red-500 text-xs mt-1">{errors.password}</p>
 								)}
+								<Link
+									to="/forgot-password"
+									className="text-xs text-gray-500 hover:underline underline-offset-4 self-end"
+								>
+									Forgot your password?
+								</Link>
 							</div>
 
 							<button
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { isLoggedIn, getUserName, logoutUser } from "../services/auth";
+import { isLoggedIn, isAdmin, getUserName, logoutUser } from "../services/auth";
 
 interface NavLinkProps {
 	to: string;
@@ -28,6 +28,7 @@ export function Navbar() {
 	const [isMenuOpen, setIsMenuOpen] = useState(false);
 	const [authenticated, setAuthenticated] = useState(false);
 	const [username, setUsername] = useState<string | null>(null);
+	const [admin, setAdmin] = useState(false);
 	const location = useLocation();
 	const currentPath = location.pathname;
 
@@ -35,12 +36,14 @@ export function Navbar() {
 		// Check authentication status
 		setAuthenticated(isLoggedIn());
 		setUsername(getUserName());
+		setAdmin(isAdmin());
 	}, []); // No need for dependencies, only runs on mount
 
 	const handleLogout = async () => {
 		await logoutUser();
 		setAuthenticated(false);
 		setUsername(null);
+		setAdmin(false);
 		// Close mobile menu if open
 		setIsMenuOpen(false);
 		// Navigate to home page after logout
@@ -87,6 +90,16 @@ export function Navbar() {
 								>
 									Marketplace
 								</NavLink>
+								{authenticated && (
+									<NavLink to="/offers" isActive={currentPath === "/offers"}>
+										Offers
+									</NavLink>
+								)}
+								{admin && (
+									<NavLink to="/admin" isActive={currentPath === "/admin"}>
+										Admin
+									</NavLink>
+								)}
 							</div>
 						</div>
 					</div>
@@ -221,6 +234,32 @@ export function Navbar() {
 						>
 							Marketplace
 						</Link>
+						{authenticated && (
+							<Link
+								to="/offers"
+								className={`block px-3 py-2 rounded-md text-base font-medium ${
+									currentPath === "/offers"
+										? "bg-blue-700 text-white"
+										: "text-gray-300 hover:bg-gray-700 hover:text-white"
+								}`}
+								onClick={() => setIsMenuOpen(false)}
+							>
+								Offers
+							</Link>
+						)}
+						{admin && (
+							<Link
+								to="/admin"
+								className={`block px-3 py-2 rounded-md text-base font-medium ${
+									currentPath === "/admin"
+										? "bg-blue-700 text-white"
+										: "text-gray-300 hover:bg-gray-700 hover:text-white"
+								}`}
+								onClick={() => setIsMenuOpen(false)}
+							>
+								Admin
+							</Link>
+						)}
 
 						{/* Authentication links - Mobile */}
 						{authenticated ? (
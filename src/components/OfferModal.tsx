@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { authFetch } from "@/services/auth";
+import { Toast } from "../components/Toast";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+interface OfferModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onSuccess: (message: string) => void;
+	coinId: number | null;
+	// Set when answering an offer with a different amount
+	counterOfferId?: number | null;
+	suggestedAmount?: number;
+}
+
+const EXPIRY_OPTIONS = [
+	{ hours: 1, label: "1 hour" },
+	{ hours: 24, label: "1 day" },
+	{ hours: 48, label: "2 days" },
+	{ hours: 168, label: "1 week" },
+];
+
+export function OfferModal({
+	isOpen,
+	onClose,
+	onSuccess,
+	coinId,
+	counterOfferId = null,
+	suggestedAmount,
+}: OfferModalProps) {
+	const [amount, setAmount] = useState<number | "">("");
+	const [expiresInHours, setExpiresInHours] = useState(48);
+	const [isLoading, setIsLoading] = useState(false);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+
+	const isCounter = counterOfferId !== null;
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (amount === "" || amount <= 0) {
+			setToast({
+				message: "Please enter an amount greater than 0",
+				type: "error",
+			});
+			return;
+		}
+
+		setIsLoading(true);
+
+		try {
+			const response = await authFetch(
+				`${ENDPOINT_URL}${isCounter ? "api/offers/counter" : "api/offers"}`,
+				{
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify(
+						isCounter
+							? { offer_id: counterOfferId, amount, expiresInHours }
+							: { coin_id: coinId, amount, expiresInHours },
+					),
+				},
+			);
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to send offer");
+			}
+
+			setAmount("");
+			onSuccess(
+				isCounter
+					? `Counter offer of $${amount.toLocaleString()} sent`
+					: `Offer of $${amount.toLocaleString()} sent for BitSlow #${coinId}`,
+			);
+			onClose();
+		} catch (err) {
+			setToast({
+				message:
+					err instanceof Error ? err.message : "An unknown error occurred",
+				type: "error",
+			});
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	if (!isOpen) return null;
+
+	return (
+		<div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+			<div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+				<div className="p-6">
+					<h3 className="text-xl font-semibold text-gray-800 mb-4">
+						{isCounter ? "Counter offer" : "Make an offer"} on BitSlow #{coinId}
+					</h3>
+
+					<form onSubmit={handleSubmit}>
+						<div className="mb-4">
+							<label
+								htmlFor="offerAmount"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Amount ($)
+							</label>
+							<input
+								type="number"
+								id="offerAmount"
+								value={amount}
+								onChange={(e) =>
+									setAmount(e.target.value === "" ? "" : Number(e.target.value))
+								}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+								placeholder={
+									suggestedAmount ? suggestedAmount.toString() : "Enter amount"
+								}
+								min="1"
+								required
+							/>
+						</div>
+
+						<div className="mb-4">
+							<label
+								htmlFor="offerExpiry"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Expires after
+							</label>
+							<select
+								id="offerExpiry"
+								value={expiresInHours}
+								onChange={(e) => setExpiresInHours(Number(e.target.value))}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								{EXPIRY_OPTIONS.map((option) => (
+									<option key={option.hours} value={option.hours}>
+										{option.label}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div className="flex justify-end gap-3">
+							<button
+								type="button"
+								onClick={onClose}
+								className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500"
+								disabled={isLoading}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center"
+								disabled={isLoading}
+							>
+								{isLoading ? (
+									<>
+										<div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+										Sending...
+									</>
+								) : isCounter ? (
+									"Send Counter Offer"
+								) : (
+									"Send Offer"
+								)}
+							</button>
+						</div>
+					</form>
+				</div>
+			</div>
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
+
+export default OfferModal;
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { authFetch } from "@/services/auth";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+interface Session {
+	id: string;
+	userAgent: string | null;
+	ipAddress: string | null;
+	createdAt: string;
+	lastSeenAt: string;
+	current: boolean;
+}
+
+interface SessionsSectionProps {
+	onMessage: (message: string, type: "success" | "error") => void;
+}
+
+// Shorten a user agent to something like "Chrome on Windows"
+function describeDevice(userAgent: string | null): string {
+	if (!userAgent) {
+		return "Unknown device";
+	}
+
+	const browser =
+		["Edg", "Firefox", "Chrome", "Safari"].find((name) =>
+			userAgent.includes(`${name}/`),
+		) ?? null;
+	const os =
+		["Windows", "Android", "iPhone", "Mac OS X", "Linux"].find((name) =>
+			userAgent.includes(name),
+		) ?? null;
+
+	if (!browser && !os) {
+		return userAgent;
+	}
+
+	const browserName = browser === "Edg" ? "Edge" : browser;
+	return [browserName, os].filter(Boolean).join(" on ");
+}
+
+export function SessionsSection({ onMessage }: SessionsSectionProps) {
+	const [sessions, setSessions] = useState<Session[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [revokingId, setRevokingId] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const fetchSessions = async () => {
+			try {
+				const response = await authFetch(`${ENDPOINT_URL}api/sessions`);
+
+				if (!response.ok) {
+					throw new Error("Failed to fetch sessions");
+				}
+
+				const data = await response.json();
+				setSessions(data.sessions);
+			} catch (error) {
+				console.error("Error fetching sessions:", error);
+				setError("Failed to fetch sessions");
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchSessions();
+	}, []);
+
+	const revokeSession = async (sessionId: string) => {
+		setRevokingId(sessionId);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/sessions/revoke`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ session_id: sessionId }),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to revoke session");
+			}
+
+			setSessions((current) =>
+				current.filter((session) => session.id !== sessionId),
+			);
+			onMessage("Session revoked", "success");
+		} catch (error) {
+			onMessage(
+				error instanceof Error ? error.message : "Failed to revoke session",
+				"error",
+			);
+		} finally {
+			setRevokingId(null);
+		}
+	};
+
+	return (
+		<div className="sessions mt-8">
+			<h2 className="text-xl font-semibold mb-4">Sessions</h2>
+			{isLoading ? (
+				<p className="text-gray-500">Loading sessions...</p>
+			) : error ? (
+				<p className="text-red-500">{error}</p>
+			) : sessions.length > 0 ? (
+				<div className="overflow-x-auto">
+					<table className="min-w-full border border-gray-200">
+						<thead className="bg-gray-50">
+							<tr>
+								<th className="border px-4 py-2">Device</th>
+								<th className="border px-4 py-2">IP Address</th>
+								<th className="border px-4 py-2">Signed In</th>
+								<th className="border px-4 py-2">Last Active</th>
+								<th className="border px-4 py-2" />
+							</tr>
+						</thead>
+						<tbody>
+							{sessions.map((session) => (
+								<tr key={session.id} className="hover:bg-gray-50">
+									<td className="border px-4 py-2">
+										{describeDevice(session.userAgent)}
+									</td>
+									<td className="border px-4 py-2">
+										{session.ipAddress ?? "Unknown"}
+									</td>
+									<td className="border px-4 py-2">
+										{new Date(session.createdAt).toLocaleString()}
+									</td>
+									<td className="border px-4 py-2">
+										{new Date(session.lastSeenAt).toLocaleString()}
+									</td>
+									<td className="border px-4 py-2 text-center">
+										{session.current ? (
+											<span className="text-sm text-green-600 font-medium">
+												This device
+											</span>
+										) : (
+											<button
+												type="button"
+												onClick={() => revokeSession(session.id)}
+												disabled={revokingId === session.id}
+												className="text-sm bg-red-600 hover:bg-red-700 text-white py-1 px-3 rounded disabled:opacity-50"
+											>
+												{revokingId === session.id ? "Revoking..." : "Revoke"}
+											</button>
+										)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			) : (
+				<p className="text-gray-500">No active sessions.</p>
+			)}
+		</div>
+	);
+}
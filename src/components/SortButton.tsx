@@ -0,0 +1,68 @@
+import type { SortColumn } from "../types";
+
+interface SortButtonProps {
+	field: string;
+	label: string;
+	sort: SortColumn[];
+	onSort: (sort: SortColumn[]) => void;
+	className?: string;
+}
+
+/**
+ * Sort after a click on a column. A plain click sorts by the column alone,
+ * flipping its order when it already leads; shift-click adds the column as
+ * a tie-breaker, or flips it when it is already sorted on.
+ */
+export function nextSort(
+	sort: SortColumn[],
+	field: string,
+	additive: boolean,
+): SortColumn[] {
+	const current = sort.find((column) => column.field === field);
+	const flipped: SortColumn["order"] =
+		current?.order === "asc" ? "desc" : "asc";
+
+	if (additive) {
+		return current
+			? sort.map((column) =>
+					column.field === field ? { field, order: flipped } : column,
+				)
+			: [...sort, { field, order: "asc" }];
+	}
+
+	return [{ field, order: sort[0]?.field === field ? flipped : "asc" }];
+}
+
+// Add the sort to listing query parameters the way the API reads them
+export function appendSortParams(params: URLSearchParams, sort: SortColumn[]) {
+	params.append("sort", sort.map((column) => column.field).join(","));
+	params.append("order", sort.map((column) => column.order).join(","));
+}
+
+export function SortButton({
+	field,
+	label,
+	sort,
+	onSort,
+	className = "",
+}: SortButtonProps) {
+	const position = sort.findIndex((column) => column.field === field);
+	const column = sort[position];
+
+	return (
+		<button
+			type="button"
+			onClick={(e) => onSort(nextSort(sort, field, e.shiftKey))}
+			className={`inline-flex items-center gap-1 hover:text-gray-300 ${className}`}
+			title="Sort by this column, shift-click to add it to the sort"
+		>
+			{label}
+			{column && (
+				<span className="text-xs">
+					{column.order === "asc" ? "▲" : "▼"}
+					{sort.length > 1 && position + 1}
+				</span>
+			)}
+		</button>
+	);
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { authFetch } from "@/services/auth";
+import { Toast } from "../components/Toast";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+interface StartAuctionModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onSuccess: (coinId: number) => void;
+	coinId: number | null;
+	suggestedReserve?: number;
+}
+
+const DURATION_OPTIONS = [
+	{ minutes: 5, label: "5 minutes" },
+	{ minutes: 60, label: "1 hour" },
+	{ minutes: 24 * 60, label: "1 day" },
+	{ minutes: 3 * 24 * 60, label: "3 days" },
+	{ minutes: 7 * 24 * 60, label: "1 week" },
+];
+
+export function StartAuctionModal({
+	isOpen,
+	onClose,
+	onSuccess,
+	coinId,
+	suggestedReserve,
+}: StartAuctionModalProps) {
+	const [reservePrice, setReservePrice] = useState<number | "">("");
+	const [minIncrement, setMinIncrement] = useState<number | "">(1);
+	const [durationMinutes, setDurationMinutes] = useState(60);
+	const [isLoading, setIsLoading] = useState(false);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (
+			reservePrice === "" ||
+			reservePrice <= 0 ||
+			minIncrement === "" ||
+			minIncrement <= 0
+		) {
+			setToast({
+				message: "Reserve price and increment must be greater than 0",
+				type: "error",
+			});
+			return;
+		}
+
+		setIsLoading(true);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/auctions`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					coin_id: coinId,
+					reservePrice,
+					minIncrement,
+					endsAt: new Date(
+						Date.now() + durationMinutes * 60 * 1000,
+					).toISOString(),
+				}),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to start auction");
+			}
+
+			setReservePrice("");
+			onSuccess(data.auction.coinId);
+			onClose();
+		} catch (err) {
+			setToast({
+				message:
+					err instanceof Error ? err.message : "An unknown error occurred",
+				type: "error",
+			});
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	if (!isOpen) return null;
+
+	return (
+		<div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+			<div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+				<div className="p-6">
+					<h3 className="text-xl font-semibold text-gray-800 mb-4">
+						Auction BitSlow #{coinId}
+					</h3>
+
+					<form onSubmit={handleSubmit}>
+						<div className="mb-4">
+							<label
+								htmlFor="reservePrice"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Reserve Price ($)
+							</label>
+							<input
+								type="number"
+								id="reservePrice"
+								value={reservePrice}
+								onChange={(e) =>
+									setReservePrice(
+										e.target.value === "" ? "" : Number(e.target.value),
+									)
+								}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+								placeholder={
+									suggestedReserve
+										? suggestedReserve.toString()
+										: "Lowest price you accept"
+								}
+								min="1"
+								required
+							/>
+						</div>
+
+						<div className="mb-4">
+							<label
+								htmlFor="minIncrement"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Minimum Increment ($)
+							</label>
+							<input
+								type="number"
+								id="minIncrement"
+								value={minIncrement}
+								onChange={(e) =>
+									setMinIncrement(
+										e.target.value === "" ? "" : Number(e.target.value),
+									)
+								}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+								min="1"
+								required
+							/>
+						</div>
+
+						<div className="mb-4">
+							<label
+								htmlFor="auctionDuration"
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Ends after
+							</label>
+							<select
+								id="auctionDuration"
+								value={durationMinutes}
+								onChange={(e) => setDurationMinutes(Number(e.target.value))}
+								className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								{DURATION_OPTIONS.map((option) => (
+									<option key={option.minutes} value={option.minutes}>
+										{option.label}
+									</option>
+								))}
+							</select>
+							<p className="text-xs text-gray-500 mt-1">
+								Bids in the last two minutes extend the auction.
+							</p>
+						</div>
+
+						<div className="flex justify-end gap-3">
+							<button
+								type="button"
+								onClick={onClose}
+								className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500"
+								disabled={isLoading}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center"
+								disabled={isLoading}
+							>
+								{isLoading ? (
+									<>
+										<div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+										Starting...
+									</>
+								) : (
+									"Start Auction"
+								)}
+							</button>
+						</div>
+					</form>
+				</div>
+			</div>
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
+
+export default StartAuctionModal;
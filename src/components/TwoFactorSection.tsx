@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { authFetch } from "@/services/auth";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+interface TwoFactorStatus {
+	enabled: boolean;
+	pending: boolean;
+	recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+	secret: string;
+	otpauthUri: string;
+}
+
+interface TwoFactorSectionProps {
+	onMessage: (message: string, type: "success" | "error") => void;
+}
+
+// Split a base32 secret into groups of four so it is easier to type in
+function formatSecret(secret: string): string {
+	return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+export function TwoFactorSection({ onMessage }: TwoFactorSectionProps) {
+	const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+	const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+	const [code, setCode] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	useEffect(() => {
+		const fetchStatus = async () => {
+			try {
+				const response = await authFetch(`${ENDPOINT_URL}api/2fa/status`);
+
+				if (!response.ok) {
+					throw new Error("Failed to fetch two-factor status");
+				}
+
+				setStatus(await response.json());
+			} catch (error) {
+				console.error("Error fetching two-factor status:", error);
+				setError("Failed to fetch two-factor status");
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchStatus();
+	}, []);
+
+	// POST to one of the 2FA endpoints, throwing the server message on failure
+	const postTwoFactor = async (path: string, body?: object) => {
+		const response = await authFetch(`${ENDPOINT_URL}api/2fa/${path}`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify(body ?? {}),
+		});
+
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.message || "Two-factor request failed");
+		}
+
+		return data;
+	};
+
+	const startSetup = async () => {
+		setIsSubmitting(true);
+
+		try {
+			const data = await postTwoFactor("setup");
+			setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri });
+			setRecoveryCodes(null);
+			setCode("");
+		} catch (error) {
+			onMessage(
+				error instanceof Error ? error.message : "Failed to start setup",
+				"error",
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const confirmSetup = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsSubmitting(true);
+
+		try {
+			const data = await postTwoFactor("enable", { code: code.trim() });
+			setEnrollment(null);
+			setRecoveryCodes(data.recoveryCodes);
+			setStatus({
+				enabled: true,
+				pending: false,
+				recoveryCodesRemaining: data.recoveryCodes.length,
+			});
+			setCode("");
+			onMessage("Two-factor authentication enabled", "success");
+		} catch (error) {
+			onMessage(
+				error instanceof Error
+					? error.message
+					: "Failed to enable two-factor authentication",
+				"error",
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const disable = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsSubmitting(true);
+
+		try {
+			await postTwoFactor("disable", { code: code.trim() });
+			setStatus({ enabled: false, pending: false, recoveryCodesRemaining: 0 });
+			setRecoveryCodes(null);
+			setCode("");
+			onMessage("Two-factor authentication disabled", "success");
+		} catch (error) {
+			onMessage(
+				error instanceof Error
+					? error.message
+					: "Failed to disable two-factor authentication",
+				"error",
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const codeInput = (placeholder: string) => (
+		<input
+			type="text"
+			value={code}
+			onChange={(e) => setCode(e.target.value)}
+			autoComplete="one-time-code"
+			placeholder={placeholder}
+			className="border border-gray-300 rounded px-3 py-2 text-sm tracking-widest w-48"
+		/>
+	);
+
+	return (
+		<div className="two-factor mt-8">
+			<h2 className="text-xl font-semibold mb-4">Two-Factor Authentication</h2>
+			{isLoading ? (
+				<p className="text-gray-500">Loading two-factor status...</p>
+			) : error || !status ? (
+				<p className="text-red-500">{error}</p>
+			) : (
+				<div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+					{recoveryCodes && (
+						<div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+							<p className="font-medium mb-2">Save your recovery codes</p>
+							<p className="text-sm text-gray-600 mb-3">
+								Each code can be used once to sign in if you lose access to your
+								authenticator app. They will not be shown again.
+							</p>
+							<ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+								{recoveryCodes.map((recoveryCode) => (
+									<li key={recoveryCode}>{recoveryCode}</li>
+								))}
+							</ul>
+						</div>
+					)}
+
+					{status.enabled ? (
+						<>
+							<p className="text-sm">
+								<span className="text-green-600 font-medium">Enabled.</span>{" "}
+								{status.recoveryCodesRemaining} recovery codes remaining.
+							</p>
+							<form onSubmit={disable} className="flex items-center gap-3">
+								{codeInput("Code or recovery code")}
+								<button
+									type="submit"
+									disabled={isSubmitting || !code.trim()}
+									className="text-sm bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded disabled:opacity-50"
+								>
+									Disable
+								</button>
+							</form>
+						</>
+					) : enrollment ? (
+						<>
+							<p className="text-sm text-gray-600">
+								Add this account to your authenticator app using the setup key
+								or link below, then enter the 6-digit code it shows.
+							</p>
+							<div className="text-sm space-y-2">
+								<p>
+									Setup key:{" "}
+									<span className="font-mono font-medium">
+										{formatSecret(enrollment.secret)}
+									</span>
+								</p>
+								<p className="break-all">
+									<a
+										href={enrollment.otpauthUri}
+										className="text-blue-600 hover:underline"
+									>
+										{enrollment.otpauthUri}
+									</a>
+								</p>
+							</div>
+							<form onSubmit={confirmSetup} className="flex items-center gap-3">
+								{codeInput("123456")}
+								<button
+									type="submit"
+									disabled={isSubmitting || !code.trim()}
+									className="text-sm bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded disabled:opacity-50"
+								>
+									Verify and enable
+								</button>
+								<button
+									type="button"
+									onClick={() => {
+										setEnrollment(null);
+										setCode("");
+									}}
+									className="text-sm text-gray-500 hover:underline"
+								>
+									Cancel
+								</button>
+							</form>
+						</>
+					) : (
+						<div className="flex items-center justify-between">
+							<p className="text-sm text-gray-600">
+								Protect your account with a code from an authenticator app when
+								you sign in.
+							</p>
+							<button
+								type="button"
+								onClick={startSetup}
+								disabled={isSubmitting}
+								className="text-sm bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded disabled:opacity-50"
+							>
+								Set up
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,37 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+
+// Where the SQLite database lives, relative to the working directory
+export const DATABASE_PATH = process.env.DATABASE_PATH || "data/bitslow.db";
+
+/**
+ * Open the database and bring its schema up to date
+ * @param path File path of the database, or ":memory:"
+ * @returns SQLite database instance
+ */
+export function openDatabase(path: string = DATABASE_PATH): Database {
+	if (path !== ":memory:") {
+		mkdirSync(dirname(path), { recursive: true });
+	}
+
+	const db = new Database(path, { create: true });
+
+	// Let readers keep going while a write is in progress
+	db.exec("PRAGMA journal_mode = WAL;");
+
+	runMigrations(db);
+
+	return db;
+}
+
+/**
+ * Whether the database holds no clients yet
+ */
+export function isDatabaseEmpty(db: Database): boolean {
+	const result = db.query("SELECT COUNT(*) as count FROM clients").get() as {
+		count: number;
+	};
+	return result.count === 0;
+}
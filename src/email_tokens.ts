@@ -0,0 +1,285 @@
+import type { Database } from "bun:sqlite";
+import {
+	createHash,
+	createHmac,
+	randomBytes,
+	timingSafeEqual,
+} from "node:crypto";
+import type { Mailer } from "./utils/mailer";
+import { hashPassword } from "./utils/password_hashing";
+
+export type EmailTokenPurpose = "password_reset" | "email_verification";
+
+// Reset links are short-lived, verification links can wait a day in the inbox
+const TOKEN_LIFETIMES: Record<EmailTokenPurpose, number> = {
+	password_reset: 60 * 60 * 1000,
+	email_verification: 24 * 60 * 60 * 1000,
+};
+
+// Name of the generated signing key, unless EMAIL_TOKEN_SECRET is set
+const SIGNING_SECRET_NAME = "email_token_signing_key";
+
+// Where the dev server serves the frontend
+const DEVELOPMENT_APP_URL = "http://localhost:3000";
+
+type ClientRow = {
+	id: number;
+	name: string;
+	email: string;
+	email_verified_at: string | null;
+};
+
+function sha256(value: string): string {
+	return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Base URL of the frontend, for links in emails. Never taken from the
+ * request, whose Host header is whatever the caller sent.
+ * @returns APP_URL, falling back to the dev server outside production
+ */
+export function getAppUrl(): string {
+	const appUrl = process.env.APP_URL;
+	if (appUrl) {
+		return appUrl.replace(/\/+$/, "");
+	}
+	if (process.env.NODE_ENV === "production") {
+		throw new Error("APP_URL must be set in production");
+	}
+	return DEVELOPMENT_APP_URL;
+}
+
+// Key used to sign email tokens, generated on first use so restarts keep old links valid
+function getSigningSecret(db: Database): string {
+	if (process.env.EMAIL_TOKEN_SECRET) {
+		return process.env.EMAIL_TOKEN_SECRET;
+	}
+
+	db.query("INSERT OR IGNORE INTO app_secrets (name, value) VALUES (?, ?)").run(
+		SIGNING_SECRET_NAME,
+		randomBytes(32).toString("hex"),
+	);
+
+	const row = db
+		.query<{ value: string }, string>(
+			"SELECT value FROM app_secrets WHERE name = ?",
+		)
+		.get(SIGNING_SECRET_NAME);
+
+	if (!row) {
+		throw new Error("Email token signing key is missing");
+	}
+
+	return row.value;
+}
+
+function sign(db: Database, payload: string): string {
+	return createHmac("sha256", getSigningSecret(db))
+		.update(payload)
+		.digest("base64url");
+}
+
+/**
+ * Issue a signed, single-use token, invalidating earlier ones for the same purpose
+ * @param db SQLite database instance
+ * @param clientId Client the token is for
+ * @param purpose What the token may be used for
+ */
+export function issueEmailToken(
+	db: Database,
+	clientId: number,
+	purpose: EmailTokenPurpose,
+): string {
+	const id = randomBytes(24).toString("base64url");
+	const expiresAt = Date.now() + TOKEN_LIFETIMES[purpose];
+	const payload = `${purpose}.${clientId}.${expiresAt}.${id}`;
+
+	db.transaction(() => {
+		db.query(
+			"UPDATE email_tokens SET used_at = ? WHERE client_id = ? AND purpose = ? AND used_at IS NULL",
+		).run(new Date().toISOString(), clientId, purpose);
+
+		db.query(
+			"INSERT INTO email_tokens (id_hash, client_id, purpose, expires_at) VALUES (?, ?, ?, ?)",
+		).run(sha256(id), clientId, purpose, new Date(expiresAt).toISOString());
+	})();
+
+	return `${Buffer.from(payload).toString("base64url")}.${sign(db, payload)}`;
+}
+
+/**
+ * Check a token's signature and expiry, then mark it used
+ * @param db SQLite database instance
+ * @param token Token from the emailed link
+ * @param purpose Purpose the token must have been issued for
+ * @returns The client the token belongs to, or null when it is invalid or used
+ */
+export function consumeEmailToken(
+	db: Database,
+	token: string,
+	purpose: EmailTokenPurpose,
+): number | null {
+	const [encodedPayload, signature, ...rest] = token.split(".");
+	if (!encodedPayload || !signature || rest.length > 0) {
+		return null;
+	}
+
+	const payload = Buffer.from(encodedPayload, "base64url").toString();
+	const expected = Buffer.from(sign(db, payload));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return null;
+	}
+
+	const [tokenPurpose, clientId, expiresAt, id] = payload.split(".");
+	if (tokenPurpose !== purpose || Number(expiresAt) < Date.now() || !id) {
+		return null;
+	}
+
+	const result = db
+		.query(`
+      UPDATE email_tokens SET used_at = ?
+      WHERE id_hash = ? AND client_id = ? AND purpose = ? AND used_at IS NULL
+    `)
+		.run(new Date().toISOString(), sha256(id), Number(clientId), purpose);
+
+	return result.changes > 0 ? Number(clientId) : null;
+}
+
+/**
+ * Email a password reset link, if an account exists for the address
+ * @param db SQLite database instance
+ * @param mailer Mailer to send the link with
+ * @param email Address the reset was requested for
+ * @param appUrl Base URL of the frontend the link points to
+ * @returns Whether an email was sent
+ */
+export async function sendPasswordResetEmail(
+	db: Database,
+	mailer: Mailer,
+	email: string,
+	appUrl: string,
+): Promise<boolean> {
+	const client = db
+		.query<ClientRow, string>(
+			"SELECT id, name, email, email_verified_at FROM clients WHERE email = ?",
+		)
+		.get(email);
+
+	if (!client) {
+		return false;
+	}
+
+	const token = issueEmailToken(db, client.id, "password_reset");
+	await mailer.send({
+		to: client.email,
+		subject: "Reset your BitSlow password",
+		text: [
+			`Hi ${client.name},`,
+			"",
+			"Someone asked to reset the password of your BitSlow account.",
+			"Open this link within the next hour to choose a new one:",
+			"",
+			`${appUrl}/reset-password?token=${token}`,
+			"",
+			"If this was not you, you can ignore this email.",
+		].join("\n"),
+	});
+
+	return true;
+}
+
+/**
+ * Email a link confirming that the client owns their address
+ * @param db SQLite database instance
+ * @param mailer Mailer to send the link with
+ * @param clientId Client to verify
+ * @param appUrl Base URL of the frontend the link points to
+ * @returns Whether an email was sent, false when already verified
+ */
+export async function sendVerificationEmail(
+	db: Database,
+	mailer: Mailer,
+	clientId: number,
+	appUrl: string,
+): Promise<boolean> {
+	const client = db
+		.query<ClientRow, number>(
+			"SELECT id, name, email, email_verified_at FROM clients WHERE id = ?",
+		)
+		.get(clientId);
+
+	if (!client || client.email_verified_at !== null) {
+		return false;
+	}
+
+	const token = issueEmailToken(db, client.id, "email_verification");
+	await mailer.send({
+		to: client.email,
+		subject: "Confirm your BitSlow email address",
+		text: [
+			`Hi ${client.name},`,
+			"",
+			"Welcome to BitSlow! Please confirm your email address by opening:",
+			"",
+			`${appUrl}/verify-email?token=${token}`,
+		].join("\n"),
+	});
+
+	return true;
+}
+
+/**
+ * Set a new password using a reset token
+ * @param db SQLite database instance
+ * @param token Token from the reset email
+ * @param password New password
+ * @returns The client whose password changed, or null when the token is invalid
+ */
+export async function resetPassword(
+	db: Database,
+	token: string,
+	password: string,
+): Promise<number | null> {
+	const passwordHash = await hashPassword(password);
+
+	return db.transaction(() => {
+		const clientId = consumeEmailToken(db, token, "password_reset");
+		if (clientId === null) {
+			return null;
+		}
+
+		// Receiving the reset email also proves the address works
+		db.query(
+			"UPDATE clients SET password_hash = ?, password_algorithm = ?, email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ?",
+		).run(
+			passwordHash.hash,
+			passwordHash.algorithm,
+			new Date().toISOString(),
+			clientId,
+		);
+
+		return clientId;
+	})();
+}
+
+/**
+ * Mark a client's email as verified using a verification token
+ * @param db SQLite database instance
+ * @param token Token from the verification email
+ * @returns The verified client, or null when the token is invalid
+ */
+export function verifyEmail(db: Database, token: string): number | null {
+	return db.transaction(() => {
+		const clientId = consumeEmailToken(db, token, "email_verification");
+		if (clientId === null) {
+			return null;
+		}
+
+		db.query(
+			"UPDATE clients SET email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ?",
+		).run(new Date().toISOString(), clientId);
+
+		return clientId;
+	})();
+}
@@ -0,0 +1,174 @@
+import type { Database } from "bun:sqlite";
+import type { Transaction } from "./types";
+
+export type MarketEventType =
+	| "coin-purchased"
+	| "coin-generated"
+	| "new-transaction";
+
+export interface MarketEvent {
+	// Increases by one per event within an epoch
+	id: number;
+	// Changes on every restart, so ids from an earlier run are never trusted
+	epoch: string;
+	type: MarketEventType;
+	data: unknown;
+	createdAt: string;
+}
+
+export type MarketEventListener = (event: MarketEvent) => void;
+
+// Events kept for clients resuming after a dropped connection
+const DEFAULT_CAPACITY = 500;
+
+/**
+ * In-memory feed of marketplace events. Listeners hear each event as it
+ * is published, and a bounded backlog lets reconnecting clients catch up.
+ */
+export class EventHub {
+	readonly epoch = crypto.randomUUID().slice(0, 8);
+	private backlog: MarketEvent[] = [];
+	private lastId = 0;
+	private listeners = new Set<MarketEventListener>();
+
+	constructor(private capacity = DEFAULT_CAPACITY) {}
+
+	// Id of the newest event, 0 before anything was published
+	get latestId(): number {
+		return this.lastId;
+	}
+
+	publish(type: MarketEventType, data: unknown): MarketEvent {
+		const event: MarketEvent = {
+			id: ++this.lastId,
+			epoch: this.epoch,
+			type,
+			data,
+			createdAt: new Date().toISOString(),
+		};
+
+		this.backlog.push(event);
+		if (this.backlog.length > this.capacity) {
+			this.backlog.shift();
+		}
+
+		for (const listener of this.listeners) {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Error delivering market event:", error);
+			}
+		}
+
+		return event;
+	}
+
+	/**
+	 * Events published after the given one
+	 * @param epoch Epoch the client last heard from
+	 * @param lastId Last event id the client saw
+	 * @returns The missed events, or null when they can no longer be
+	 * replayed and the client has to reload instead
+	 */
+	since(epoch: string, lastId: number): MarketEvent[] | null {
+		if (epoch !== this.epoch || lastId > this.lastId) return null;
+
+		const oldest = this.backlog[0]?.id ?? this.lastId + 1;
+		if (lastId < oldest - 1) return null;
+
+		return this.backlog.filter((event) => event.id > lastId);
+	}
+
+	subscribe(listener: MarketEventListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+}
+
+// Shared by every route that changes coin ownership
+export const marketEvents = new EventHub();
+
+// Same shape as a row of the transactions listing
+function loadTransaction(
+	db: Database,
+	transactionId: number,
+): Transaction | null {
+	const row = db
+		.query(`
+      SELECT
+        t.id, t.coin_id, t.amount, t.transaction_date,
+        seller.id as seller_id, seller.name as seller_name,
+        buyer.id as buyer_id, buyer.name as buyer_name,
+        c.bit1, c.bit2, c.bit3, c.value, c.bitslow_hash
+      FROM transactions t
+      LEFT JOIN clients seller ON t.seller_id = seller.id
+      JOIN clients buyer ON t.buyer_id = buyer.id
+      JOIN coins c ON t.coin_id = c.coin_id
+      WHERE t.id = ?
+    `)
+		.get(transactionId) as
+		| (Omit<Transaction, "computedBitSlow"> & { bitslow_hash: string | null })
+		| null;
+
+	if (!row) return null;
+
+	// Coins are hashed when minted, older ones by the startup backfill
+	const { bitslow_hash, ...transaction } = row;
+	return { ...transaction, computedBitSlow: bitslow_hash ?? "" };
+}
+
+/**
+ * Announce a committed sale of a coin to a new owner
+ * @param db SQLite database instance
+ * @param transactionId Transaction recording the sale
+ * @param hub Feed to publish on
+ */
+export function announceSale(
+	db: Database,
+	transactionId: number,
+	hub = marketEvents,
+): void {
+	const transaction = loadTransaction(db, transactionId);
+	if (!transaction) return;
+
+	hub.publish("coin-purchased", {
+		coin_id: transaction.coin_id,
+		client_id: transaction.buyer_id,
+		client_name: transaction.buyer_name,
+		seller_id: transaction.seller_id,
+		amount: transaction.amount,
+		transaction_id: transaction.id,
+	});
+	hub.publish("new-transaction", transaction);
+}
+
+/**
+ * Announce a freshly minted coin and the transaction that issued it
+ * @param db SQLite database instance
+ * @param transactionId Transaction recording the mint
+ * @param hub Feed to publish on
+ */
+export function announceMint(
+	db: Database,
+	transactionId: number,
+	hub = marketEvents,
+): void {
+	const transaction = loadTransaction(db, transactionId);
+	if (!transaction) return;
+
+	hub.publish("coin-generated", {
+		coin_id: transaction.coin_id,
+		bit1: transaction.bit1,
+		bit2: transaction.bit2,
+		bit3: transaction.bit3,
+		value: transaction.value,
+		asking_price: null,
+		client_id: transaction.buyer_id,
+		client_name: transaction.buyer_name,
+		created_at: transaction.transaction_date,
+		computedBitSlow: transaction.computedBitSlow,
+	});
+	hub.publish("new-transaction", transaction);
+}
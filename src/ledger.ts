@@ -0,0 +1,312 @@
+import { randomUUID } from "node:crypto";
+import type { Database } from "bun:sqlite";
+
+// Cash held by the platform from coins sold by the original issuer
+export const HOUSE_CASH_ACCOUNT = "cash:house";
+// Counterpart for money entering or leaving the platform
+export const EXTERNAL_CASH_ACCOUNT = "cash:external";
+// Coins that have no owner yet
+export const HOUSE_COINS_ACCOUNT = "coins:house";
+// Counterpart for newly created coin value
+export const MINT_ACCOUNT = "coins:mint";
+
+// Amounts closer than this are considered equal when reconciling
+const TOLERANCE = 0.005;
+
+/**
+ * Ledger account holding a client's cash
+ */
+export function clientCashAccount(clientId: number): string {
+	return `cash:client:${clientId}`;
+}
+
+/**
+ * Ledger account holding the value of a client's coins
+ */
+export function clientCoinsAccount(clientId: number): string {
+	return `coins:client:${clientId}`;
+}
+
+// A single movement of value: the debited account loses the amount
+// and the credited account gains it
+export interface LedgerLeg {
+	debit: string;
+	credit: string;
+	amount: number;
+}
+
+export interface JournalOptions {
+	description: string;
+	legs: LedgerLeg[];
+	coinId?: number | null;
+	transactionId?: number | null;
+}
+
+export interface ReconciliationReport {
+	balanced: boolean;
+	checkedAt: string;
+	unbalancedJournals: {
+		journalId: string;
+		debits: number;
+		credits: number;
+	}[];
+	accountMismatches: {
+		account: string;
+		ledgerBalance: number;
+		expectedBalance: number;
+	}[];
+	coinOwnershipMismatches: {
+		coinId: number;
+		ownerId: number | null;
+		chainOwnerId: number | null;
+		reason: string;
+	}[];
+}
+
+/**
+ * Append a balanced journal to the ledger.
+ *
+ * Runs inside the caller's SQLite transaction when there is one, so the
+ * entries commit or roll back together with the change they describe.
+ * @param db SQLite database instance
+ * @param options Legs and metadata for the journal
+ * @returns The id shared by every entry of the journal
+ */
+export function postJournal(db: Database, options: JournalOptions): string {
+	const journalId = randomUUID();
+	const insertEntry = db.prepare(`
+    INSERT INTO ledger_entries (
+      journal_id, account, direction, amount, coin_id, transaction_id, description
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+	for (const leg of options.legs) {
+		if (!(leg.amount >= 0)) {
+			throw new Error(`Invalid ledger amount: ${leg.amount}`);
+		}
+
+		insertEntry.run(
+			journalId,
+			leg.debit,
+			"debit",
+			leg.amount,
+			options.coinId ?? null,
+			options.transactionId ?? null,
+			options.description,
+		);
+		insertEntry.run(
+			journalId,
+			leg.credit,
+			"credit",
+			leg.amount,
+			options.coinId ?? null,
+			options.transactionId ?? null,
+			options.description,
+		);
+	}
+
+	return journalId;
+}
+
+/**
+ * Legs that undo every journal recorded against a transaction, i.e. its
+ * legs with debit and credit swapped. Pass them to `postJournal` to post.
+ * @param db SQLite database instance
+ * @param transactionId Transaction to reverse
+ * @returns The reversing legs, empty when the transaction has no journals
+ */
+export function getReversalLegs(
+	db: Database,
+	transactionId: number,
+): LedgerLeg[] {
+	const entries = db
+		.query(`
+      SELECT account, direction, amount
+      FROM ledger_entries
+      WHERE transaction_id = ?
+      ORDER BY id
+    `)
+		.all(transactionId) as {
+		account: string;
+		direction: "debit" | "credit";
+		amount: number;
+	}[];
+
+	// postJournal writes each leg as a debit row directly followed by its credit row
+	const legs: LedgerLeg[] = [];
+	for (let i = 0; i < entries.length; i += 2) {
+		const debit = entries[i];
+		const credit = entries[i + 1];
+		if (
+			!credit ||
+			debit.direction !== "debit" ||
+			credit.direction !== "credit" ||
+			debit.amount !== credit.amount
+		) {
+			throw new Error(`Malformed journal for transaction ${transactionId}`);
+		}
+
+		legs.push({
+			debit: credit.account,
+			credit: debit.account,
+			amount: debit.amount,
+		});
+	}
+
+	return legs;
+}
+
+/**
+ * Check the ledger against itself and against the live tables.
+ *
+ * - every journal's debits equal its credits
+ * - every client cash account matches `clients.cash_balance`
+ * - every coin holdings account matches the value of the coins owned
+ * - every coin's owner matches the end of its transaction chain
+ * @param db SQLite database instance
+ */
+export function reconcileLedger(db: Database): ReconciliationReport {
+	const unbalancedJournals = db
+		.query(`
+      SELECT
+        journal_id AS journalId,
+        SUM(CASE WHEN direction = 'debit' THEN amount ELSE 0 END) AS debits,
+        SUM(CASE WHEN direction = 'credit' THEN amount ELSE 0 END) AS credits
+      FROM ledger_entries
+      GROUP BY journal_id
+      HAVING ABS(debits - credits) > ?
+    `)
+		.all(TOLERANCE) as ReconciliationReport["unbalancedJournals"];
+
+	// Credits add to an account, debits take from it
+	const ledgerBalances = new Map<string, number>();
+	const balanceRows = db
+		.query(`
+      SELECT
+        account,
+        SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END) AS balance
+      FROM ledger_entries
+      GROUP BY account
+    `)
+		.all() as { account: string; balance: number }[];
+	for (const row of balanceRows) {
+		ledgerBalances.set(row.account, row.balance);
+	}
+
+	const expectedBalances = new Map<string, number>();
+	const clients = db.query("SELECT id, cash_balance FROM clients").all() as {
+		id: number;
+		cash_balance: number;
+	}[];
+	for (const client of clients) {
+		expectedBalances.set(clientCashAccount(client.id), client.cash_balance);
+		expectedBalances.set(clientCoinsAccount(client.id), 0);
+	}
+
+	const holdings = db
+		.query(
+			"SELECT client_id, SUM(value) AS total FROM coins WHERE burned_at IS NULL GROUP BY client_id",
+		)
+		.all() as { client_id: number | null; total: number }[];
+	expectedBalances.set(HOUSE_COINS_ACCOUNT, 0);
+	for (const holding of holdings) {
+		expectedBalances.set(
+			holding.client_id === null
+				? HOUSE_COINS_ACCOUNT
+				: clientCoinsAccount(holding.client_id),
+			holding.total,
+		);
+	}
+
+	const accountMismatches: ReconciliationReport["accountMismatches"] = [];
+	for (const [account, expectedBalance] of expectedBalances) {
+		const ledgerBalance = ledgerBalances.get(account) ?? 0;
+		if (Math.abs(ledgerBalance - expectedBalance) > TOLERANCE) {
+			accountMismatches.push({ account, ledgerBalance, expectedBalance });
+		}
+	}
+
+	const coinOwnershipMismatches = findCoinOwnershipMismatches(db);
+
+	return {
+		balanced:
+			unbalancedJournals.length === 0 &&
+			accountMismatches.length === 0 &&
+			coinOwnershipMismatches.length === 0,
+		checkedAt: new Date().toISOString(),
+		unbalancedJournals,
+		accountMismatches,
+		coinOwnershipMismatches,
+	};
+}
+
+/**
+ * Walk each coin's transactions in order and compare the result with
+ * the recorded owner
+ */
+function findCoinOwnershipMismatches(
+	db: Database,
+): ReconciliationReport["coinOwnershipMismatches"] {
+	const coins = db
+		.query("SELECT coin_id, client_id FROM coins WHERE burned_at IS NULL")
+		.all() as {
+		coin_id: number;
+		client_id: number | null;
+	}[];
+	const transactions = db
+		.query(`
+      SELECT coin_id, seller_id, buyer_id
+      FROM transactions
+      WHERE voided_at IS NULL
+      ORDER BY coin_id, transaction_date, id
+    `)
+		.all() as {
+		coin_id: number;
+		seller_id: number | null;
+		buyer_id: number;
+	}[];
+
+	const chains = new Map<number, typeof transactions>();
+	for (const tx of transactions) {
+		const chain = chains.get(tx.coin_id) ?? [];
+		chain.push(tx);
+		chains.set(tx.coin_id, chain);
+	}
+
+	const mismatches: ReconciliationReport["coinOwnershipMismatches"] = [];
+	for (const coin of coins) {
+		const chain = chains.get(coin.coin_id);
+		if (!chain) {
+			continue;
+		}
+
+		// A resale must come from whoever bought the coin last
+		let previousBuyer: number | null = null;
+		for (const tx of chain) {
+			if (
+				tx.seller_id !== null &&
+				previousBuyer !== null &&
+				tx.seller_id !== previousBuyer
+			) {
+				mismatches.push({
+					coinId: coin.coin_id,
+					ownerId: coin.client_id,
+					chainOwnerId: previousBuyer,
+					reason: `Sold by client ${tx.seller_id} who did not own it`,
+				});
+			}
+			previousBuyer = tx.buyer_id;
+		}
+
+		if (coin.client_id !== previousBuyer) {
+			mismatches.push({
+				coinId: coin.coin_id,
+				ownerId: coin.client_id,
+				chainOwnerId: previousBuyer,
+				reason: "Owner differs from the last buyer",
+			});
+		}
+	}
+
+	return mismatches;
+}
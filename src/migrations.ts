@@ -0,0 +1,439 @@
+import type { Database } from "bun:sqlite";
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: string;
+}
+
+/**
+ * Ordered schema migrations.
+ *
+ * Each migration runs once, in version order, and is recorded in the
+ * `schema_migrations` table. Never edit a migration that has shipped;
+ * add a new one instead.
+ */
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		name: "initial_schema",
+		up: `
+      CREATE TABLE IF NOT EXISTS clients (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        phone TEXT,
+        address TEXT,
+        password_hash TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS coins (
+        coin_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        client_id INTEGER,
+        bit1 INTEGER NOT NULL,
+        bit2 INTEGER NOT NULL,
+        bit3 INTEGER NOT NULL,
+        value REAL NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coin_id INTEGER NOT NULL,
+        seller_id INTEGER,
+        buyer_id INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        transaction_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coin_id) REFERENCES coins (coin_id),
+        FOREIGN KEY (seller_id) REFERENCES clients (id),
+        FOREIGN KEY (buyer_id) REFERENCES clients (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS auth_tokens (
+        token TEXT PRIMARY KEY,
+        client_id INTEGER NOT NULL,
+        email TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+    `,
+	},
+	{
+		version: 2,
+		name: "coin_asking_price",
+		up: `
+      ALTER TABLE coins ADD COLUMN asking_price REAL;
+    `,
+	},
+	{
+		version: 3,
+		name: "client_cash_balance",
+		up: `
+      ALTER TABLE clients ADD COLUMN cash_balance REAL NOT NULL DEFAULT 0;
+    `,
+	},
+	{
+		version: 4,
+		name: "ledger_entries",
+		up: `
+      CREATE TABLE ledger_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        journal_id TEXT NOT NULL,
+        account TEXT NOT NULL,
+        direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+        amount REAL NOT NULL CHECK (amount >= 0),
+        coin_id INTEGER,
+        transaction_id INTEGER,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coin_id) REFERENCES coins (coin_id),
+        FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+      );
+
+      CREATE INDEX idx_ledger_entries_account ON ledger_entries (account);
+      CREATE INDEX idx_ledger_entries_journal ON ledger_entries (journal_id);
+
+      CREATE TRIGGER ledger_entries_no_update
+        BEFORE UPDATE ON ledger_entries
+        BEGIN
+          SELECT RAISE(ABORT, 'ledger_entries is append-only');
+        END;
+
+      CREATE TRIGGER ledger_entries_no_delete
+        BEFORE DELETE ON ledger_entries
+        BEGIN
+          SELECT RAISE(ABORT, 'ledger_entries is append-only');
+        END;
+    `,
+	},
+	{
+		version: 5,
+		name: "coin_bitslow_hash",
+		up: `
+      ALTER TABLE coins ADD COLUMN bitslow_hash TEXT;
+    `,
+	},
+	{
+		version: 6,
+		name: "client_password_algorithm",
+		up: `
+      ALTER TABLE clients ADD COLUMN password_algorithm TEXT NOT NULL DEFAULT 'sha256';
+    `,
+	},
+	{
+		version: 7,
+		name: "sessions_and_refresh_tokens",
+		up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        client_id INTEGER NOT NULL,
+        user_agent TEXT,
+        ip_address TEXT,
+        created_at TIMESTAMP NOT NULL,
+        last_seen_at TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX idx_sessions_client ON sessions (client_id);
+
+      CREATE TABLE refresh_tokens (
+        token TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        client_id INTEGER NOT NULL,
+        email TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        FOREIGN KEY (session_id) REFERENCES sessions (id),
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX idx_refresh_tokens_session ON refresh_tokens (session_id);
+
+      ALTER TABLE auth_tokens ADD COLUMN session_id TEXT REFERENCES sessions (id);
+    `,
+	},
+	{
+		version: 8,
+		name: "hashed_tokens",
+		up: `
+      -- Plaintext tokens cannot be hashed in SQL, so existing sessions end here
+      DELETE FROM auth_tokens;
+      DELETE FROM refresh_tokens;
+      UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE revoked_at IS NULL;
+
+      ALTER TABLE auth_tokens RENAME COLUMN token TO token_hash;
+      ALTER TABLE refresh_tokens RENAME COLUMN token TO token_hash;
+
+      CREATE INDEX idx_auth_tokens_expires_at ON auth_tokens (expires_at);
+      CREATE INDEX idx_auth_tokens_session ON auth_tokens (session_id);
+      CREATE INDEX idx_refresh_tokens_expires_at ON refresh_tokens (expires_at);
+    `,
+	},
+	{
+		version: 9,
+		name: "two_factor_auth",
+		up: `
+      ALTER TABLE clients ADD COLUMN totp_secret TEXT;
+      ALTER TABLE clients ADD COLUMN totp_enabled INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE clients ADD COLUMN totp_last_step INTEGER;
+
+      CREATE TABLE recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        client_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX idx_recovery_codes_client ON recovery_codes (client_id);
+
+      CREATE TABLE login_challenges (
+        challenge_hash TEXT PRIMARY KEY,
+        client_id INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+    `,
+	},
+	{
+		version: 10,
+		name: "email_tokens_and_outbox",
+		up: `
+      ALTER TABLE clients ADD COLUMN email_verified_at TIMESTAMP;
+
+      CREATE TABLE IF NOT EXISTS email_tokens (
+        id_hash TEXT PRIMARY KEY,
+        client_id INTEGER NOT NULL,
+        purpose TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_email_tokens_client ON email_tokens (client_id, purpose);
+
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        sent_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS app_secrets (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+	},
+	{
+		version: 11,
+		name: "client_roles",
+		up: `
+      ALTER TABLE clients ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+      ALTER TABLE auth_tokens ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+      ALTER TABLE refresh_tokens ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+    `,
+	},
+	{
+		version: 12,
+		name: "admin_console",
+		up: `
+      ALTER TABLE clients ADD COLUMN suspended_at TIMESTAMP;
+      ALTER TABLE coins ADD COLUMN burned_at TIMESTAMP;
+      ALTER TABLE transactions ADD COLUMN kind TEXT NOT NULL DEFAULT 'purchase';
+      ALTER TABLE transactions ADD COLUMN voided_at TIMESTAMP;
+
+      CREATE TABLE IF NOT EXISTS admin_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        admin_id INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (admin_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_admin_actions_target ON admin_actions (target_type, target_id);
+    `,
+	},
+	{
+		version: 13,
+		name: "audit_events",
+		up: `
+      CREATE TABLE audit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_type TEXT NOT NULL,
+        actor_id INTEGER,
+        ip_address TEXT,
+        user_agent TEXT,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL UNIQUE,
+        FOREIGN KEY (actor_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX idx_audit_events_type ON audit_events (event_type);
+      CREATE INDEX idx_audit_events_actor ON audit_events (actor_id);
+      CREATE INDEX idx_audit_events_created_at ON audit_events (created_at);
+
+      CREATE TRIGGER audit_events_no_update
+        BEFORE UPDATE ON audit_events
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_events is append-only');
+        END;
+
+      CREATE TRIGGER audit_events_no_delete
+        BEFORE DELETE ON audit_events
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_events is append-only');
+        END;
+    `,
+	},
+	{
+		version: 14,
+		name: "api_keys",
+		up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT NOT NULL UNIQUE,
+        client_id INTEGER NOT NULL,
+        email TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'user',
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        FOREIGN KEY (client_id) REFERENCES clients (id)
+      );
+
+      CREATE INDEX idx_api_keys_client ON api_keys (client_id);
+    `,
+	},
+	{
+		version: 15,
+		name: "offers",
+		up: `
+      CREATE TABLE offers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coin_id INTEGER NOT NULL,
+        buyer_id INTEGER NOT NULL,
+        seller_id INTEGER NOT NULL,
+        proposer_id INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        parent_id INTEGER,
+        transaction_id INTEGER,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        responded_at TEXT,
+        FOREIGN KEY (coin_id) REFERENCES coins (coin_id),
+        FOREIGN KEY (buyer_id) REFERENCES clients (id),
+        FOREIGN KEY (seller_id) REFERENCES clients (id),
+        FOREIGN KEY (parent_id) REFERENCES offers (id),
+        FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+      );
+
+      CREATE INDEX idx_offers_coin ON offers (coin_id, status);
+      CREATE INDEX idx_offers_buyer ON offers (buyer_id);
+      CREATE INDEX idx_offers_seller ON offers (seller_id);
+    `,
+	},
+	{
+		version: 16,
+		name: "auctions",
+		up: `
+      CREATE TABLE auctions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coin_id INTEGER NOT NULL,
+        seller_id INTEGER,
+        created_by INTEGER NOT NULL,
+        reserve_price REAL NOT NULL,
+        min_increment REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        created_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        extensions INTEGER NOT NULL DEFAULT 0,
+        winning_bid_id INTEGER,
+        transaction_id INTEGER,
+        settled_at TEXT,
+        FOREIGN KEY (coin_id) REFERENCES coins (coin_id),
+        FOREIGN KEY (seller_id) REFERENCES clients (id),
+        FOREIGN KEY (created_by) REFERENCES clients (id),
+        FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+      );
+
+      CREATE TABLE auction_bids (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        auction_id INTEGER NOT NULL,
+        bidder_id INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (auction_id) REFERENCES auctions (id),
+        FOREIGN KEY (bidder_id) REFERENCES clients (id)
+      );
+
+      -- A coin can only be up for auction once at a time
+      CREATE UNIQUE INDEX idx_auctions_open_coin ON auctions (coin_id) WHERE status = 'open';
+      CREATE INDEX idx_auctions_status_ends_at ON auctions (status, ends_at);
+      CREATE INDEX idx_auction_bids_auction ON auction_bids (auction_id, amount);
+    `,
+	},
+];
+
+/**
+ * Apply every migration that has not run yet
+ * @param db SQLite database instance
+ * @returns The versions applied by this call
+ */
+export function runMigrations(db: Database): number[] {
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+	const applied = new Set(
+		(
+			db.query("SELECT version FROM schema_migrations").all() as {
+				version: number;
+			}[]
+		).map((row) => row.version),
+	);
+
+	const recordMigration = db.prepare(
+		"INSERT INTO schema_migrations (version, name) VALUES (?, ?)",
+	);
+
+	const pending = [...migrations]
+		.sort((a, b) => a.version - b.version)
+		.filter((migration) => !applied.has(migration.version));
+
+	for (const migration of pending) {
+		console.log(`📝 Applying migration ${migration.version}_${migration.name}`);
+
+		// Each migration commits on its own so a failure leaves earlier ones in place
+		db.transaction(() => {
+			db.exec(migration.up);
+			recordMigration.run(migration.version, migration.name);
+		})();
+	}
+
+	return pending.map((migration) => migration.version);
+}
@@ -0,0 +1,435 @@
+import type { Database } from "bun:sqlite";
+import { hasOpenAuction } from "./auctions";
+import { transferCoin } from "./trading";
+
+export type OfferStatus =
+	| "pending"
+	| "accepted"
+	| "rejected"
+	| "countered"
+	| "cancelled"
+	| "expired";
+
+// Offers the client proposed, or offers waiting on the client's answer
+export type OfferView = "mine" | "received";
+
+export interface Offer {
+	id: number;
+	coinId: number;
+	buyerId: number;
+	buyerName: string;
+	sellerId: number;
+	sellerName: string;
+	// The party that named the amount; the other party answers it
+	proposerId: number;
+	amount: number;
+	status: OfferStatus;
+	// The offer this one counters, if any
+	parentId: number | null;
+	transactionId: number | null;
+	createdAt: string;
+	expiresAt: string;
+	respondedAt: string | null;
+}
+
+export type OfferResult =
+	| { status: "ok"; offer: Offer }
+	| { status: "not_found" }
+	| { status: "conflict"; message: string }
+	| { status: "insufficient_funds" };
+
+type OfferRow = {
+	id: number;
+	coin_id: number;
+	buyer_id: number;
+	buyer_name: string;
+	seller_id: number;
+	seller_name: string;
+	proposer_id: number;
+	amount: number;
+	status: OfferStatus;
+	parent_id: number | null;
+	transaction_id: number | null;
+	created_at: string;
+	expires_at: string;
+	responded_at: string | null;
+};
+
+type CoinRow = {
+	client_id: number | null;
+	value: number;
+};
+
+// Most offers returned by a single listing
+const LIST_LIMIT = 50;
+
+const SELECT_OFFERS = `
+  SELECT o.*, buyer.name as buyer_name, seller.name as seller_name
+  FROM offers o
+  JOIN clients buyer ON o.buyer_id = buyer.id
+  JOIN clients seller ON o.seller_id = seller.id
+`;
+
+function conflict(message: string): OfferResult {
+	return { status: "conflict", message };
+}
+
+function toOffer(row: OfferRow): Offer {
+	return {
+		id: row.id,
+		coinId: row.coin_id,
+		buyerId: row.buyer_id,
+		buyerName: row.buyer_name,
+		sellerId: row.seller_id,
+		sellerName: row.seller_name,
+		proposerId: row.proposer_id,
+		amount: row.amount,
+		status: row.status,
+		parentId: row.parent_id,
+		transactionId: row.transaction_id,
+		createdAt: row.created_at,
+		expiresAt: row.expires_at,
+		respondedAt: row.responded_at,
+	};
+}
+
+function getOffer(db: Database, offerId: number): Offer {
+	const row = db
+		.query<OfferRow, number>(`${SELECT_OFFERS} WHERE o.id = ?`)
+		.get(offerId) as OfferRow;
+	return toOffer(row);
+}
+
+function getCoin(db: Database, coinId: number): CoinRow | null {
+	return db
+		.query<CoinRow, number>(
+			"SELECT client_id, value FROM coins WHERE coin_id = ? AND burned_at IS NULL",
+		)
+		.get(coinId);
+}
+
+function canAfford(db: Database, clientId: number, amount: number): boolean {
+	const client = db
+		.query<{ cash_balance: number }, number>(
+			"SELECT cash_balance FROM clients WHERE id = ?",
+		)
+		.get(clientId);
+	return client !== null && client.cash_balance >= amount;
+}
+
+// Offers past their expiry are closed before anything reads or answers them
+function expireOffers(db: Database, now: string): void {
+	db.query(
+		"UPDATE offers SET status = 'expired', responded_at = expires_at WHERE status = 'pending' AND expires_at <= ?",
+	).run(now);
+}
+
+// A pending offer the client is the one expected to answer
+function getOfferToAnswer(
+	db: Database,
+	clientId: number,
+	offerId: number,
+): OfferRow | null {
+	return db
+		.query<OfferRow, [number, number, number, number]>(`
+      ${SELECT_OFFERS}
+      WHERE o.id = ? AND o.status = 'pending' AND o.proposer_id != ?
+        AND (o.buyer_id = ? OR o.seller_id = ?)
+    `)
+		.get(offerId, clientId, clientId, clientId);
+}
+
+function closeOffer(
+	db: Database,
+	offerId: number,
+	status: OfferStatus,
+	now: string,
+): void {
+	db.query("UPDATE offers SET status = ?, responded_at = ? WHERE id = ?").run(
+		status,
+		now,
+		offerId,
+	);
+}
+
+function insertOffer(
+	db: Database,
+	offer: {
+		coinId: number;
+		buyerId: number;
+		sellerId: number;
+		proposerId: number;
+		amount: number;
+		parentId: number | null;
+		createdAt: string;
+		expiresAt: string;
+	},
+): Offer {
+	const result = db
+		.query(`
+      INSERT INTO offers (
+        coin_id, buyer_id, seller_id, proposer_id, amount, parent_id, created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+		.run(
+			offer.coinId,
+			offer.buyerId,
+			offer.sellerId,
+			offer.proposerId,
+			offer.amount,
+			offer.parentId,
+			offer.createdAt,
+			offer.expiresAt,
+		);
+	return getOffer(db, Number(result.lastInsertRowid));
+}
+
+/**
+ * Offer to buy a coin from its owner, whether or not it is listed
+ * @param db SQLite database instance
+ * @param buyerId Client making the offer
+ * @param coinId Coin the offer is for
+ * @param amount Price offered
+ * @param expiresAt When the offer lapses if unanswered
+ */
+export function createOffer(
+	db: Database,
+	buyerId: number,
+	coinId: number,
+	amount: number,
+	expiresAt: string,
+): OfferResult {
+	return db.transaction((): OfferResult => {
+		const now = new Date().toISOString();
+		expireOffers(db, now);
+
+		const coin = getCoin(db, coinId);
+		if (!coin) {
+			return { status: "not_found" };
+		}
+		if (coin.client_id === null) {
+			return conflict("This coin has no owner yet, buy it instead");
+		}
+		if (coin.client_id === buyerId) {
+			return conflict("You already own this coin");
+		}
+		if (hasOpenAuction(db, coinId)) {
+			return conflict("This coin is up for auction, bid on it instead");
+		}
+
+		const open = db
+			.query<{ id: number }, [number, number]>(
+				"SELECT id FROM offers WHERE coin_id = ? AND buyer_id = ? AND status = 'pending'",
+			)
+			.get(coinId, buyerId);
+		if (open) {
+			return conflict("You already have an open offer on this coin");
+		}
+
+		if (!canAfford(db, buyerId, amount)) {
+			return { status: "insufficient_funds" };
+		}
+
+		return {
+			status: "ok",
+			offer: insertOffer(db, {
+				coinId,
+				buyerId,
+				sellerId: coin.client_id,
+				proposerId: buyerId,
+				amount,
+				parentId: null,
+				createdAt: now,
+				expiresAt,
+			}),
+		};
+	})();
+}
+
+/**
+ * Accept an offer, selling the coin at the offered amount through the same
+ * transfer as a direct purchase. Competing offers on the coin are cancelled.
+ * @param db SQLite database instance
+ * @param clientId Client answering the offer
+ * @param offerId Offer to accept
+ */
+export function acceptOffer(
+	db: Database,
+	clientId: number,
+	offerId: number,
+): OfferResult {
+	return db.transaction((): OfferResult => {
+		const now = new Date().toISOString();
+		expireOffers(db, now);
+
+		const offer = getOfferToAnswer(db, clientId, offerId);
+		if (!offer) {
+			return { status: "not_found" };
+		}
+
+		const coin = getCoin(db, offer.coin_id);
+		if (!coin || coin.client_id !== offer.seller_id) {
+			closeOffer(db, offerId, "cancelled", now);
+			return conflict("The coin has changed hands since this offer was made");
+		}
+		if (hasOpenAuction(db, offer.coin_id)) {
+			return conflict("This coin is up for auction");
+		}
+
+		const transfer = transferCoin(db, {
+			coinId: offer.coin_id,
+			coinValue: coin.value,
+			buyerId: offer.buyer_id,
+			sellerId: offer.seller_id,
+			price: offer.amount,
+		});
+
+		if (transfer.status === "insufficient_funds") {
+			return { status: "insufficient_funds" };
+		}
+
+		// The transfer cancelled every pending offer on the coin, this one included
+		db.query(
+			"UPDATE offers SET status = 'accepted', responded_at = ?, transaction_id = ? WHERE id = ?",
+		).run(now, transfer.transactionId, offerId);
+
+		return { status: "ok", offer: getOffer(db, offerId) };
+	})();
+}
+
+/**
+ * Turn an offer down
+ * @param db SQLite database instance
+ * @param clientId Client answering the offer
+ * @param offerId Offer to reject
+ */
+export function rejectOffer(
+	db: Database,
+	clientId: number,
+	offerId: number,
+): OfferResult {
+	return db.transaction((): OfferResult => {
+		const now = new Date().toISOString();
+		expireOffers(db, now);
+
+		if (!getOfferToAnswer(db, clientId, offerId)) {
+			return { status: "not_found" };
+		}
+
+		closeOffer(db, offerId, "rejected", now);
+		return { status: "ok", offer: getOffer(db, offerId) };
+	})();
+}
+
+/**
+ * Answer an offer with a different amount. The counter offer goes back to
+ * the other party, who can accept, reject or counter it in turn.
+ * @param db SQLite database instance
+ * @param clientId Client answering the offer
+ * @param offerId Offer to counter
+ * @param amount Price proposed instead
+ * @param expiresAt When the counter offer lapses if unanswered
+ */
+export function counterOffer(
+	db: Database,
+	clientId: number,
+	offerId: number,
+	amount: number,
+	expiresAt: string,
+): OfferResult {
+	return db.transaction((): OfferResult => {
+		const now = new Date().toISOString();
+		expireOffers(db, now);
+
+		const offer = getOfferToAnswer(db, clientId, offerId);
+		if (!offer) {
+			return { status: "not_found" };
+		}
+
+		const coin = getCoin(db, offer.coin_id);
+		if (!coin || coin.client_id !== offer.seller_id) {
+			closeOffer(db, offerId, "cancelled", now);
+			return conflict("The coin has changed hands since this offer was made");
+		}
+
+		if (clientId === offer.buyer_id && !canAfford(db, clientId, amount)) {
+			return { status: "insufficient_funds" };
+		}
+
+		closeOffer(db, offerId, "countered", now);
+
+		return {
+			status: "ok",
+			offer: insertOffer(db, {
+				coinId: offer.coin_id,
+				buyerId: offer.buyer_id,
+				sellerId: offer.seller_id,
+				proposerId: clientId,
+				amount,
+				parentId: offerId,
+				createdAt: now,
+				expiresAt,
+			}),
+		};
+	})();
+}
+
+/**
+ * Withdraw an offer the client made before it is answered
+ * @param db SQLite database instance
+ * @param clientId Client who made the offer
+ * @param offerId Offer to withdraw
+ */
+export function cancelOffer(
+	db: Database,
+	clientId: number,
+	offerId: number,
+): OfferResult {
+	return db.transaction((): OfferResult => {
+		const now = new Date().toISOString();
+		expireOffers(db, now);
+
+		const result = db
+			.query(
+				"UPDATE offers SET status = 'cancelled', responded_at = ? WHERE id = ? AND proposer_id = ? AND status = 'pending'",
+			)
+			.run(now, offerId, clientId);
+
+		if (result.changes === 0) {
+			return { status: "not_found" };
+		}
+
+		return { status: "ok", offer: getOffer(db, offerId) };
+	})();
+}
+
+/**
+ * List a client's offers, open ones first and then newest first
+ * @param db SQLite database instance
+ * @param clientId Client whose offers to list
+ * @param view Offers the client proposed, or ones addressed to them
+ */
+export function listOffers(
+	db: Database,
+	clientId: number,
+	view: OfferView,
+): Offer[] {
+	return db.transaction(() => {
+		expireOffers(db, new Date().toISOString());
+
+		const where =
+			view === "mine"
+				? "WHERE o.proposer_id = ?1"
+				: "WHERE o.proposer_id != ?1 AND (o.buyer_id = ?1 OR o.seller_id = ?1)";
+
+		return db
+			.query<OfferRow, [number, number]>(`
+        ${SELECT_OFFERS}
+        ${where}
+        ORDER BY o.status = 'pending' DESC, o.created_at DESC, o.id DESC
+        LIMIT ?2
+      `)
+			.all(clientId, LIST_LIMIT)
+			.map(toOffer);
+	})();
+}
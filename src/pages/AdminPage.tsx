@@ -0,0 +1,430 @@
+import { useEffect, useState } from "react";
+import { authFetch, isAdmin } from "../services/auth";
+import { Toast } from "../components/Toast";
+import {
+	AdminActionModal,
+	type PendingAdminAction,
+} from "../components/AdminActionModal";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+const PAGE_SIZE = 20;
+
+type Tab = "clients" | "coins" | "transactions";
+
+interface AdminClient {
+	id: number;
+	name: string;
+	email: string;
+	role: string;
+	cash_balance: number;
+	suspended_at: string | null;
+	email_verified_at: string | null;
+}
+
+interface AdminCoin {
+	coin_id: number;
+	value: number;
+	bit1: number;
+	bit2: number;
+	bit3: number;
+	asking_price: number | null;
+	burned_at: string | null;
+	client_id: number | null;
+	owner_name: string | null;
+}
+
+interface AdminTransaction {
+	id: number;
+	coin_id: number;
+	amount: number;
+	transaction_date: string;
+	kind: string;
+	voided_at: string | null;
+	seller_name: string | null;
+	buyer_name: string;
+}
+
+const TABS: { id: Tab; label: string }[] = [
+	{ id: "clients", label: "Clients" },
+	{ id: "coins", label: "Coins" },
+	{ id: "transactions", label: "Transactions" },
+];
+
+function ActionButton({
+	label,
+	onClick,
+}: { label: string; onClick: () => void }) {
+	return (
+		<button
+			type="button"
+			onClick={onClick}
+			className="text-sm text-red-600 hover:text-red-800 mr-3"
+		>
+			{label}
+		</button>
+	);
+}
+
+export function AdminPage() {
+	const [tab, setTab] = useState<Tab>("clients");
+	const [page, setPage] = useState(1);
+	const [total, setTotal] = useState(0);
+	const [clients, setClients] = useState<AdminClient[]>([]);
+	const [coins, setCoins] = useState<AdminCoin[]>([]);
+	const [transactions, setTransactions] = useState<AdminTransaction[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [forbidden, setForbidden] = useState(!isAdmin());
+	const [error, setError] = useState<string | null>(null);
+	const [pendingAction, setPendingAction] = useState<PendingAdminAction | null>(
+		null,
+	);
+	const [refreshTrigger, setRefreshTrigger] = useState(0);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: refreshTrigger re-fetches after an action
+	useEffect(() => {
+		if (forbidden) return;
+
+		const fetchRows = async () => {
+			setIsLoading(true);
+			setError(null);
+
+			try {
+				const response = await authFetch(
+					`${ENDPOINT_URL}api/admin/${tab}?page=${page}&pageSize=${PAGE_SIZE}`,
+				);
+
+				if (response.status === 401 || response.status === 403) {
+					setForbidden(true);
+					return;
+				}
+
+				if (!response.ok) {
+					throw new Error(`Failed to fetch ${tab}`);
+				}
+
+				const data = await response.json();
+				setTotal(data.total);
+				if (tab === "clients") setClients(data.clients);
+				if (tab === "coins") setCoins(data.coins);
+				if (tab === "transactions") setTransactions(data.transactions);
+			} catch (err) {
+				console.error(`Error fetching ${tab}:`, err);
+				setError(`Failed to fetch ${tab}`);
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchRows();
+	}, [tab, page, forbidden, refreshTrigger]);
+
+	const switchTab = (nextTab: Tab) => {
+		setTab(nextTab);
+		setPage(1);
+	};
+
+	const handleActionSuccess = (message: string) => {
+		setToast({ message, type: "success" });
+		setRefreshTrigger((prev) => prev + 1);
+	};
+
+	const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+	if (forbidden) {
+		return (
+			<div className="max-w-3xl mx-auto p-8 text-center">
+				<h1 className="text-2xl font-bold text-gray-800 mb-2">
+					Not authorized
+				</h1>
+				<p className="text-gray-600">
+					You need an admin account to view this page.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="max-w-7xl mx-auto p-4">
+			<h1 className="text-3xl font-bold text-gray-800 mb-6">Admin console</h1>
+
+			<div className="flex border-b border-gray-200 mb-6">
+				{TABS.map(({ id, label }) => (
+					<button
+						key={id}
+						type="button"
+						onClick={() => switchTab(id)}
+						className={`px-4 py-2 text-sm font-medium border-b-2 ${
+							tab === id
+								? "border-blue-600 text-blue-600"
+								: "border-transparent text-gray-500 hover:text-gray-700"
+						}`}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+
+			{error && (
+				<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+					{error}
+				</div>
+			)}
+
+			{isLoading ? (
+				<div className="flex justify-center items-center h-64">
+					<div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+				</div>
+			) : (
+				<div className="overflow-x-auto">
+					{tab === "clients" && (
+						<table className="min-w-full border border-gray-200">
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="border px-4 py-2">ID</th>
+									<th className="border px-4 py-2">Name</th>
+									<th className="border px-4 py-2">Email</th>
+									<th className="border px-4 py-2">Role</th>
+									<th className="border px-4 py-2">Cash</th>
+									<th className="border px-4 py-2">Status</th>
+									<th className="border px-4 py-2">Actions</th>
+								</tr>
+							</thead>
+							<tbody>
+								{clients.map((client) => (
+									<tr key={client.id} className="hover:bg-gray-50">
+										<td className="border px-4 py-2">{client.id}</td>
+										<td className="border px-4 py-2">{client.name}</td>
+										<td className="border px-4 py-2">{client.email}</td>
+										<td className="border px-4 py-2">{client.role}</td>
+										<td className="border px-4 py-2">
+											${Number(client.cash_balance).toFixed(2)}
+										</td>
+										<td className="border px-4 py-2">
+											{client.suspended_at ? (
+												<span className="text-red-600">Suspended</span>
+											) : (
+												"Active"
+											)}
+										</td>
+										<td className="border px-4 py-2 whitespace-nowrap">
+											{client.suspended_at ? (
+												<ActionButton
+													label="Unsuspend"
+													onClick={() =>
+														setPendingAction({
+															title: `Unsuspend ${client.name}`,
+															confirmLabel: "Unsuspend",
+															endpoint: "api/admin/clients/unsuspend",
+															payload: { client_id: client.id },
+														})
+													}
+												/>
+											) : (
+												<ActionButton
+													label="Suspend"
+													onClick={() =>
+														setPendingAction({
+															title: `Suspend ${client.name}`,
+															confirmLabel: "Suspend",
+															endpoint: "api/admin/clients/suspend",
+															payload: { client_id: client.id },
+														})
+													}
+												/>
+											)}
+											<ActionButton
+												label="Force logout"
+												onClick={() =>
+													setPendingAction({
+														title: `Sign out ${client.name}`,
+														confirmLabel: "Sign out everywhere",
+														endpoint: "api/admin/clients/logout",
+														payload: { client_id: client.id },
+													})
+												}
+											/>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+
+					{tab === "coins" && (
+						<table className="min-w-full border border-gray-200">
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="border px-4 py-2">Coin ID</th>
+									<th className="border px-4 py-2">Bits</th>
+									<th className="border px-4 py-2">Value</th>
+									<th className="border px-4 py-2">Owner</th>
+									<th className="border px-4 py-2">Status</th>
+									<th className="border px-4 py-2">Actions</th>
+								</tr>
+							</thead>
+							<tbody>
+								{coins.map((coin) => (
+									<tr key={coin.coin_id} className="hover:bg-gray-50">
+										<td className="border px-4 py-2">{coin.coin_id}</td>
+										<td className="border px-4 py-2">
+											{coin.bit1}, {coin.bit2}, {coin.bit3}
+										</td>
+										<td className="border px-4 py-2">
+											${Number(coin.value).toFixed(2)}
+										</td>
+										<td className="border px-4 py-2">
+											{coin.owner_name
+												? `${coin.owner_name} (#${coin.client_id})`
+												: "Unowned"}
+										</td>
+										<td className="border px-4 py-2">
+											{coin.burned_at ? (
+												<span className="text-red-600">Burned</span>
+											) : coin.asking_price !== null ? (
+												`Listed at $${Number(coin.asking_price).toFixed(2)}`
+											) : (
+												"Held"
+											)}
+										</td>
+										<td className="border px-4 py-2 whitespace-nowrap">
+											{!coin.burned_at && (
+												<>
+													<ActionButton
+														label="Reassign"
+														onClick={() =>
+															setPendingAction({
+																title: `Reassign BitSlow #${coin.coin_id}`,
+																confirmLabel: "Reassign",
+																endpoint: "api/admin/coins/reassign",
+																payload: { coin_id: coin.coin_id },
+																needsNewOwner: true,
+															})
+														}
+													/>
+													<ActionButton
+														label="Burn"
+														onClick={() =>
+															setPendingAction({
+																title: `Burn BitSlow #${coin.coin_id}`,
+																confirmLabel: "Burn",
+																endpoint: "api/admin/coins/burn",
+																payload: { coin_id: coin.coin_id },
+															})
+														}
+													/>
+												</>
+											)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+
+					{tab === "transactions" && (
+						<table className="min-w-full border border-gray-200">
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="border px-4 py-2">ID</th>
+									<th className="border px-4 py-2">Coin ID</th>
+									<th className="border px-4 py-2">Seller</th>
+									<th className="border px-4 py-2">Buyer</th>
+									<th className="border px-4 py-2">Amount</th>
+									<th className="border px-4 py-2">Kind</th>
+									<th className="border px-4 py-2">Date</th>
+									<th className="border px-4 py-2">Actions</th>
+								</tr>
+							</thead>
+							<tbody>
+								{transactions.map((txn) => (
+									<tr key={txn.id} className="hover:bg-gray-50">
+										<td className="border px-4 py-2">{txn.id}</td>
+										<td className="border px-4 py-2">{txn.coin_id}</td>
+										<td className="border px-4 py-2">
+											{txn.seller_name || "Original Issuer"}
+										</td>
+										<td className="border px-4 py-2">{txn.buyer_name}</td>
+										<td className="border px-4 py-2">
+											${Number(txn.amount).toFixed(2)}
+										</td>
+										<td className="border px-4 py-2">{txn.kind}</td>
+										<td className="border px-4 py-2">
+											{new Date(txn.transaction_date).toLocaleString()}
+										</td>
+										<td className="border px-4 py-2 whitespace-nowrap">
+											{txn.voided_at ? (
+												<span className="text-red-600">Voided</span>
+											) : (
+												<ActionButton
+													label="Void"
+													onClick={() =>
+														setPendingAction({
+															title: `Void transaction #${txn.id}`,
+															confirmLabel: "Void",
+															endpoint: "api/admin/transactions/void",
+															payload: { transaction_id: txn.id },
+														})
+													}
+												/>
+											)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			)}
+
+			{totalPages > 1 && (
+				<div className="flex justify-center items-center gap-4 mt-6">
+					<button
+						type="button"
+						onClick={() => setPage(page - 1)}
+						disabled={page <= 1}
+						className={`px-3 py-1 rounded-md border ${
+							page <= 1
+								? "bg-gray-100 text-gray-400 cursor-not-allowed"
+								: "bg-white text-gray-700 hover:bg-gray-50"
+						}`}
+					>
+						Previous
+					</button>
+					<span className="text-sm text-gray-600">
+						Page {page} of {totalPages}
+					</span>
+					<button
+						type="button"
+						onClick={() => setPage(page + 1)}
+						disabled={page >= totalPages}
+						className={`px-3 py-1 rounded-md border ${
+							page >= totalPages
+								? "bg-gray-100 text-gray-400 cursor-not-allowed"
+								: "bg-white text-gray-700 hover:bg-gray-50"
+						}`}
+					>
+						Next
+					</button>
+				</div>
+			)}
+
+			<AdminActionModal
+				action={pendingAction}
+				onClose={() => setPendingAction(null)}
+				onSuccess={handleActionSuccess}
+			/>
+
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
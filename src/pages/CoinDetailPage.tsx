@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import type { CoinStats, MarketStats } from "../types";
+import { BarChart } from "../components/BarChart";
+import { CoinHistoryModal } from "../components/CoinHistoryModal";
+import { LineChart } from "../components/LineChart";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+const WINDOWS = [
+	{ days: 30, label: "30 days" },
+	{ days: 90, label: "90 days" },
+	{ days: 365, label: "1 year" },
+];
+
+const formatPrice = (value: number) =>
+	`$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+function StatCard({ label, value }: { label: string; value: string }) {
+	return (
+		<div className="bg-white p-4 rounded-lg shadow-md">
+			<p className="text-sm text-gray-500">{label}</p>
+			<p className="text-xl font-semibold text-gray-800">{value}</p>
+		</div>
+	);
+}
+
+export function CoinDetailPage() {
+	const { id } = useParams();
+	const coinId = Number(id);
+	const [coinStats, setCoinStats] = useState<CoinStats | null>(null);
+	const [marketStats, setMarketStats] = useState<MarketStats | null>(null);
+	const [days, setDays] = useState(90);
+	const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setCoinStats(null);
+		setError(null);
+
+		fetch(`${ENDPOINT_URL}api/coins/${coinId}/stats`)
+			.then(async (response) => {
+				const data = await response.json();
+				if (!response.ok) {
+					throw new Error(data.message || "Failed to fetch coin statistics");
+				}
+				setCoinStats(data.stats);
+			})
+			.catch((err) => {
+				console.error("Error fetching coin statistics:", err);
+				setError(
+					err instanceof Error
+						? err.message
+						: "Failed to fetch coin statistics",
+				);
+			});
+	}, [coinId]);
+
+	useEffect(() => {
+		fetch(`${ENDPOINT_URL}api/market/stats?days=${days}`)
+			.then((response) => {
+				if (!response.ok) {
+					throw new Error("Failed to fetch market statistics");
+				}
+				return response.json();
+			})
+			.then((data) => setMarketStats(data.stats))
+			.catch((err) => {
+				console.error("Error fetching market statistics:", err);
+				setError("Failed to fetch market statistics");
+			});
+	}, [days]);
+
+	if (error) {
+		return (
+			<div className="max-w-3xl mx-auto p-8 text-center">
+				<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+					{error}
+				</div>
+				<Link to="/marketplace" className="text-blue-500 hover:text-blue-700">
+					Back to the marketplace
+				</Link>
+			</div>
+		);
+	}
+
+	if (!coinStats || !marketStats) {
+		return (
+			<div className="flex justify-center items-center h-64">
+				<div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+			</div>
+		);
+	}
+
+	// Daily market medians give the coin's own sales something to compare with
+	const marketMedians = marketStats.days
+		.filter((day) => day.medianPrice !== null)
+		.map((day) => ({
+			time: Date.parse(day.date),
+			value: day.medianPrice as number,
+		}));
+
+	return (
+		<div className="max-w-7xl mx-auto p-4">
+			<div className="flex justify-between items-center mb-6">
+				<div>
+					<Link
+						to="/marketplace"
+						className="text-sm text-blue-500 hover:text-blue-700"
+					>
+						← Marketplace
+					</Link>
+					<h1 className="text-3xl font-bold text-gray-800">
+						BitSlow #{coinStats.coinId}
+					</h1>
+					<p className="text-gray-600">
+						Valued at {formatPrice(coinStats.value)}
+					</p>
+				</div>
+				<button
+					type="button"
+					onClick={() => setIsHistoryOpen(true)}
+					className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+				>
+					Ownership history
+				</button>
+			</div>
+
+			<div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+				<StatCard
+					label="Last sale"
+					value={
+						coinStats.lastSale
+							? formatPrice(coinStats.lastSale.amount)
+							: "Never sold"
+					}
+				/>
+				<StatCard
+					label="All-time high"
+					value={
+						coinStats.allTimeHigh === null
+							? "-"
+							: formatPrice(coinStats.allTimeHigh)
+					}
+				/>
+				<StatCard
+					label="All-time low"
+					value={
+						coinStats.allTimeLow === null
+							? "-"
+							: formatPrice(coinStats.allTimeLow)
+					}
+				/>
+				<StatCard label="Transfers" value={coinStats.transfers.toString()} />
+			</div>
+
+			<div className="bg-white p-4 rounded-lg shadow-md mb-8">
+				<h2 className="text-lg font-semibold text-gray-800 mb-2">
+					Price history
+				</h2>
+				<LineChart
+					formatValue={formatPrice}
+					series={[
+						{
+							label: "Market median",
+							color: "#9ca3af",
+							points: marketMedians,
+						},
+						{
+							label: `BitSlow #${coinStats.coinId}`,
+							color: "#2563eb",
+							points: coinStats.prices.map((price) => ({
+								time: Date.parse(price.date),
+								value: price.amount,
+							})),
+						},
+					]}
+				/>
+			</div>
+
+			<div className="flex justify-between items-center mb-4">
+				<h2 className="text-2xl font-bold text-gray-800">Market</h2>
+				<select
+					value={days}
+					onChange={(e) => setDays(Number(e.target.value))}
+					className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+				>
+					{WINDOWS.map((option) => (
+						<option key={option.days} value={option.days}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+				<StatCard label="Volume" value={formatPrice(marketStats.totalVolume)} />
+				<StatCard label="Trades" value={marketStats.totalTrades.toString()} />
+				<StatCard
+					label="Coins in circulation"
+					value={marketStats.circulatingCoins.toString()}
+				/>
+			</div>
+
+			<div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+				<div className="bg-white p-4 rounded-lg shadow-md">
+					<h3 className="font-semibold text-gray-800 mb-2">Volume per day</h3>
+					<BarChart
+						color="#16a34a"
+						formatValue={formatPrice}
+						bars={marketStats.days.map((day) => ({
+							label: day.date,
+							value: day.volume,
+						}))}
+					/>
+				</div>
+				<div className="bg-white p-4 rounded-lg shadow-md">
+					<h3 className="font-semibold text-gray-800 mb-2">
+						Median price per day
+					</h3>
+					<LineChart
+						height={180}
+						formatValue={formatPrice}
+						series={[
+							{
+								label: "Median price",
+								color: "#2563eb",
+								points: marketMedians,
+							},
+						]}
+					/>
+				</div>
+				<div className="bg-white p-4 rounded-lg shadow-md">
+					<h3 className="font-semibold text-gray-800 mb-2">Turnover per day</h3>
+					<BarChart
+						color="#d97706"
+						formatValue={(value) => `${(value * 100).toFixed(1)}%`}
+						bars={marketStats.days.map((day) => ({
+							label: day.date,
+							value: day.turnover,
+						}))}
+					/>
+				</div>
+			</div>
+
+			<CoinHistoryModal
+				isOpen={isHistoryOpen}
+				onClose={() => setIsHistoryOpen(false)}
+				coinId={coinStats.coinId}
+			/>
+		</div>
+	);
+}
+
+export default CoinDetailPage;
@@ -1,6 +1,10 @@
 import React, { useEffect, useState } from "react";
-import { getAuthToken } from "../services/auth";
+import { authFetch, isLoggedIn } from "../services/auth";
 import { Toast } from "../components/Toast";
+import { WalletModal } from "../components/WalletModal";
+import { SessionsSection } from "../components/SessionsSection";
+import { TwoFactorSection } from "../components/TwoFactorSection";
+import { ApiKeysSection } from "../components/ApiKeysSection";
 
 interface Transaction {
 	id: number;
@@ -15,8 +19,13 @@ export function DashboardPage() {
 	const [transactions, setTransactions] = useState<number>(0);
 	const [bitSlowCurrency, setBitSlowCurrency] = useState<number>(0);
 	const [monetaryValue, setMonetaryValue] = useState<number>(0);
+	const [cashBalance, setCashBalance] = useState<number>(0);
+	const [walletMode, setWalletMode] = useState<"deposit" | "withdraw" | null>(
+		null,
+	);
 	const [userTransactions, setUserTransactions] = useState<Transaction[]>([]);
 	const [userId, setUserId] = useState<number | null>(null);
+	const [emailVerified, setEmailVerified] = useState<boolean>(true);
 	const [isLoading, setIsLoading] = useState<boolean>(true);
 	const [toast, setToast] = useState<{
 		message: string;
@@ -25,18 +34,16 @@ export function DashboardPage() {
 
 	useEffect(() => {
 		const fetchUserData = async () => {
-			const token = getAuthToken();
-			if (!token) {
+			if (!isLoggedIn()) {
 				setIsLoading(false);
 				return;
 			}
 
 			try {
 				// Fetch user ID and basic info
-				const userResponse = await fetch("/api/user", {
+				const userResponse = await authFetch("/api/user", {
 					method: "GET",
 					headers: {
-						Authorization: `Bearer ${token}`,
 						"Content-Type": "application/json",
 					},
 				});
@@ -44,16 +51,16 @@ export function DashboardPage() {
 				if (userResponse.ok) {
 					const userData = await userResponse.json();
 					setUserId(userData.user.id);
+					setEmailVerified(userData.user.emailVerified);
 				} else {
 					console.error("Failed to fetch user data");
 					setToast({ message: "Failed to fetch user data", type: "error" });
 				}
 
 				// Fetch currency count
-				const currencyResponse = await fetch("/api/user/currency", {
+				const currencyResponse = await authFetch("/api/user/currency", {
 					method: "GET",
 					headers: {
-						Authorization: `Bearer ${token}`,
 						"Content-Type": "application/json",
 					},
 				});
@@ -64,10 +71,9 @@ export function DashboardPage() {
 				}
 
 				// Fetch monetary value
-				const valueResponse = await fetch("/api/user/monetaryValue", {
+				const valueResponse = await authFetch("/api/user/monetaryValue", {
 					method: "GET",
 					headers: {
-						Authorization: `Bearer ${token}`,
 						"Content-Type": "application/json",
 					},
 				});
@@ -77,11 +83,23 @@ export function DashboardPage() {
 					setMonetaryValue(valueData.totalValue || 0);
 				}
 
+				// Fetch cash balance
+				const balanceResponse = await authFetch("/api/user/balance", {
+					method: "GET",
+					headers: {
+						"Content-Type": "application/json",
+					},
+				});
+
+				if (balanceResponse.ok) {
+					const balanceData = await balanceResponse.json();
+					setCashBalance(balanceData.cashBalance || 0);
+				}
+
 				// Fetch user transactions
-				const transactionsResponse = await fetch("/api/user/transactions", {
+				const transactionsResponse = await authFetch("/api/user/transactions", {
 					method: "GET",
 					headers: {
-						Authorization: `Bearer ${token}`,
 						"Content-Type": "application/json",
 					},
 				});
@@ -102,6 +120,29 @@ export function DashboardPage() {
 		fetchUserData();
 	}, []);
 
+	const resendVerificationEmail = async () => {
+		try {
+			const response = await authFetch("/api/email/resend", {
+				method: "POST",
+			});
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || "Failed to send verification email");
+			}
+
+			setToast({ message: "Verification email sent", type: "success" });
+		} catch (error) {
+			setToast({
+				message:
+					error instanceof Error
+						? error.message
+						: "Failed to send verification email",
+				type: "error",
+			});
+		}
+	};
+
 	if (isLoading) {
 		return <div className="dashboard p-4">Loading dashboard data...</div>;
 	}
@@ -109,7 +150,22 @@ export function DashboardPage() {
 	return (
 		<div className="dashboard p-4">
 			<h1 className="text-2xl font-bold">Dashboard</h1>
-			<div className="stats grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+			{!emailVerified && (
+				<div className="mt-4 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded px-4 py-3 text-sm">
+					<span>
+						Your email address is not verified yet. Check your inbox for the
+						confirmation link.
+					</span>
+					<button
+						type="button"
+						onClick={resendVerificationEmail}
+						className="text-blue-600 font-medium hover:underline"
+					>
+						Resend email
+					</button>
+				</div>
+			)}
+			<div className="stats grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
 				<div className="stat bg-white rounded shadow p-4">
 					<h2 className="text-gray-500">Total Transactions</h2>
 					<p className="text-2xl font-semibold">{transactions}</p>
@@ -122,7 +178,42 @@ export function DashboardPage() {
 					<h2 className="text-gray-500">Total Monetary Value</h2>
 					<p className="text-2xl font-semibold">${monetaryValue.toFixed(2)}</p>
 				</div>
+				<div className="stat bg-white rounded shadow p-4">
+					<h2 className="text-gray-500">Cash Balance</h2>
+					<p className="text-2xl font-semibold">${cashBalance.toFixed(2)}</p>
+					<div className="flex gap-2 mt-2">
+						<button
+							type="button"
+							onClick={() => setWalletMode("deposit")}
+							className="text-sm bg-blue-600 hover:bg-blue-700 text-white py-1 px-3 rounded"
+						>
+							Deposit
+						</button>
+						<button
+							type="button"
+							onClick={() => setWalletMode("withdraw")}
+							className="text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded"
+						>
+							Withdraw
+						</button>
+					</div>
+				</div>
 			</div>
+			<WalletModal
+				isOpen={walletMode !== null}
+				mode={walletMode ?? "deposit"}
+				onClose={() => setWalletMode(null)}
+				onSuccess={(balance) => {
+					setToast({
+						message:
+							walletMode === "withdraw"
+								? "Withdrawal successful"
+								: "Deposit successful",
+						type: "success",
+					});
+					setCashBalance(balance);
+				}}
+			/>
 			<div className="transaction-list mt-8">
 				<h2 className="text-xl font-semibold mb-4">Your Transactions</h2>
 				{userTransactions.length > 0 ? (
@@ -185,6 +276,15 @@ export function DashboardPage() {
 					<p className="text-gray-500">No transactions found.</p>
 				)}
 			</div>
+			<SessionsSection
+				onMessage={(message, type) => setToast({ message, type })}
+			/>
+			<TwoFactorSection
+				onMessage={(message, type) => setToast({ message, type })}
+			/>
+			<ApiKeysSection
+				onMessage={(message, type) => setToast({ message, type })}
+			/>
 			{toast && (
 				<Toast
 					message={toast.message}
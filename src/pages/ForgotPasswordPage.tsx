@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { requestPasswordReset } from "../services/auth";
+
+export function ForgotPasswordPage() {
+	const [email, setEmail] = useState("");
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [sent, setSent] = useState(false);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!email.trim()) {
+			setError("Email is required");
+			return;
+		}
+
+		setError(null);
+		setIsLoading(true);
+
+		try {
+			await requestPasswordReset(email.trim());
+			setSent(true);
+		} catch (error) {
+			setError(
+				error instanceof Error ? error.message : "Failed to request reset",
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	return (
+		<div className="min-h-screen flex flex-col justify-center">
+			<div className="sm:mx-auto sm:w-full sm:max-w-md">
+				<h1 className="text-center text-3xl font-extrabold text-gray-900">
+					Forgot your password?
+				</h1>
+				<p className="mt-2 text-center text-sm text-gray-600">
+					Enter your email and we will send you a link to reset it.
+				</p>
+			</div>
+
+			{error && (
+				<div className="mt-6 sm:mx-auto sm:w-full sm:max-w-md">
+					<div
+						className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Error!</strong>
+						<span className="block sm:inline"> {error}</span>
+					</div>
+				</div>
+			)}
+
+			<div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+				{sent ? (
+					<div
+						className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Check your inbox!</strong>
+						<span className="block sm:inline">
+							{" "}
+							If an account exists for {email}, a reset link is on its way.
+						</span>
+					</div>
+				) : (
+					<div className="rounded-lg border bg-card text-card-foreground shadow-lg overflow-hidden">
+						<div className="p-8">
+							<form onSubmit={handleSubmit}>
+								<div className="grid gap-2">
+									<label htmlFor="email" className="text-sm font-medium">
+										Email Address <span className="text-red-500">*</span>
+									</label>
+									<input
+										type="email"
+										id="email"
+										name="email"
+										value={email}
+										onChange={(e) => setEmail(e.target.value)}
+										className="flex h-11 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 transition-all"
+										placeholder="Enter your email"
+									/>
+								</div>
+								<button
+									type="submit"
+									disabled={isLoading}
+									className="flex items-center justify-center rounded-md bg-blue-600 text-white hover:bg-blue-700 h-11 w-full mt-6 text-sm font-medium transition-colors disabled:opacity-50"
+								>
+									{isLoading ? "Sending..." : "Send reset link"}
+								</button>
+							</form>
+						</div>
+					</div>
+				)}
+				<div className="mt-6 text-center text-sm">
+					<Link
+						to="/login"
+						className="text-primary font-medium hover:underline underline-offset-4 transition-all"
+					>
+						Back to login
+					</Link>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export default ForgotPasswordPage;
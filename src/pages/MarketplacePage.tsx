@@ -1,13 +1,24 @@
 import { useState, useEffect, useMemo } from "react";
-import { Coin } from "../types";
-import { getAuthToken } from "../services/auth";
+import { Link } from "react-router-dom";
+import { Auction, Coin, SortColumn } from "../types";
+import { authFetch, getUserId, isAdmin } from "../services/auth";
 import { GenerateCoinModal } from "../components/GenerateCoinModal";
 import { CoinHistoryModal } from "../components/CoinHistoryModal";
+import { ListCoinModal } from "../components/ListCoinModal";
+import { OfferModal } from "../components/OfferModal";
+import { AuctionModal } from "../components/AuctionModal";
+import { AuctionCountdown } from "../components/AuctionCountdown";
+import { StartAuctionModal } from "../components/StartAuctionModal";
 import { isLoggedIn } from "../services/auth";
+import { useMarketEvents } from "../services/live";
 import { Toast } from "../components/Toast";
+import { SortButton, appendSortParams } from "../components/SortButton";
 
 const ENDPOINT_URL = "http://localhost:3000/";
 
+// Open auctions are re-fetched on this interval so countdowns and high bids stay fresh
+const AUCTION_POLL_INTERVAL = 5000;
+
 async function buyCoin(
 	coinId: number,
 	setToast: (
@@ -25,11 +36,10 @@ async function buyCoin(
 	}
 
 	try {
-		const response = await fetch(`${ENDPOINT_URL}api/coins/buy`, {
+		const response = await authFetch(`${ENDPOINT_URL}api/coins/buy`, {
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
-				Authorization: `Bearer ${getAuthToken()}`,
 			},
 			body: JSON.stringify({ coin_id: coinId }),
 		});
@@ -59,6 +69,75 @@ async function buyCoin(
 	}
 }
 
+async function unlistCoin(
+	coinId: number,
+	setToast: (
+		data: { message: string; type: "success" | "error" } | null,
+	) => void,
+	refreshCoins: () => void,
+): Promise<void> {
+	try {
+		const response = await authFetch(`${ENDPOINT_URL}api/coins/unlist`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ coin_id: coinId }),
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json();
+			throw new Error(errorData.message || "Failed to unlist coin");
+		}
+
+		setToast({
+			message: `BitSlow #${coinId} is no longer for sale`,
+			type: "success",
+		});
+
+		refreshCoins();
+	} catch (error) {
+		console.error("Error unlisting coin:", error);
+		const errorMessage =
+			error instanceof Error ? error.message : "Unknown error occurred";
+
+		setToast({
+			message: `Failed to unlist coin: ${errorMessage}`,
+			type: "error",
+		});
+	}
+}
+
+function AuctionCell({
+	auction,
+	ownerName,
+	onOpen,
+	onEnd,
+}: {
+	auction: Auction;
+	ownerName: string | null;
+	onOpen: (auctionId: number) => void;
+	onEnd: () => void;
+}) {
+	return (
+		<div className="flex items-center justify-end gap-2">
+			<span>{ownerName ?? "Original Issuer"}</span>
+			<span className="bg-yellow-100 text-yellow-800 text-xs py-1 px-2 rounded">
+				Auction · <AuctionCountdown endsAt={auction.endsAt} onEnd={onEnd} />
+			</span>
+			<button
+				type="button"
+				className="bg-green-500 hover:bg-green-600 text-white py-1 px-3 rounded transition duration-150 ease-in-out"
+				onClick={() => onOpen(auction.id)}
+			>
+				{auction.highBid === null
+					? "Bid"
+					: `Bids ($${auction.highBid.toLocaleString()})`}
+			</button>
+		</div>
+	);
+}
+
 function useCoins(initialPage = 1, initialPageSize = 30) {
 	const [coins, setCoins] = useState<Coin[]>([]);
 	const [loading, setLoading] = useState(true);
@@ -67,6 +146,9 @@ function useCoins(initialPage = 1, initialPageSize = 30) {
 	const [pageSize, setPageSize] = useState(initialPageSize);
 	const [totalCoins, setTotalCoins] = useState(0);
 	const [refreshTrigger, setRefreshTrigger] = useState(0);
+	const [sort, setSort] = useState<SortColumn[]>([
+		{ field: "coin", order: "asc" },
+	]);
 	const [toastError, setToastError] = useState<{
 		message: string;
 		type: "error";
@@ -78,6 +160,7 @@ function useCoins(initialPage = 1, initialPageSize = 30) {
 		const params = new URLSearchParams();
 		params.append("page", pageNum.toString());
 		params.append("pageSize", size.toString());
+		appendSortParams(params, sort);
 		if (bypassCache) {
 			params.append("_t", Date.now().toString());
 		}
@@ -110,7 +193,43 @@ function useCoins(initialPage = 1, initialPageSize = 30) {
 
 	useEffect(() => {
 		fetchPage(page, pageSize);
-	}, [page, pageSize, refreshTrigger]);
+	}, [page, pageSize, sort, refreshTrigger]);
+
+	// A new order starts over from the first page
+	const changeSort = (newSort: SortColumn[]) => {
+		setSort(newSort);
+		setPage(1);
+	};
+
+	// Show purchases and new coins as they happen, so nobody buys a sold coin
+	useMarketEvents({
+		onEvent: (event) => {
+			if (event.type === "coin-purchased") {
+				const { coin_id, client_id, client_name } = event.data;
+				setCoins((prev) =>
+					prev.map((coin) =>
+						coin.coin_id === coin_id
+							? { ...coin, client_id, client_name, asking_price: null }
+							: coin,
+					),
+				);
+			} else if (event.type === "coin-generated") {
+				// Listed by id, a new coin can only land on the last page
+				const byId = sort.every((column) => column.field === "coin");
+				const isLastPage = page >= Math.ceil(totalCoins / pageSize);
+				setTotalCoins((prev) => prev + 1);
+				setCoins((prev) =>
+					byId &&
+					isLastPage &&
+					prev.length < pageSize &&
+					!prev.some((coin) => coin.coin_id === event.data.coin_id)
+						? [...prev, event.data]
+						: prev,
+				);
+			}
+		},
+		onStale: refresh,
+	});
 
 	return {
 		coins,
@@ -119,8 +238,10 @@ function useCoins(initialPage = 1, initialPageSize = 30) {
 		page,
 		pageSize,
 		totalCoins,
+		sort,
 		setPage,
 		setPageSize,
+		changeSort,
 		refresh,
 		toastError,
 		setToastError,
@@ -135,8 +256,10 @@ export function MarketplacePage() {
 		page,
 		pageSize,
 		totalCoins,
+		sort,
 		setPage,
 		setPageSize,
+		changeSort,
 		refresh,
 		toastError,
 		setToastError,
@@ -148,7 +271,14 @@ export function MarketplacePage() {
 		useState(true);
 	const [selectedCoinId, setSelectedCoinId] = useState<number | null>(null);
 	const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+	const [listingCoin, setListingCoin] = useState<Coin | null>(null);
+	const [offerCoin, setOfferCoin] = useState<Coin | null>(null);
+	const [auctionCoin, setAuctionCoin] = useState<Coin | null>(null);
+	const [openAuctionId, setOpenAuctionId] = useState<number | null>(null);
+	const [auctions, setAuctions] = useState<Map<number, Auction>>(new Map());
+	const [admin, setAdmin] = useState(false);
 	const [authenticated, setAuthenticated] = useState(false);
+	const currentUserId = Number(getUserId());
 	const [toast, setToast] = useState<{
 		message: string;
 		type: "success" | "error";
@@ -163,6 +293,7 @@ export function MarketplacePage() {
 
 	useEffect(() => {
 		setAuthenticated(isLoggedIn());
+		setAdmin(isAdmin());
 	}, []);
 
 	const openHistoryModal = (coinId: number) => {
@@ -172,11 +303,7 @@ export function MarketplacePage() {
 
 	// Check if new BitSlow combinations are available
 	useEffect(() => {
-		fetch(`${ENDPOINT_URL}api/coins/available-combinations`, {
-			headers: {
-				Authorization: `Bearer ${getAuthToken()}`,
-			},
-		})
+		authFetch(`${ENDPOINT_URL}api/coins/available-combinations`)
 			.then((response) => {
 				if (!response.ok) {
 					throw new Error(
@@ -198,6 +325,27 @@ export function MarketplacePage() {
 			});
 	}, [coins]);
 
+	// Keep the open auctions on screen current, keyed by coin
+	useEffect(() => {
+		const fetchAuctions = () => {
+			fetch(`${ENDPOINT_URL}api/auctions`)
+				.then((response) => response.json())
+				.then((data: { auctions: Auction[] }) => {
+					setAuctions(
+						new Map(data.auctions.map((auction) => [auction.coinId, auction])),
+					);
+				})
+				.catch((error) => {
+					console.error("Error fetching auctions:", error);
+				});
+		};
+
+		fetchAuctions();
+		const timerId = window.setInterval(fetchAuctions, AUCTION_POLL_INTERVAL);
+
+		return () => clearInterval(timerId);
+	}, []);
+
 	// Timer to track loading time
 	useEffect(() => {
 		let timerId: number | undefined;
@@ -221,6 +369,11 @@ export function MarketplacePage() {
 		refresh();
 	};
 
+	// The scheduler settles auctions about a second after they end
+	const settleRefresh = () => {
+		window.setTimeout(refresh, 2000);
+	};
+
 	// Handle page change
 	const handlePrevPage = () => {
 		if (page > 1) setPage(page - 1);
@@ -358,6 +511,56 @@ export function MarketplacePage() {
 				coinId={selectedCoinId}
 			/>
 
+			{/* Coin Listing Modal */}
+			<ListCoinModal
+				isOpen={listingCoin !== null}
+				onClose={() => setListingCoin(null)}
+				coinId={listingCoin?.coin_id ?? null}
+				suggestedPrice={listingCoin?.value}
+				onSuccess={(coinId) => {
+					setToast({
+						message: `BitSlow #${coinId} listed for sale!`,
+						type: "success",
+					});
+
+					refresh();
+				}}
+			/>
+
+			{/* Offer Modal */}
+			<OfferModal
+				isOpen={offerCoin !== null}
+				onClose={() => setOfferCoin(null)}
+				coinId={offerCoin?.coin_id ?? null}
+				suggestedAmount={offerCoin?.asking_price ?? offerCoin?.value}
+				onSuccess={(message) => setToast({ message, type: "success" })}
+			/>
+
+			{/* Auction Modals */}
+			<StartAuctionModal
+				isOpen={auctionCoin !== null}
+				onClose={() => setAuctionCoin(null)}
+				coinId={auctionCoin?.coin_id ?? null}
+				suggestedReserve={auctionCoin?.value}
+				onSuccess={(coinId) => {
+					setToast({
+						message: `BitSlow #${coinId} is up for auction!`,
+						type: "success",
+					});
+
+					refresh();
+				}}
+			/>
+
+			<AuctionModal
+				auctionId={openAuctionId}
+				onClose={() => setOpenAuctionId(null)}
+				onBid={(message) => {
+					setToast({ message, type: "success" });
+					refresh();
+				}}
+			/>
+
 			{/* Show toast notification when active */}
 			{toast && (
 				<Toast
@@ -409,11 +612,32 @@ export function MarketplacePage() {
 					<table className="w-full border-collapse bg-white">
 						<thead>
 							<tr className="bg-gray-800 text-white">
-								<th className="p-4 text-left">BitSlow</th>
+								<th className="p-4 text-left">
+									<SortButton
+										field="coin"
+										label="BitSlow"
+										sort={sort}
+										onSort={changeSort}
+									/>
+								</th>
 								<th className="p-4 text-left">Bits</th>
-								<th className="p-4 text-center">Monetary Value</th>
+								<th className="p-4 text-center">
+									<SortButton
+										field="value"
+										label="Monetary Value"
+										sort={sort}
+										onSort={changeSort}
+									/>
+								</th>
 								<th className="p-4 text-center">History</th>
-								<th className="p-4 text-right">Current Owner</th>
+								<th className="p-4 text-right">
+									<SortButton
+										field="owner"
+										label="Current Owner"
+										sort={sort}
+										onSort={changeSort}
+									/>
+								</th>
 							</tr>
 						</thead>
 						<tbody>
@@ -423,9 +647,13 @@ export function MarketplacePage() {
 									className={`hover:bg-gray-50 transition-colors ${index === coins.length - 1 ? "" : "border-b border-gray-200"}`}
 								>
 									<td className="p-4">
-										<div>
-											<div className="">{coin.coin_id}</div>
-										</div>
+										<Link
+											to={`/coins/${coin.coin_id}`}
+											className="text-blue-500 hover:text-blue-700"
+											title="View price history and statistics"
+										>
+											{coin.coin_id}
+										</Link>
 									</td>
 									<td className="p-4">
 										{coin.bit1}, {coin.bit2}, {coin.bit3}
@@ -456,17 +684,106 @@ export function MarketplacePage() {
 										</button>
 									</td>
 									<td className="p-4 text-right text-gray-700">
-										{coin.client_name == null ? (
-											<button
-												className="bg-green-500 hover:bg-green-600 text-white py-1 px-3 rounded transition duration-150 ease-in-out"
-												onClick={() =>
-													buyCoin(coin.coin_id, setToast, refreshCoins)
+										{auctions.has(coin.coin_id) ? (
+											<AuctionCell
+												auction={auctions.get(coin.coin_id) as Auction}
+												ownerName={
+													coin.client_id === currentUserId
+														? "You"
+														: coin.client_name
 												}
-											>
-												Buy
-											</button>
+												onOpen={setOpenAuctionId}
+												onEnd={settleRefresh}
+											/>
+										) : coin.client_name == null ? (
+											<div className="flex items-center justify-end gap-2">
+												{admin && (
+													<button
+														type="button"
+														className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded transition duration-150 ease-in-out"
+														onClick={() => setAuctionCoin(coin)}
+													>
+														Auction
+													</button>
+												)}
+												<button
+													className="bg-green-500 hover:bg-green-600 text-white py-1 px-3 rounded transition duration-150 ease-in-out"
+													onClick={() =>
+														buyCoin(coin.coin_id, setToast, refreshCoins)
+													}
+												>
+													Buy
+												</button>
+											</div>
+										) : coin.client_id === currentUserId ? (
+											<div className="flex items-center justify-end gap-2">
+												<span>You</span>
+												{coin.asking_price !== null ? (
+													<button
+														type="button"
+														className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded transition duration-150 ease-in-out"
+														onClick={() =>
+															unlistCoin(coin.coin_id, setToast, refreshCoins)
+														}
+													>
+														Unlist (${coin.asking_price.toLocaleString()})
+													</button>
+												) : (
+													<button
+														type="button"
+														className="bg-blue-500 hover:bg-blue-600 text-white py-1 px-3 rounded transition duration-150 ease-in-out"
+														onClick={() => setListingCoin(coin)}
+													>
+														Sell
+													</button>
+												)}
+												{coin.asking_price === null && (
+													<button
+														type="button"
+														className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded transition duration-150 ease-in-out"
+														onClick={() => setAuctionCoin(coin)}
+													>
+														Auction
+													</button>
+												)}
+											</div>
+										) : coin.asking_price !== null ? (
+											<div className="flex items-center justify-end gap-2">
+												<span>{coin.client_name}</span>
+												{authenticated && (
+													<>
+														<button
+															type="button"
+															className="bg-green-500 hover:bg-green-600 text-white py-1 px-3 rounded transition duration-150 ease-in-out"
+															onClick={() =>
+																buyCoin(coin.coin_id, setToast, refreshCoins)
+															}
+														>
+															Buy for ${coin.asking_price.toLocaleString()}
+														</button>
+														<button
+															type="button"
+															className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded transition duration-150 ease-in-out"
+															onClick={() => setOfferCoin(coin)}
+														>
+															Make offer
+														</button>
+													</>
+												)}
+											</div>
 										) : (
-											coin.client_name
+											<div className="flex items-center justify-end gap-2">
+												<span>{coin.client_name}</span>
+												{authenticated && (
+													<button
+														type="button"
+														className="bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded transition duration-150 ease-in-out"
+														onClick={() => setOfferCoin(coin)}
+													>
+														Make offer
+													</button>
+												)}
+											</div>
 										)}
 									</td>
 								</tr>
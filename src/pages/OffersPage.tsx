@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import type { Offer } from "../types";
+import { authFetch, getUserId, isLoggedIn } from "../services/auth";
+import { OfferModal } from "../components/OfferModal";
+import { Toast } from "../components/Toast";
+
+const ENDPOINT_URL = "http://localhost:3000/";
+
+type View = "received" | "mine";
+
+const VIEWS: { id: View; label: string }[] = [
+	{ id: "received", label: "Offers received" },
+	{ id: "mine", label: "My offers" },
+];
+
+const STATUS_STYLES: Record<Offer["status"], string> = {
+	pending: "text-blue-600",
+	accepted: "text-green-600",
+	rejected: "text-red-600",
+	countered: "text-yellow-600",
+	cancelled: "text-gray-500",
+	expired: "text-gray-500",
+};
+
+export function OffersPage() {
+	const [view, setView] = useState<View>("received");
+	const [offers, setOffers] = useState<Offer[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [busyOfferId, setBusyOfferId] = useState<number | null>(null);
+	const [counterTarget, setCounterTarget] = useState<Offer | null>(null);
+	const [refreshTrigger, setRefreshTrigger] = useState(0);
+	const [toast, setToast] = useState<{
+		message: string;
+		type: "success" | "error";
+	} | null>(null);
+	const currentUserId = Number(getUserId());
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: refreshTrigger re-fetches after an answer
+	useEffect(() => {
+		if (!isLoggedIn()) return;
+
+		const fetchOffers = async () => {
+			setIsLoading(true);
+			setError(null);
+
+			try {
+				const response = await authFetch(
+					`${ENDPOINT_URL}api/offers?view=${view}`,
+				);
+
+				if (!response.ok) {
+					throw new Error("Failed to fetch offers");
+				}
+
+				const data = await response.json();
+				setOffers(data.offers);
+			} catch (err) {
+				console.error("Error fetching offers:", err);
+				setError("Failed to fetch offers");
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		fetchOffers();
+	}, [view, refreshTrigger]);
+
+	const answerOffer = async (
+		offer: Offer,
+		action: "accept" | "reject" | "cancel",
+	) => {
+		setBusyOfferId(offer.id);
+
+		try {
+			const response = await authFetch(`${ENDPOINT_URL}api/offers/${action}`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ offer_id: offer.id }),
+			});
+
+			const data = await response.json();
+
+			if (!response.ok) {
+				throw new Error(data.message || `Failed to ${action} offer`);
+			}
+
+			const messages = {
+				accept: `BitSlow #${offer.coinId} sold for $${offer.amount.toLocaleString()}`,
+				reject: "Offer rejected",
+				cancel: "Offer withdrawn",
+			};
+			setToast({ message: messages[action], type: "success" });
+		} catch (err) {
+			setToast({
+				message:
+					err instanceof Error ? err.message : `Failed to ${action} offer`,
+				type: "error",
+			});
+		} finally {
+			setBusyOfferId(null);
+			setRefreshTrigger((prev) => prev + 1);
+		}
+	};
+
+	if (!isLoggedIn()) {
+		return (
+			<div className="max-w-3xl mx-auto p-8 text-center">
+				<h1 className="text-2xl font-bold text-gray-800 mb-2">Offers</h1>
+				<p className="text-gray-600">Log in to make and answer offers.</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="max-w-7xl mx-auto p-4">
+			<h1 className="text-3xl font-bold text-gray-800 mb-6">Offers</h1>
+
+			<div className="flex border-b border-gray-200 mb-6">
+				{VIEWS.map(({ id, label }) => (
+					<button
+						key={id}
+						type="button"
+						onClick={() => setView(id)}
+						className={`px-4 py-2 text-sm font-medium border-b-2 ${
+							view === id
+								? "border-blue-600 text-blue-600"
+								: "border-transparent text-gray-500 hover:text-gray-700"
+						}`}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+
+			{error && (
+				<div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+					{error}
+				</div>
+			)}
+
+			{isLoading ? (
+				<div className="flex justify-center items-center h-64">
+					<div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+				</div>
+			) : offers.length === 0 ? (
+				<div className="bg-white p-8 rounded-lg shadow-md text-center">
+					<p className="text-gray-500">
+						{view === "received"
+							? "Nobody has made you an offer yet."
+							: "You have not made any offers yet."}
+					</p>
+				</div>
+			) : (
+				<div className="overflow-x-auto">
+					<table className="min-w-full border border-gray-200">
+						<thead className="bg-gray-50">
+							<tr>
+								<th className="border px-4 py-2">Coin ID</th>
+								<th className="border px-4 py-2">
+									{view === "received" ? "From" : "To"}
+								</th>
+								<th className="border px-4 py-2">Side</th>
+								<th className="border px-4 py-2">Amount</th>
+								<th className="border px-4 py-2">Status</th>
+								<th className="border px-4 py-2">Expires</th>
+								<th className="border px-4 py-2">Actions</th>
+							</tr>
+						</thead>
+						<tbody>
+							{offers.map((offer) => {
+								const isBuyer = offer.buyerId === currentUserId;
+								const isBusy = busyOfferId === offer.id;
+
+								return (
+									<tr key={offer.id} className="hover:bg-gray-50">
+										<td className="border px-4 py-2">{offer.coinId}</td>
+										<td className="border px-4 py-2">
+											{isBuyer ? offer.sellerName : offer.buyerName}
+										</td>
+										<td className="border px-4 py-2">
+											{isBuyer ? "Buying" : "Selling"}
+											{offer.parentId !== null && " (counter)"}
+										</td>
+										<td className="border px-4 py-2">
+											${offer.amount.toLocaleString()}
+										</td>
+										<td
+											className={`border px-4 py-2 capitalize ${STATUS_STYLES[offer.status]}`}
+										>
+											{offer.status}
+										</td>
+										<td className="border px-4 py-2">
+											{new Date(offer.expiresAt).toLocaleString()}
+										</td>
+										<td className="border px-4 py-2 whitespace-nowrap">
+											{offer.status === "pending" && view === "received" && (
+												<div className="flex gap-2">
+													<button
+														type="button"
+														disabled={isBusy}
+														onClick={() => answerOffer(offer, "accept")}
+														className="text-sm bg-green-500 hover:bg-green-600 text-white py-1 px-3 rounded disabled:opacity-50"
+													>
+														Accept
+													</button>
+													<button
+														type="button"
+														disabled={isBusy}
+														onClick={() => setCounterTarget(offer)}
+														className="text-sm bg-blue-500 hover:bg-blue-600 text-white py-1 px-3 rounded disabled:opacity-50"
+													>
+														Counter
+													</button>
+													<button
+														type="button"
+														disabled={isBusy}
+														onClick={() => answerOffer(offer, "reject")}
+														className="text-sm bg-red-600 hover:bg-red-700 text-white py-1 px-3 rounded disabled:opacity-50"
+													>
+														Reject
+													</button>
+												</div>
+											)}
+											{offer.status === "pending" && view === "mine" && (
+												<button
+													type="button"
+													disabled={isBusy}
+													onClick={() => answerOffer(offer, "cancel")}
+													className="text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 py-1 px-3 rounded disabled:opacity-50"
+												>
+													Withdraw
+												</button>
+											)}
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			<OfferModal
+				isOpen={counterTarget !== null}
+				onClose={() => setCounterTarget(null)}
+				coinId={counterTarget?.coinId ?? null}
+				counterOfferId={counterTarget?.id ?? null}
+				suggestedAmount={counterTarget?.amount}
+				onSuccess={(message) => {
+					setToast({ message, type: "success" });
+					setRefreshTrigger((prev) => prev + 1);
+				}}
+			/>
+
+			{toast && (
+				<Toast
+					message={toast.message}
+					type={toast.type}
+					onClose={() => setToast(null)}
+				/>
+			)}
+		</div>
+	);
+}
+
+export default OffersPage;
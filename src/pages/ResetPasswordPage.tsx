@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { resetPassword } from "../services/auth";
+
+export function ResetPasswordPage() {
+	const navigate = useNavigate();
+	const [searchParams] = useSearchParams();
+	const token = searchParams.get("token");
+	const [password, setPassword] = useState("");
+	const [confirmPassword, setConfirmPassword] = useState("");
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!token) {
+			return;
+		}
+
+		if (!password) {
+			setError("Password is required");
+			return;
+		}
+
+		if (password !== confirmPassword) {
+			setError("Passwords do not match");
+			return;
+		}
+
+		setError(null);
+		setIsLoading(true);
+
+		try {
+			await resetPassword(token, password);
+			setSuccess(true);
+			setTimeout(() => {
+				navigate("/login");
+			}, 2000);
+		} catch (error) {
+			setError(
+				error instanceof Error ? error.message : "Failed to reset password",
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const inputClassName =
+		"flex h-11 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-gray-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 transition-all";
+
+	return (
+		<div className="min-h-screen flex flex-col justify-center">
+			<div className="sm:mx-auto sm:w-full sm:max-w-md">
+				<h1 className="text-center text-3xl font-extrabold text-gray-900">
+					Choose a new password
+				</h1>
+				<p className="mt-2 text-center text-sm text-gray-600">
+					You will be signed out of every device once it is changed.
+				</p>
+			</div>
+
+			{(error || !token) && (
+				<div className="mt-6 sm:mx-auto sm:w-full sm:max-w-md">
+					<div
+						className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Error!</strong>
+						<span className="block sm:inline">
+							{" "}
+							{error ?? "This reset link is missing its token."}
+						</span>
+					</div>
+				</div>
+			)}
+
+			<div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+				{success ? (
+					<div
+						className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Success!</strong>
+						<span className="block sm:inline">
+							{" "}
+							Your password has been reset. Redirecting to login...
+						</span>
+					</div>
+				) : (
+					token && (
+						<div className="rounded-lg border bg-card text-card-foreground shadow-lg overflow-hidden">
+							<div className="p-8">
+								<form onSubmit={handleSubmit}>
+									<div className="flex flex-col gap-6">
+										<div className="grid gap-2">
+											<label htmlFor="password" className="text-sm font-medium">
+												New Password <span className="text-red-500">*</span>
+											</label>
+											<input
+												type="password"
+												id="password"
+												name="password"
+												value={password}
+												onChange={(e) => setPassword(e.target.value)}
+												autoComplete="new-password"
+												className={inputClassName}
+												placeholder="Enter a new password"
+											/>
+										</div>
+										<div className="grid gap-2">
+											<label
+												htmlFor="confirmPassword"
+												className="text-sm font-medium"
+											>
+												Confirm Password <span className="text-red-500">*</span>
+											</label>
+											<input
+												type="password"
+												id="confirmPassword"
+												name="confirmPassword"
+												value={confirmPassword}
+												onChange={(e) => setConfirmPassword(e.target.value)}
+												autoComplete="new-password"
+												className={inputClassName}
+												placeholder="Repeat the new password"
+											/>
+										</div>
+									</div>
+									<button
+										type="submit"
+										disabled={isLoading}
+										className="flex items-center justify-center rounded-md bg-blue-600 text-white hover:bg-blue-700 h-11 w-full mt-6 text-sm font-medium transition-colors disabled:opacity-50"
+									>
+										{isLoading ? "Saving..." : "Reset password"}
+									</button>
+								</form>
+							</div>
+						</div>
+					)
+				)}
+				<div className="mt-6 text-center text-sm">
+					<Link
+						to="/forgot-password"
+						className="text-primary font-medium hover:underline underline-offset-4 transition-all"
+					>
+						Request a new link
+					</Link>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export default ResetPasswordPage;
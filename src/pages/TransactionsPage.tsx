@@ -1,15 +1,20 @@
-import { useState, useEffect, useMemo } from "react";
-import type { Transaction } from "../types";
+import { useState, useEffect, useRef } from "react";
+import type { SortColumn, Transaction } from "../types";
 import { Toast } from "../components/Toast";
+import { SortButton, appendSortParams } from "../components/SortButton";
+import { useTransactionStream } from "../services/live";
 
 const ENDPOINT_URL = "http://localhost:3000/";
 
 const PAGE_SIZE_OPTIONS = [15, 30, 50];
 
-// Fetch transactions with pagination and filters
+const NEWEST_FIRST: SortColumn[] = [{ field: "date", order: "desc" }];
+
+// Fetch the transactions following a cursor, or the newest ones without one
 function fetchTransactionsPage(
-	page: number,
+	after: string | null,
 	pageSize: number,
+	sort: SortColumn[],
 	filters: {
 		startDate?: string;
 		endDate?: string;
@@ -18,11 +23,16 @@ function fetchTransactionsPage(
 		buyerName?: string;
 		sellerName?: string;
 	},
-): Promise<{ transactions: Transaction[]; total: number }> {
+): Promise<{
+	transactions: Transaction[];
+	total: number;
+	nextCursor: string | null;
+}> {
 	// Build query parameters
 	const params = new URLSearchParams();
-	params.append("page", page.toString());
 	params.append("pageSize", pageSize.toString());
+	if (after) params.append("after", after);
+	appendSortParams(params, sort);
 
 	// Add filters to query parameters if they exist
 	if (filters.startDate) params.append("startDate", filters.startDate);
@@ -41,16 +51,17 @@ function fetchTransactionsPage(
 }
 
 // Custom hook to manage transactions state and fetch data
-function useTransactions(
-	initialPage = 1,
-	initialPageSize = PAGE_SIZE_OPTIONS[0],
-) {
+function useTransactions(initialPageSize = PAGE_SIZE_OPTIONS[0]) {
 	const [transactions, setTransactions] = useState<Transaction[]>([]);
 	const [loading, setLoading] = useState(true);
+	const [loadingMore, setLoadingMore] = useState(false);
 	const [error, setError] = useState<Error | null>(null);
-	const [page, setPage] = useState(initialPage);
 	const [pageSize, setPageSize] = useState(initialPageSize);
 	const [totalTransactions, setTotalTransactions] = useState(0);
+	// Matching transactions that arrived with no known place in the list
+	const [newTransactions, setNewTransactions] = useState(0);
+	// Where the next batch starts, null once the oldest row is loaded
+	const [nextCursor, setNextCursor] = useState<string | null>(null);
 	const [filters, setFilters] = useState({
 		startDate: "",
 		endDate: "",
@@ -59,17 +70,21 @@ function useTransactions(
 		buyerName: "",
 		sellerName: "",
 	});
+	const [sort, setSort] = useState(NEWEST_FIRST);
+	// Bumped on every reload, so batches for earlier filters are dropped
+	const generationRef = useRef(0);
 
-	const fetchPage = (
-		pageNum: number,
-		size: number,
-		currentFilters = filters,
-	) => {
+	const reload = () => {
+		const generation = ++generationRef.current;
 		setLoading(true);
-		fetchTransactionsPage(pageNum, size, currentFilters)
+		setLoadingMore(false);
+		setNewTransactions(0);
+		fetchTransactionsPage(null, pageSize, sort, filters)
 			.then((data) => {
+				if (generation !== generationRef.current) return;
 				setTransactions(data.transactions);
 				setTotalTransactions(data.total);
+				setNextCursor(data.nextCursor);
 				setLoading(false);
 			})
 			.catch((err) => {
@@ -78,27 +93,74 @@ function useTransactions(
 			});
 	};
 
-	useEffect(() => {
-		fetchPage(page, pageSize);
-	}, [page, pageSize, filters]);
+	// Rows are keyed by date and id, so arrivals at the top never shift
+	// the batch that follows the last loaded row
+	const loadMore = () => {
+		if (!nextCursor || loading || loadingMore) return;
 
-	// Apply filters and reset to page 1
-	const applyFilters = (newFilters: typeof filters) => {
-		setFilters(newFilters);
-		setPage(1);
+		const generation = generationRef.current;
+		setLoadingMore(true);
+		fetchTransactionsPage(nextCursor, pageSize, sort, filters)
+			.then((data) => {
+				if (generation !== generationRef.current) return;
+				setTransactions((prev) => {
+					const loaded = new Set(prev.map((row) => row.id));
+					return [
+						...prev,
+						...data.transactions.filter((row) => !loaded.has(row.id)),
+					];
+				});
+				setTotalTransactions(data.total);
+				setNextCursor(data.nextCursor);
+				setLoadingMore(false);
+			})
+			.catch((err) => {
+				setError(err);
+				setLoadingMore(false);
+			});
 	};
 
+	useEffect(() => {
+		reload();
+	}, [pageSize, filters, sort]);
+
+	// New transactions are the newest, so they belong at the top. Sorted
+	// any other way, their place is unknown until the next reload, so they
+	// are only counted.
+	useTransactionStream(filters, {
+		onTransaction: (transaction) => {
+			setTotalTransactions((prev) => prev + 1);
+			const [first] = sort;
+			if (sort.length > 1 || first.field !== "date" || first.order !== "desc") {
+				setNewTransactions((prev) => prev + 1);
+				return;
+			}
+
+			setTransactions((prev) =>
+				prev.some((row) => row.id === transaction.id)
+					? prev
+					: [transaction, ...prev],
+			);
+		},
+		onStale: reload,
+	});
+
 	return {
 		transactions,
 		loading,
+		loadingMore,
 		error,
-		page,
 		pageSize,
 		totalTransactions,
+		newTransactions,
+		hasMore: nextCursor !== null,
 		filters,
-		setPage,
+		sort,
 		setPageSize,
-		applyFilters,
+		setSort,
+		applyFilters: setFilters,
+		loadMore,
+		reload,
 	};
 }
 
@@ -106,14 +168,19 @@ export function TransactionsPage() {
 	const {
 		transactions,
 		loading,
+		loadingMore,
 		error,
-		page,
 		pageSize,
 		totalTransactions,
+		newTransactions,
+		hasMore,
 		filters,
-		setPage,
+		sort,
 		setPageSize,
+		setSort,
 		applyFilters,
+		loadMore,
+		reload,
 	} = useTransactions();
 
 	const [loadingTime, setLoadingTime] = useState(0);
@@ -157,29 +224,33 @@ export function TransactionsPage() {
 		}
 	}, [error]);
 
-	const totalPages = Math.ceil(totalTransactions / pageSize);
-
-	// Handle page change
-	const handlePrevPage = () => {
-		if (page > 1) setPage(page - 1);
-	};
-
-	const handleNextPage = () => {
-		if (page < totalPages) setPage(page + 1);
-	};
+	// Load the next batch once the end of the list scrolls into view
+	const sentinelRef = useRef<HTMLDivElement>(null);
+	const loadMoreRef = useRef(loadMore);
+	loadMoreRef.current = loadMore;
 
-	// Handle specific page change
-	const handlePageChange = (newPage: number) => {
-		if (newPage > 0 && newPage <= totalPages) {
-			setPage(newPage);
+	// Observe once the list is on screen, and anew after each batch: a fresh
+	// observer fires right away if the end is still in view
+	useEffect(() => {
+		const sentinel = sentinelRef.current;
+		if (loading || !sentinel || !hasMore || transactions.length === 0) {
+			return;
 		}
-	};
+
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries[0].isIntersecting) loadMoreRef.current();
+			},
+			{ rootMargin: "200px" },
+		);
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [loading, hasMore, transactions.length]);
 
 	// Handle page size change
 	const handlePageSizeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
 		const newSize = Number.parseInt(e.target.value);
 		setPageSize(newSize);
-		setPage(1);
 	};
 
 	// Handle filter changes
@@ -222,38 +293,6 @@ export function TransactionsPage() {
 		applyFilters(resetFilters);
 	};
 
-	// Generate page numbers for pagination display
-	const pageNumbers = useMemo(() => {
-		const visiblePages = [];
-
-		// Always show first page
-		visiblePages.push(1);
-
-		// Calculate start and end pages to show
-		const startPage = Math.max(2, page - 2);
-		const endPage = Math.min(totalPages - 1, page + 2);
-
-		if (startPage > 2) {
-			visiblePages.push(-1);
-		}
-
-		// Add middle pages
-		for (let i = startPage; i <= endPage; i++) {
-			visiblePages.push(i);
-		}
-
-		if (endPage < totalPages - 1) {
-			visiblePages.push(-2);
-		}
-
-		// Add last page if there's more than one page
-		if (totalPages > 1) {
-			visiblePages.push(totalPages);
-		}
-
-		return visiblePages;
-	}, [page, totalPages]);
-
 	if (loading) {
 		return (
 			<div className="flex flex-col justify-center items-center h-screen bg-gray-50">
@@ -395,11 +434,24 @@ export function TransactionsPage() {
 				</form>
 			</div>
 
-			{/* Pagination and page size controls */}
+			{newTransactions > 0 && (
+				<button
+					type="button"
+					onClick={reload}
+					className="w-full bg-blue-50 border border-blue-200 text-blue-700 hover:bg-blue-100 rounded-lg px-4 py-2 mb-4 text-center transition duration-150 ease-in-out"
+				>
+					{newTransactions === 1
+						? "1 new transaction"
+						: `${newTransactions} new transactions`}{" "}
+					- reload to show them
+				</button>
+			)}
+
+			{/* Batch size and progress */}
 			<div className="flex justify-between items-center mb-4">
 				<div className="flex items-center">
 					<label htmlFor="pageSize" className="mr-2 text-gray-600">
-						Show:
+						Load:
 					</label>
 					<select
 						id="pageSize"
@@ -409,38 +461,14 @@ export function TransactionsPage() {
 					>
 						{PAGE_SIZE_OPTIONS.map((size) => (
 							<option key={size} value={size}>
-								{size}
+								{size} at a time
 							</option>
 						))}
 					</select>
 				</div>
-				<div className="flex items-center">
-					<span className="text-gray-600 mr-4">
-						Page {page} of {totalPages} ({totalTransactions} total)
-					</span>
-					<div className="flex space-x-2">
-						<button
-							onClick={handlePrevPage}
-							disabled={page <= 1}
-							className={`px-3 py-1 rounded ${page <= 1
-								? "bg-gray-200 text-gray-500 cursor-not-allowed"
-								: "bg-gray-800 text-white hover:bg-gray-700"
-								}`}
-						>
-							Prev
-						</button>
-						<button
-							onClick={handleNextPage}
-							disabled={page >= totalPages}
-							className={`px-3 py-1 rounded ${page >= totalPages
-								? "bg-gray-200 text-gray-500 cursor-not-allowed"
-								: "bg-gray-800 text-white hover:bg-gray-700"
-								}`}
-						>
-							Next
-						</button>
-					</div>
-				</div>
+				<span className="text-gray-600">
+					Showing {transactions.length} of {totalTransactions}
+				</span>
 			</div>
 
 			{transactions.length === 0 ? (
@@ -461,16 +489,55 @@ export function TransactionsPage() {
 				<div className="rounded-lg shadow-md">
 					{/* Table header - visible only on medium screens and up */}
 					<div className="hidden md:flex bg-gray-800 text-white rounded-t-lg">
-						<div className="p-3 md:p-4 w-14 md:w-[10%] text-left">ID</div>
-						<div className="p-3 md:p-4 w-[25%] text-left">BitSlow</div>
+						<div className="p-3 md:p-4 w-14 md:w-[10%] text-left">
+							<SortButton field="id" label="ID" sort={sort} onSort={setSort} />
+						</div>
+						<div className="p-3 md:p-4 w-[25%] text-left space-x-3">
+							<SortButton
+								field="coin"
+								label="BitSlow"
+								sort={sort}
+								onSort={setSort}
+							/>
+							<SortButton
+								field="value"
+								label="Value"
+								sort={sort}
+								onSort={setSort}
+							/>
+						</div>
 						<div className="p-3 md:p-4 w-[15%] text-left hidden lg:block">
-							Seller
+							<SortButton
+								field="seller"
+								label="Seller"
+								sort={sort}
+								onSort={setSort}
+							/>
 						</div>
 						<div className="p-3 md:p-4 w-[15%] text-left hidden lg:block">
-							Buyer
+							<SortButton
+								field="buyer"
+								label="Buyer"
+								sort={sort}
+								onSort={setSort}
+							/>
+						</div>
+						<div className="p-3 md:p-4 w-[15%] text-right">
+							<SortButton
+								field="amount"
+								label="Amount"
+								sort={sort}
+								onSort={setSort}
+							/>
+						</div>
+						<div className="p-3 md:p-4 flex-grow text-left">
+							<SortButton
+								field="date"
+								label="Date"
+								sort={sort}
+								onSort={setSort}
+							/>
 						</div>
-						<div className="p-3 md:p-4 w-[15%] text-right">Amount</div>
-						<div className="p-3 md:p-4 flex-grow text-left">Date</div>
 					</div>
 
 					{/* Responsive transaction items */}
@@ -562,56 +629,27 @@ export function TransactionsPage() {
 				</div>
 			)}
 
-			{/* Pagination controls */}
-			{totalPages > 1 && (
-				<div className="flex justify-center mt-6">
-					<nav className="flex items-center">
-						<button
-							onClick={handlePrevPage}
-							disabled={page <= 1}
-							className={`px-3 py-1 rounded-l-md border ${page <= 1
-								? "bg-gray-100 text-gray-400 cursor-not-allowed"
-								: "bg-white text-gray-700 hover:bg-gray-50"
-								}`}
-						>
-							Previous
-						</button>
-
-						{pageNumbers.map((pageNum, idx) =>
-							pageNum < 0 ? (
-								<span
-									key={`ellipsis-${idx}`}
-									className="px-3 py-1 border-t border-b bg-white text-gray-700"
-								>
-									...
-								</span>
-							) : (
-								<button
-									key={pageNum}
-									onClick={() => handlePageChange(pageNum)}
-									className={`px-3 py-1 border-t border-b border-r ${page === pageNum
-										? "bg-blue-500 text-white"
-										: "bg-white text-gray-700 hover:bg-gray-50"
-										}`}
-								>
-									{pageNum}
-								</button>
-							),
-						)}
-
-						<button
-							onClick={handleNextPage}
-							disabled={page >= totalPages}
-							className={`px-3 py-1 rounded-r-md border-t border-r border-b ${page >= totalPages
-								? "bg-gray-100 text-gray-400 cursor-not-allowed"
-								: "bg-white text-gray-700 hover:bg-gray-50"
-								}`}
-						>
-							Next
-						</button>
-					</nav>
-				</div>
-			)}
+			{/* Infinite scroll */}
+			<div ref={sentinelRef} className="flex justify-center mt-6">
+				{loadingMore ? (
+					<div className="flex items-center text-gray-600">
+						<div className="w-5 h-5 mr-2 border-t-2 border-b-2 border-blue-500 rounded-full animate-spin" />
+						Loading more transactions...
+					</div>
+				) : hasMore ? (
+					<button
+						type="button"
+						onClick={loadMore}
+						className="px-4 py-2 rounded bg-gray-800 text-white hover:bg-gray-700"
+					>
+						Load more
+					</button>
+				) : (
+					transactions.length > 0 && (
+						<p className="text-sm text-gray-500">That's every transaction</p>
+					)
+				)}
+			</div>
 
 			{toast && (
 				<Toast
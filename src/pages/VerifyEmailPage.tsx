@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { verifyEmail } from "../services/auth";
+
+export function VerifyEmailPage() {
+	const [searchParams] = useSearchParams();
+	const token = searchParams.get("token");
+	const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+		"verifying",
+	);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!token) {
+			setStatus("failed");
+			setError("This verification link is missing its token.");
+			return;
+		}
+
+		verifyEmail(token)
+			.then(() => setStatus("verified"))
+			.catch((error) => {
+				setStatus("failed");
+				setError(
+					error instanceof Error ? error.message : "Failed to verify email",
+				);
+			});
+	}, [token]);
+
+	return (
+		<div className="min-h-screen flex flex-col justify-center">
+			<div className="sm:mx-auto sm:w-full sm:max-w-md">
+				<h1 className="text-center text-3xl font-extrabold text-gray-900">
+					Email verification
+				</h1>
+			</div>
+
+			<div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+				{status === "verifying" && (
+					<p className="text-center text-gray-500">Verifying your email...</p>
+				)}
+				{status === "verified" && (
+					<div
+						className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Success!</strong>
+						<span className="block sm:inline">
+							{" "}
+							Your email address has been confirmed.
+						</span>
+					</div>
+				)}
+				{status === "failed" && (
+					<div
+						className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative"
+						role="alert"
+					>
+						<strong className="font-bold">Error!</strong>
+						<span className="block sm:inline"> {error}</span>
+					</div>
+				)}
+				<div className="mt-6 text-center text-sm">
+					<Link
+						to="/"
+						className="text-primary font-medium hover:underline underline-offset-4 transition-all"
+					>
+						Go to BitSlow
+					</Link>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export default VerifyEmailPage;
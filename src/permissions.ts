@@ -0,0 +1,51 @@
+export const ROLES = ["user", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Privileged actions a route can require
+export type Permission =
+	| "accounts:moderate"
+	| "coins:manage"
+	| "transactions:void"
+	| "audit:read";
+
+// What each role may do, ordinary users only act on their own data
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+	user: [],
+	admin: [
+		"accounts:moderate",
+		"coins:manage",
+		"transactions:void",
+		"audit:read",
+	],
+};
+
+// What an API key may be used for, each route that accepts keys names one
+export const API_KEY_SCOPES = ["read", "trade", "mint"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Narrow an unchecked string, e.g. a database column, to a known role
+ * @param value Role name to check
+ */
+export function isRole(value: string): value is Role {
+	return (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role grants a permission
+ * @param role Role of the caller
+ * @param permission Permission the action needs
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+	return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Narrow an unchecked value, e.g. from a request body, to a known API key scope
+ * @param value Scope name to check
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+	return (API_KEY_SCOPES as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,61 @@
+import type { Database } from "bun:sqlite";
+import { openDatabase } from "./db";
+import { TokenManager } from "./utils/auth_token";
+
+export type PromotionResult = "promoted" | "already_admin" | "not_found";
+
+/**
+ * Give a client the admin role and sign them out, so their next login carries it
+ * @param db SQLite database instance
+ * @param email Email of the client to promote
+ */
+export async function promoteToAdmin(
+	db: Database,
+	email: string,
+): Promise<PromotionResult> {
+	const client = db
+		.query<{ id: number; role: string }, string>(
+			"SELECT id, role FROM clients WHERE email = ?",
+		)
+		.get(email);
+
+	if (!client) {
+		return "not_found";
+	}
+
+	if (client.role === "admin") {
+		return "already_admin";
+	}
+
+	db.query("UPDATE clients SET role = 'admin' WHERE id = ?").run(client.id);
+	await TokenManager.revokeAllSessions(client.id);
+
+	return "promoted";
+}
+
+// Bootstrap an admin from the command line: `bun run promote-admin <email>`
+if (import.meta.main) {
+	const email = process.argv[2];
+
+	if (!email) {
+		console.error("Usage: bun run promote-admin <email>");
+		process.exit(1);
+	}
+
+	const db = openDatabase();
+	TokenManager.initialize(db);
+
+	const result = await promoteToAdmin(db, email);
+	db.close();
+
+	if (result === "not_found") {
+		console.error(`❌ No client with email ${email}`);
+		process.exit(1);
+	}
+
+	console.log(
+		result === "promoted"
+			? `👑 ${email} is now an admin`
+			: `👑 ${email} is already an admin`,
+	);
+}
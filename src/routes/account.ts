@@ -0,0 +1,246 @@
+import type { Database } from "bun:sqlite";
+import type { Server } from "bun";
+import {
+	getAppUrl,
+	resetPassword,
+	sendPasswordResetEmail,
+	sendVerificationEmail,
+	verifyEmail,
+} from "../email_tokens";
+import { TokenManager } from "../utils/auth_token";
+import type { Mailer } from "../utils/mailer";
+import { RateLimiter } from "../utils/rate_limiter";
+import { getClientIp, tooManyRequests, withAuth } from "./middleware";
+
+/**
+ * Password reset and email verification routes
+ * @param db SQLite database instance
+ * @param mailer Mailer used to send reset and verification links
+ */
+export function accountRoutes(db: Database, mailer: Mailer) {
+	// Reset emails requested per IP
+	const forgotIpLimiter = new RateLimiter({
+		windowMs: 60 * 60 * 1000,
+		max: 10,
+	});
+
+	// Reset emails sent to one address, wherever they are requested from
+	const forgotEmailLimiter = new RateLimiter({
+		windowMs: 60 * 60 * 1000,
+		max: 3,
+	});
+
+	return {
+		"/api/password/forgot": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to request a password reset", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request, server: Server<unknown>) => {
+				const byIp = forgotIpLimiter.consume(getClientIp(req, server));
+				if (!byIp.allowed) {
+					return tooManyRequests(
+						byIp,
+						"Too many password reset requests, please try again later",
+					);
+				}
+
+				try {
+					const data = await req.json();
+
+					if (!data.email || typeof data.email !== "string") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Email is required" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Counted whether or not the account exists, so this reveals nothing
+					const byEmail = forgotEmailLimiter.consume(data.email.toLowerCase());
+					if (!byEmail.allowed) {
+						return tooManyRequests(
+							byEmail,
+							"Too many password reset requests, please try again later",
+						);
+					}
+
+					await sendPasswordResetEmail(db, mailer, data.email, getAppUrl());
+
+					// Same answer either way, so this cannot be used to find accounts
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message:
+								"If an account exists for that email, a reset link has been sent",
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error requesting password reset:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while requesting password reset",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/password/reset": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to reset your password", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request) => {
+				try {
+					const data = await req.json();
+
+					if (
+						!data.token ||
+						!data.password ||
+						typeof data.token !== "string" ||
+						typeof data.password !== "string"
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Token and new password are required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const clientId = await resetPassword(db, data.token, data.password);
+
+					if (clientId === null) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Reset link is invalid or has expired",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Sign out everywhere, the old password may have been compromised
+					await TokenManager.revokeAllSessions(clientId);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Password has been reset, please log in",
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error resetting password:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while resetting password",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/email/verify": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to verify your email", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request) => {
+				try {
+					const data = await req.json();
+
+					if (!data.token || typeof data.token !== "string") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Token is required" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (verifyEmail(db, data.token) === null) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Verification link is invalid or has expired",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({ success: true, message: "Email verified" }),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error verifying email:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while verifying email",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/email/resend": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to resend the verification email", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const sent = await sendVerificationEmail(
+						db,
+						mailer,
+						userData.userId,
+						getAppUrl(),
+					);
+
+					if (!sent) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Email is already verified",
+							}),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Verification email sent",
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error resending verification email:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while sending verification email",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
@@ -0,0 +1,392 @@
+import type { Database } from "bun:sqlite";
+import type { Server } from "bun";
+import {
+	type AdminAction,
+	type AdminResult,
+	burnCoin,
+	forceLogout,
+	reassignCoin,
+	suspendClient,
+	unsuspendClient,
+	voidTransaction,
+} from "../admin";
+import {
+	AUDIT_EVENT_TYPES,
+	type AuditEventType,
+	listAuditEvents,
+	recordAuditEvent,
+	verifyAuditChain,
+} from "../audit";
+import type { Permission } from "../permissions";
+import {
+	COIN_LIST_TAG,
+	TRANSACTION_LIST_TAG,
+	coinCache,
+	coinTag,
+	sortTag,
+	transactionCache,
+} from "./cache";
+import {
+	type AuthenticatedUser,
+	getAuditContext,
+	withPermission,
+} from "./middleware";
+
+type AdminActionHandler = (
+	data: Record<string, unknown>,
+	reason: string,
+	admin: AuthenticatedUser,
+) => AdminResult | Promise<AdminResult>;
+
+// Read page and pageSize the way the public list endpoints do
+function getPagination(req: Request): {
+	page: number;
+	pageSize: number;
+	offset: number;
+} {
+	const url = new URL(req.url);
+	const page = Number.parseInt(url.searchParams.get("page") || "1");
+	const pageSize = Number.parseInt(url.searchParams.get("pageSize") || "20");
+
+	const validPage = page > 0 ? page : 1;
+	const validPageSize = pageSize > 0 && pageSize <= 100 ? pageSize : 20;
+
+	return {
+		page: validPage,
+		pageSize: validPageSize,
+		offset: (validPage - 1) * validPageSize,
+	};
+}
+
+// IDs arrive as JSON numbers, anything else is treated as missing
+function getId(data: Record<string, unknown>, field: string): number | null {
+	const value = data[field];
+	return typeof value === "number" && Number.isInteger(value) && value > 0
+		? value
+		: null;
+}
+
+function badRequest(message: string): Response {
+	return new Response(JSON.stringify({ success: false, message }), {
+		status: 400,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+function postOnly(message: string): () => Response {
+	// These endpoints are not meant to be accessed directly via GET
+	return () =>
+		new Response(message, {
+			status: 405,
+			headers: { "Content-Type": "text/plain" },
+		});
+}
+
+// The targets an action names, kept with it in the audit log
+const TARGET_FIELDS = ["client_id", "coin_id", "transaction_id"] as const;
+
+/**
+ * Wrap an admin action so it requires a permission and a reason,
+ * audit it once it succeeds, and answer its result with the matching status code
+ * @param db SQLite database instance
+ * @param permission Permission the action requires
+ * @param action Which action this is
+ * @param perform Runs the action once the request is validated
+ */
+function adminAction(
+	db: Database,
+	permission: Permission,
+	action: AdminAction,
+	perform: AdminActionHandler,
+): (req: Request, server: Server<unknown>) => Promise<Response> {
+	const description = action.replace("_", " ");
+
+	return withPermission(permission, async (req, admin, server) => {
+		try {
+			const data = await req.json();
+			const reason = typeof data.reason === "string" ? data.reason.trim() : "";
+
+			if (!reason) {
+				return badRequest("A reason is required");
+			}
+
+			const result = await perform(data, reason, admin);
+
+			if (result.status === "not_found") {
+				return new Response(
+					JSON.stringify({ success: false, message: "Not found" }),
+					{ status: 404, headers: { "Content-Type": "application/json" } },
+				);
+			}
+
+			if (result.status === "conflict") {
+				return new Response(
+					JSON.stringify({ success: false, message: result.message }),
+					{ status: 409, headers: { "Content-Type": "application/json" } },
+				);
+			}
+
+			const targets = Object.fromEntries(
+				TARGET_FIELDS.map((field) => [field, getId(data, field)]).filter(
+					([, id]) => id !== null,
+				),
+			);
+			recordAuditEvent(
+				db,
+				"admin_action",
+				getAuditContext(req, server, admin.userId),
+				{ action, reason, ...targets },
+			);
+
+			return Response.json({ success: true });
+		} catch (error) {
+			console.error(`Error trying to ${description}:`, error);
+			return new Response(
+				JSON.stringify({
+					success: false,
+					message: `Server error while trying to ${description}`,
+				}),
+				{ status: 500, headers: { "Content-Type": "application/json" } },
+			);
+		}
+	});
+}
+
+// Coin and transaction changes show up on the public pages right away
+function invalidateCaches(
+	result: AdminResult,
+	coinTags: string[],
+	transactionTags: string[] = [],
+): AdminResult {
+	if (result.status === "ok") {
+		for (const tag of coinTags) coinCache.invalidate(tag);
+		for (const tag of transactionTags) transactionCache.invalidate(tag);
+	}
+	return result;
+}
+
+/**
+ * Admin console routes for moderating accounts, coins and transactions
+ * @param db SQLite database instance
+ */
+export function adminRoutes(db: Database) {
+	return {
+		"/api/admin/clients": {
+			GET: withPermission("accounts:moderate", async (req) => {
+				const { page, pageSize, offset } = getPagination(req);
+
+				const { total } = db
+					.query("SELECT COUNT(*) as total FROM clients")
+					.get() as { total: number };
+
+				const clients = db
+					.query(`
+            SELECT id, name, email, role, cash_balance, suspended_at,
+              email_verified_at, created_at
+            FROM clients
+            ORDER BY id
+            LIMIT ? OFFSET ?
+          `)
+					.all(pageSize, offset);
+
+				return Response.json({ clients, total, page, pageSize });
+			}),
+		},
+		"/api/admin/coins": {
+			GET: withPermission("coins:manage", async (req) => {
+				const { page, pageSize, offset } = getPagination(req);
+
+				const { total } = db
+					.query("SELECT COUNT(*) as total FROM coins")
+					.get() as { total: number };
+
+				const coins = db
+					.query(`
+            SELECT c.coin_id, c.value, c.bit1, c.bit2, c.bit3, c.asking_price,
+              c.burned_at, c.client_id, cl.name as owner_name
+            FROM coins c
+            LEFT JOIN clients cl ON c.client_id = cl.id
+            ORDER BY c.coin_id
+            LIMIT ? OFFSET ?
+          `)
+					.all(pageSize, offset);
+
+				return Response.json({ coins, total, page, pageSize });
+			}),
+		},
+		"/api/admin/transactions": {
+			GET: withPermission("transactions:void", async (req) => {
+				const { page, pageSize, offset } = getPagination(req);
+
+				const { total } = db
+					.query("SELECT COUNT(*) as total FROM transactions")
+					.get() as { total: number };
+
+				const transactions = db
+					.query(`
+            SELECT t.id, t.coin_id, t.amount, t.transaction_date, t.kind,
+              t.voided_at, seller.name as seller_name, buyer.name as buyer_name
+            FROM transactions t
+            LEFT JOIN clients seller ON t.seller_id = seller.id
+            JOIN clients buyer ON t.buyer_id = buyer.id
+            ORDER BY t.transaction_date DESC, t.id DESC
+            LIMIT ? OFFSET ?
+          `)
+					.all(pageSize, offset);
+
+				return Response.json({ transactions, total, page, pageSize });
+			}),
+		},
+		"/api/admin/clients/suspend": {
+			GET: postOnly("Use POST to suspend a client"),
+			POST: adminAction(
+				db,
+				"accounts:moderate",
+				"suspend_client",
+				(data, reason, admin) => {
+					const clientId = getId(data, "client_id");
+					return clientId === null
+						? { status: "not_found" }
+						: suspendClient(db, admin.userId, clientId, reason);
+				},
+			),
+		},
+		"/api/admin/clients/unsuspend": {
+			GET: postOnly("Use POST to lift a suspension"),
+			POST: adminAction(
+				db,
+				"accounts:moderate",
+				"unsuspend_client",
+				(data, reason, admin) => {
+					const clientId = getId(data, "client_id");
+					return clientId === null
+						? { status: "not_found" }
+						: unsuspendClient(db, admin.userId, clientId, reason);
+				},
+			),
+		},
+		"/api/admin/clients/logout": {
+			GET: postOnly("Use POST to sign a client out"),
+			POST: adminAction(
+				db,
+				"accounts:moderate",
+				"force_logout",
+				(data, reason, admin) => {
+					const clientId = getId(data, "client_id");
+					return clientId === null
+						? { status: "not_found" }
+						: forceLogout(db, admin.userId, clientId, reason);
+				},
+			),
+		},
+		"/api/admin/coins/reassign": {
+			GET: postOnly("Use POST to reassign a coin"),
+			POST: adminAction(
+				db,
+				"coins:manage",
+				"reassign_coin",
+				(data, reason, admin) => {
+					const coinId = getId(data, "coin_id");
+					const clientId = getId(data, "client_id");
+					if (coinId === null) {
+						return { status: "not_found" };
+					}
+					if (clientId === null) {
+						return { status: "conflict", message: "New owner is required" };
+					}
+					return invalidateCaches(
+						reassignCoin(db, admin.userId, coinId, clientId, reason),
+						[coinTag(coinId), sortTag("owner")],
+						[TRANSACTION_LIST_TAG],
+					);
+				},
+			),
+		},
+		"/api/admin/coins/burn": {
+			GET: postOnly("Use POST to burn a coin"),
+			POST: adminAction(
+				db,
+				"coins:manage",
+				"burn_coin",
+				(data, reason, admin) => {
+					const coinId = getId(data, "coin_id");
+					return coinId === null
+						? { status: "not_found" }
+						: invalidateCaches(burnCoin(db, admin.userId, coinId, reason), [
+								COIN_LIST_TAG,
+							]);
+				},
+			),
+		},
+		"/api/admin/transactions/void": {
+			GET: postOnly("Use POST to void a transaction"),
+			POST: adminAction(
+				db,
+				"transactions:void",
+				"void_transaction",
+				(data, reason, admin) => {
+					const transactionId = getId(data, "transaction_id");
+					// Voiding drops a listed sale and may return or burn the coin
+					return transactionId === null
+						? { status: "not_found" }
+						: invalidateCaches(
+								voidTransaction(db, admin.userId, transactionId, reason),
+								[COIN_LIST_TAG],
+								[TRANSACTION_LIST_TAG],
+							);
+				},
+			),
+		},
+		"/api/admin/audit": {
+			GET: withPermission("audit:read", async (req) => {
+				const { page, pageSize } = getPagination(req);
+				const url = new URL(req.url);
+				const eventType = url.searchParams.get("eventType");
+				const actorId = url.searchParams.get("actorId");
+
+				if (
+					eventType &&
+					!AUDIT_EVENT_TYPES.includes(eventType as AuditEventType)
+				) {
+					return badRequest("Unknown event type");
+				}
+
+				const { events, total } = listAuditEvents(
+					db,
+					{
+						eventType: eventType as AuditEventType | null,
+						actorId: actorId ? Number.parseInt(actorId) : null,
+						startDate: url.searchParams.get("startDate"),
+						endDate: url.searchParams.get("endDate"),
+					},
+					page,
+					pageSize,
+				);
+
+				return Response.json({ events, total, page, pageSize });
+			}),
+		},
+		"/api/admin/audit/verify": {
+			GET: withPermission("audit:read", async () => {
+				return Response.json(verifyAuditChain(db));
+			}),
+		},
+		"/api/admin/cache": {
+			GET: withPermission("coins:manage", async () => {
+				return Response.json({
+					coins: coinCache.stats(),
+					transactions: transactionCache.stats(),
+				});
+			}),
+		},
+		// For edits made to the database by hand, which no event announces
+		"/api/admin/cache/clear": {
+			GET: postOnly("Use POST to clear the caches"),
+			POST: withPermission("coins:manage", async () => {
+				coinCache.clear();
+				transactionCache.clear();
+				return Response.json({ success: true });
+			}),
+		},
+	};
+}
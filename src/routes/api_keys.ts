@@ -0,0 +1,173 @@
+import { isApiKeyScope } from "../permissions";
+import { type ApiKeyData, TokenManager } from "../utils/auth_token";
+import { withAuth } from "./middleware";
+
+// Keys can be set to expire after at most a year, or never
+const MAX_EXPIRY_DAYS = 365;
+
+// The parts of a key that are safe to show again after creation
+function toApiKeyJson(apiKey: ApiKeyData) {
+	return {
+		id: apiKey.id,
+		name: apiKey.name,
+		prefix: apiKey.prefix,
+		scopes: apiKey.scopes,
+		createdAt: new Date(apiKey.createdAt).toISOString(),
+		expiresAt:
+			apiKey.expiresAt === null
+				? null
+				: new Date(apiKey.expiresAt).toISOString(),
+		lastUsedAt:
+			apiKey.lastUsedAt === null
+				? null
+				: new Date(apiKey.lastUsedAt).toISOString(),
+	};
+}
+
+function badRequest(message: string): Response {
+	return new Response(JSON.stringify({ success: false, message }), {
+		status: 400,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+/**
+ * Routes for creating, listing and revoking the signed-in client's API keys.
+ * Keys cannot manage keys, so these only accept a session.
+ */
+export function apiKeyRoutes() {
+	return {
+		"/api/keys": {
+			GET: withAuth(async (_req, userData) => {
+				const keys = await TokenManager.listApiKeys(userData.userId);
+
+				return Response.json({ keys: keys.map(toApiKeyJson) });
+			}),
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const name = typeof data.name === "string" ? data.name.trim() : "";
+
+					if (!name || name.length > 50) {
+						return badRequest("Name must be between 1 and 50 characters");
+					}
+
+					if (
+						!Array.isArray(data.scopes) ||
+						data.scopes.length === 0 ||
+						!data.scopes.every(isApiKeyScope)
+					) {
+						return badRequest("Pick at least one of read, trade or mint");
+					}
+
+					const expiresInDays = data.expiresInDays ?? null;
+					if (
+						expiresInDays !== null &&
+						(!Number.isInteger(expiresInDays) ||
+							expiresInDays < 1 ||
+							expiresInDays > MAX_EXPIRY_DAYS)
+					) {
+						return badRequest(
+							`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`,
+						);
+					}
+
+					const result = await TokenManager.createApiKey(
+						userData.userId,
+						userData.email,
+						userData.role,
+						{
+							name,
+							scopes: [...new Set(data.scopes)].filter(isApiKeyScope),
+							expiresAt:
+								expiresInDays === null
+									? null
+									: Date.now() + expiresInDays * 24 * 60 * 60 * 1000,
+						},
+					);
+
+					if (result.status === "limit_reached") {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Revoke an API key before creating another",
+							}),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// The key is only ever returned here, it is stored hashed
+					return new Response(
+						JSON.stringify({
+							success: true,
+							key: result.key,
+							apiKey: toApiKeyJson(result.apiKey),
+						}),
+						{ status: 201, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error creating API key:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while creating API key",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+		"/api/keys/revoke": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to revoke an API key", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					if (!data.key_id || typeof data.key_id !== "string") {
+						return badRequest("API key ID is required");
+					}
+
+					// Keys of other users look the same as missing ones
+					const revoked = await TokenManager.revokeApiKey(
+						userData.userId,
+						data.key_id,
+					);
+
+					if (!revoked) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "API key not found",
+							}),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "API key revoked",
+							key_id: data.key_id,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error revoking API key:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while revoking API key",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
@@ -0,0 +1,209 @@
+import type { Database } from "bun:sqlite";
+import {
+	type AuctionResult,
+	getAuction,
+	listBids,
+	listOpenAuctions,
+	placeBid,
+	startAuction,
+} from "../auctions";
+import { hasPermission } from "../permissions";
+import { coinCache, coinTag } from "./cache";
+import { withAuth } from "./middleware";
+
+// Auctions run for at least a minute and at most a month
+const MIN_DURATION = 60 * 1000;
+const MAX_DURATION = 30 * 24 * 60 * 60 * 1000;
+
+function badRequest(message: string): Response {
+	return new Response(JSON.stringify({ success: false, message }), {
+		status: 400,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+// IDs arrive as JSON numbers, anything else is treated as missing
+function getId(data: Record<string, unknown>, field: string): number | null {
+	const value = data[field];
+	return typeof value === "number" && Number.isInteger(value) && value > 0
+		? value
+		: null;
+}
+
+function getPositiveAmount(
+	data: Record<string, unknown>,
+	field: string,
+): number | null {
+	const value = data[field];
+	return typeof value === "number" && Number.isFinite(value) && value > 0
+		? value
+		: null;
+}
+
+// Answer an auction result with the matching status code
+function auctionResponse(result: AuctionResult, status = 200): Response {
+	switch (result.status) {
+		case "ok":
+			return new Response(
+				JSON.stringify({ success: true, auction: result.auction }),
+				{ status, headers: { "Content-Type": "application/json" } },
+			);
+		case "not_found":
+			return new Response(
+				JSON.stringify({ success: false, message: "Not found" }),
+				{ status: 404, headers: { "Content-Type": "application/json" } },
+			);
+		case "forbidden":
+			return new Response(
+				JSON.stringify({ success: false, message: result.message }),
+				{ status: 403, headers: { "Content-Type": "application/json" } },
+			);
+		case "conflict":
+			return new Response(
+				JSON.stringify({ success: false, message: result.message }),
+				{ status: 409, headers: { "Content-Type": "application/json" } },
+			);
+		case "insufficient_funds":
+			return new Response(
+				JSON.stringify({ success: false, message: "Insufficient funds" }),
+				{ status: 402, headers: { "Content-Type": "application/json" } },
+			);
+	}
+}
+
+function serverError(action: string, error: unknown): Response {
+	console.error(`Error trying to ${action}:`, error);
+	return new Response(
+		JSON.stringify({
+			success: false,
+			message: `Server error while trying to ${action}`,
+		}),
+		{ status: 500, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+/**
+ * Routes for starting, browsing and bidding on coin auctions. Ended
+ * auctions are settled by the auction scheduler, not by a request.
+ * @param db SQLite database instance
+ */
+export function auctionRoutes(db: Database) {
+	return {
+		"/api/auctions": {
+			GET: () => {
+				try {
+					return Response.json({ auctions: listOpenAuctions(db) });
+				} catch (error) {
+					return serverError("fetch auctions", error);
+				}
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const coinId = getId(data, "coin_id");
+					const reservePrice = getPositiveAmount(data, "reservePrice");
+					const minIncrement = getPositiveAmount(data, "minIncrement");
+					const endsAt =
+						typeof data.endsAt === "string"
+							? Date.parse(data.endsAt)
+							: Number.NaN;
+					const duration = endsAt - Date.now();
+
+					if (coinId === null) {
+						return badRequest("Coin ID is required");
+					}
+					if (reservePrice === null) {
+						return badRequest("Reserve price must be greater than 0");
+					}
+					if (minIncrement === null) {
+						return badRequest("Minimum increment must be greater than 0");
+					}
+					if (
+						Number.isNaN(endsAt) ||
+						duration < MIN_DURATION ||
+						duration > MAX_DURATION
+					) {
+						return badRequest(
+							"End time must be between a minute and 30 days from now",
+						);
+					}
+
+					const result = startAuction(
+						db,
+						userData.userId,
+						hasPermission(userData.role, "coins:manage"),
+						coinId,
+						{
+							reservePrice,
+							minIncrement,
+							endsAt: new Date(endsAt).toISOString(),
+						},
+					);
+
+					if (result.status === "ok") {
+						coinCache.invalidate(coinTag(coinId));
+					}
+
+					return auctionResponse(result, 201);
+				} catch (error) {
+					return serverError("start the auction", error);
+				}
+			}, "trade"),
+		},
+		"/api/auctions/:id": {
+			GET: (req: Request) => {
+				try {
+					// Get the auction ID from the URL
+					const url = new URL(req.url);
+					const auctionId = Number.parseInt(
+						url.pathname.split("/").pop() || "",
+					);
+					const auction = Number.isNaN(auctionId)
+						? null
+						: getAuction(db, auctionId);
+
+					if (!auction) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Auction not found" }),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return Response.json({ auction, bids: listBids(db, auction.id) });
+				} catch (error) {
+					return serverError("fetch the auction", error);
+				}
+			},
+		},
+		"/api/auctions/bid": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to bid on an auction", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const auctionId = getId(data, "auction_id");
+					const amount = getPositiveAmount(data, "amount");
+
+					if (auctionId === null) {
+						return badRequest("Auction ID is required");
+					}
+					if (amount === null) {
+						return badRequest("Bid must be greater than 0");
+					}
+
+					return auctionResponse(
+						placeBid(db, userData.userId, auctionId, amount),
+						201,
+					);
+				} catch (error) {
+					return serverError("place the bid", error);
+				}
+			}, "trade"),
+		},
+	};
+}
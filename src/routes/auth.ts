@@ -0,0 +1,617 @@
+import type { Database } from "bun:sqlite";
+import type { Server } from "bun";
+import { recordAuditEvent } from "../audit";
+import { getAppUrl, sendVerificationEmail } from "../email_tokens";
+import { TokenManager } from "../utils/auth_token";
+import type { Mailer } from "../utils/mailer";
+import {
+	PASSWORD_ALGORITHM,
+	hashPassword,
+	needsRehash,
+	verifyPassword,
+} from "../utils/password_hashing";
+import { isRole } from "../permissions";
+import { createLoginChallenge, redeemLoginChallenge } from "../two_factor";
+import { RateLimiter } from "../utils/rate_limiter";
+import {
+	getAuditContext,
+	getClientIp,
+	getDeviceInfo,
+	tooManyRequests,
+	withAuth,
+} from "./middleware";
+
+// Verified against when no account matches, so unknown emails take as long
+// to reject as wrong passwords. Same cost parameters as hashPassword.
+const DUMMY_PASSWORD_HASH = {
+	hash: "$argon2id$v=19$m=65536,t=2,p=1$dtFIf3QOaFyfqQhILEZ5vxZWfMsZc8TFyXRw9AcANEk$aVhC5if8jWKJu+mh/1lQCCSlzWorayz8/vRaPcX5YLk",
+	algorithm: PASSWORD_ALGORITHM,
+};
+
+/**
+ * Registration, login and session routes
+ * @param db SQLite database instance
+ * @param mailer Mailer used to send the verification link on registration
+ */
+export function authRoutes(db: Database, mailer: Mailer) {
+	// Failed logins per IP, generous since many users can share one address
+	const loginIpLimiter = new RateLimiter({
+		windowMs: 15 * 60 * 1000,
+		max: 20,
+		backoffMs: 1000,
+		maxBackoffMs: 5 * 60 * 1000,
+		lockoutAfter: 50,
+		lockoutMs: 15 * 60 * 1000,
+	});
+
+	// Failed logins per account, wherever they come from
+	const loginAccountLimiter = new RateLimiter({
+		windowMs: 15 * 60 * 1000,
+		max: 5,
+		backoffMs: 1000,
+		maxBackoffMs: 5 * 60 * 1000,
+		lockoutAfter: 10,
+		lockoutMs: 15 * 60 * 1000,
+	});
+
+	// Accounts created per IP
+	const registerLimiter = new RateLimiter({
+		windowMs: 60 * 60 * 1000,
+		max: 5,
+	});
+
+	// Check both login limiters, reporting the longer wait
+	const checkLogin = (ip: string, account: string) => {
+		const byIp = loginIpLimiter.check(ip);
+		const byAccount = loginAccountLimiter.check(account);
+		return byIp.retryAfterMs >= byAccount.retryAfterMs ? byIp : byAccount;
+	};
+
+	const recordFailedLogin = (ip: string, account: string) => {
+		loginIpLimiter.record(ip);
+		loginAccountLimiter.record(account);
+	};
+
+	// Audit why a login failed, never with the password or code that was tried
+	const auditFailedLogin = (
+		req: Request,
+		server: Server<unknown>,
+		actorId: number | null,
+		email: string | null,
+		reason: string,
+	) => {
+		recordAuditEvent(
+			db,
+			"login_failed",
+			getAuditContext(req, server, actorId),
+			{ email, reason },
+		);
+	};
+
+	return {
+		"/api/register": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to register", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request, server: Server<unknown>) => {
+				const limit = registerLimiter.consume(getClientIp(req, server));
+				if (!limit.allowed) {
+					return tooManyRequests(
+						limit,
+						"Too many registrations, please try again later",
+					);
+				}
+
+				try {
+					const data = await req.json();
+
+					// Validate the input
+					if (!data.name || !data.email || !data.password) {
+						return new Response(
+							JSON.stringify({
+								message: "Name, email, and password are required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Check if email already exists
+					const existingUser = db
+						.query("SELECT id FROM clients WHERE email = ?")
+						.get(data.email);
+					if (existingUser) {
+						return new Response(
+							JSON.stringify({ message: "Email already in use" }),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Hash the password
+					const passwordHash = await hashPassword(data.password);
+
+					// Insert the new user
+					const insertClient = db.prepare(`
+						INSERT INTO clients (name, email, phone, address, password_hash, password_algorithm)
+						VALUES (?, ?, ?, ?, ?, ?)
+					`);
+
+					const info = insertClient.run(
+						data.name,
+						data.email,
+						data.phone || null,
+						data.address || null,
+						passwordHash.hash,
+						passwordHash.algorithm,
+					);
+
+					recordAuditEvent(
+						db,
+						"register",
+						getAuditContext(req, server, Number(info.lastInsertRowid)),
+						{ email: data.email },
+					);
+
+					await sendVerificationEmail(
+						db,
+						mailer,
+						Number(info.lastInsertRowid),
+						getAppUrl(),
+					);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Registration successful",
+							userId: info.lastInsertRowid,
+						}),
+						{ status: 201, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Registration error:", error);
+					return new Response(
+						JSON.stringify({ message: "Server error during registration" }),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/login": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to login", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request, server: Server<unknown>) => {
+				try {
+					const data = await req.json();
+
+					// Validate required fields
+					if (!data.email || !data.password) {
+						return new Response(
+							JSON.stringify({ message: "Email and password are required" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Throttle before doing any work, so guessing stays slow
+					const ip = getClientIp(req, server);
+					const account = String(data.email).toLowerCase();
+					const limit = checkLogin(ip, account);
+					if (!limit.allowed) {
+						return tooManyRequests(
+							limit,
+							"Too many failed login attempts, please try again later",
+						);
+					}
+
+					// Define user type
+					type User = {
+						id: number;
+						name: string;
+						email: string;
+						password_hash: string;
+						password_algorithm: string;
+						totp_enabled: number;
+						role: string;
+						suspended_at: string | null;
+					};
+
+					// Find user by email
+					const user = db
+						.query<User, string>(`
+						SELECT id, name, email, password_hash, password_algorithm, totp_enabled, role, suspended_at
+						FROM clients
+						WHERE email = ?
+					`)
+						.get(data.email);
+
+					// Check if user exists
+					if (!user) {
+						await verifyPassword(data.password, DUMMY_PASSWORD_HASH);
+						recordFailedLogin(ip, account);
+						auditFailedLogin(req, server, null, data.email, "unknown_email");
+						return new Response(
+							JSON.stringify({ message: "Invalid email or password" }),
+							{ status: 401, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Verify password
+					const storedHash = {
+						hash: user.password_hash,
+						algorithm: user.password_algorithm,
+					};
+					if (!(await verifyPassword(data.password, storedHash))) {
+						recordFailedLogin(ip, account);
+						auditFailedLogin(
+							req,
+							server,
+							user.id,
+							data.email,
+							"wrong_password",
+						);
+						return new Response(
+							JSON.stringify({ message: "Invalid email or password" }),
+							{ status: 401, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Only say so once the password is right, so this reveals nothing to guessers
+					if (user.suspended_at !== null) {
+						auditFailedLogin(req, server, user.id, data.email, "suspended");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "This account has been suspended",
+							}),
+							{ status: 403, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Upgrade legacy hashes now that we know the plain password
+					if (needsRehash(storedHash)) {
+						const upgraded = await hashPassword(data.password);
+						db.query(
+							"UPDATE clients SET password_hash = ?, password_algorithm = ? WHERE id = ?",
+						).run(upgraded.hash, upgraded.algorithm, user.id);
+					}
+
+					// With 2FA on, the password only earns a challenge for the code step
+					if (user.totp_enabled === 1) {
+						const challenge = createLoginChallenge(db, user.id);
+
+						return new Response(
+							JSON.stringify({
+								success: true,
+								message: "Two-factor code required",
+								twoFactorRequired: true,
+								challenge: challenge.challenge,
+								expiresIn: challenge.expiresIn,
+							}),
+							{ status: 200, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Only a complete login clears the account's failures
+					loginAccountLimiter.reset(account);
+
+					// Start a session for this device
+					const role = isRole(user.role) ? user.role : "user";
+					const tokens = await TokenManager.createSession(
+						user.id,
+						user.email,
+						role,
+						getDeviceInfo(req, server),
+					);
+					recordAuditEvent(
+						db,
+						"login_succeeded",
+						getAuditContext(req, server, user.id),
+						{ email: user.email, twoFactor: false },
+					);
+
+					// Return success with the access and refresh tokens
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Login successful",
+							userId: user.id,
+							name: user.name,
+							email: user.email,
+							role,
+							token: tokens.accessToken,
+							refreshToken: tokens.refreshToken,
+							expiresIn: tokens.expiresIn,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Login error:", error);
+					return new Response(
+						JSON.stringify({ message: "Server error during login" }),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/login/2fa": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to complete a two-factor login", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request, server: Server<unknown>) => {
+				try {
+					const data = await req.json();
+
+					if (
+						typeof data.challenge !== "string" ||
+						typeof data.code !== "string" ||
+						!data.challenge ||
+						!data.code
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Challenge and code are required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const ip = getClientIp(req, server);
+					const limit = loginIpLimiter.check(ip);
+					if (!limit.allowed) {
+						return tooManyRequests(
+							limit,
+							"Too many failed login attempts, please try again later",
+						);
+					}
+
+					const result = redeemLoginChallenge(db, data.challenge, data.code);
+
+					if (result.status === "invalid") {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Login challenge expired, please log in again",
+							}),
+							{ status: 401, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (result.status === "wrong_code") {
+						// Count against the account too, so fresh challenges from the
+						// password step cannot keep code guessing going
+						const owner = db
+							.query<{ email: string }, number>(
+								"SELECT email FROM clients WHERE id = ?",
+							)
+							.get(result.clientId);
+						if (owner) {
+							recordFailedLogin(ip, owner.email.toLowerCase());
+						} else {
+							loginIpLimiter.record(ip);
+						}
+						auditFailedLogin(
+							req,
+							server,
+							result.clientId,
+							null,
+							"wrong_two_factor_code",
+						);
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message:
+									result.attemptsRemaining > 0
+										? "Invalid two-factor code"
+										: "Too many invalid codes, please log in again",
+								attemptsRemaining: result.attemptsRemaining,
+							}),
+							{ status: 401, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const user = db
+						.query<
+							{
+								id: number;
+								name: string;
+								email: string;
+								role: string;
+								suspended_at: string | null;
+							},
+							number
+						>(
+							"SELECT id, name, email, role, suspended_at FROM clients WHERE id = ?",
+						)
+						.get(result.clientId);
+
+					if (!user) {
+						return new Response(
+							JSON.stringify({ success: false, message: "User not found" }),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (user.suspended_at !== null) {
+						auditFailedLogin(req, server, user.id, user.email, "suspended");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "This account has been suspended",
+							}),
+							{ status: 403, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Both factors passed, so the login is complete
+					loginAccountLimiter.reset(user.email.toLowerCase());
+
+					// Start a session for this device
+					const role = isRole(user.role) ? user.role : "user";
+					const tokens = await TokenManager.createSession(
+						user.id,
+						user.email,
+						role,
+						getDeviceInfo(req, server),
+					);
+					recordAuditEvent(
+						db,
+						"login_succeeded",
+						getAuditContext(req, server, user.id),
+						{ email: user.email, twoFactor: true },
+					);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Login successful",
+							userId: user.id,
+							name: user.name,
+							email: user.email,
+							role,
+							token: tokens.accessToken,
+							refreshToken: tokens.refreshToken,
+							expiresIn: tokens.expiresIn,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Two-factor login error:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during login",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/auth/refresh": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to refresh a token", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: async (req: Request) => {
+				try {
+					const data = await req.json();
+
+					if (!data.refreshToken || typeof data.refreshToken !== "string") {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Refresh token is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const result = await TokenManager.refresh(data.refreshToken);
+
+					if (result.status !== "ok") {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								authenticated: false,
+								message:
+									result.status === "reused"
+										? "Refresh token was already used, session revoked"
+										: "Invalid or expired refresh token",
+							}),
+							{ status: 401, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							token: result.tokens.accessToken,
+							refreshToken: result.tokens.refreshToken,
+							expiresIn: result.tokens.expiresIn,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Token refresh error:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during token refresh",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/auth/verify": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to verify token", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				// Return user information
+				return new Response(
+					JSON.stringify({
+						authenticated: true,
+						userId: userData.userId,
+						email: userData.email,
+						role: userData.role,
+					}),
+					{ status: 200, headers: { "Content-Type": "application/json" } },
+				);
+			}, "read"),
+		},
+		"/api/logout": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to logout", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData, server) => {
+				// End the whole session so its refresh token stops working too
+				const removed = userData.sessionId
+					? await TokenManager.revokeSession(
+							userData.userId,
+							userData.sessionId,
+						)
+					: await TokenManager.removeToken(userData.token);
+
+				if (removed) {
+					recordAuditEvent(
+						db,
+						"logout",
+						getAuditContext(req, server, userData.userId),
+						{ sessionId: userData.sessionId ?? null },
+					);
+				}
+
+				return new Response(
+					JSON.stringify({
+						success: removed,
+						message: removed ? "Logout successful" : "Token not found",
+					}),
+					{ status: 200, headers: { "Content-Type": "application/json" } },
+				);
+			}),
+		},
+	};
+}
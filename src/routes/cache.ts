@@ -0,0 +1,129 @@
+import { type EventHub, type MarketEvent, marketEvents } from "../events";
+import {
+	type TransactionFilters,
+	matchesFilters,
+} from "../transaction_filters";
+import type { Coin, Transaction } from "../types";
+import type { CursorParam } from "../utils/cursor";
+import { TaggedCache } from "../utils/tagged_cache";
+
+// Cache will expire after 2 minutes
+export const CACHE_EXPIRY_TIME = 2 * 60 * 1000;
+
+// Cached responses of the two public listings
+interface TransactionPage {
+	transactions: Transaction[];
+	total: number;
+	page: number;
+	pageSize: number;
+	nextCursor: string | null;
+	prevCursor: string | null;
+}
+
+interface CoinPage {
+	// Listed coins carry their BitSlow alongside the row
+	coins: (Coin & { computedBitSlow: string })[];
+	total: number;
+	page: number;
+	pageSize: number;
+	nextCursor: string | null;
+	prevCursor: string | null;
+}
+
+// Shared by every route that reads or changes the listings
+export const transactionCache = new TaggedCache<TransactionPage>({
+	maxEntries: 500,
+	ttlMs: CACHE_EXPIRY_TIME,
+});
+export const coinCache = new TaggedCache<CoinPage>({
+	maxEntries: 200,
+	ttlMs: CACHE_EXPIRY_TIME,
+});
+
+// Carried by every page, for changes that shift rows across pages
+export const COIN_LIST_TAG = "coins";
+export const TRANSACTION_LIST_TAG = "transactions";
+
+const FILTER_TAG_PREFIX = "filter:";
+
+// Carried by every page showing the coin
+export function coinTag(coinId: number): string {
+	return `coin:${coinId}`;
+}
+
+// Carried by every page sorted by the field, for changes that reorder rows
+export function sortTag(field: string): string {
+	return `sort:${field}`;
+}
+
+// Carried by every transactions page listed under these filters
+export function filterTag(filters: TransactionFilters): string {
+	return `${FILTER_TAG_PREFIX}${JSON.stringify(filters)}`;
+}
+
+// Cursor pages start at their cursor whatever page was asked for
+function cursorPart(cursor: CursorParam): string {
+	return cursor.status === "ok" ? `${cursor.direction}:${cursor.token}` : "";
+}
+
+// Coin pages only differ by page or cursor, pageSize, and sort
+// Generate a cache key from pagination parameters
+export function generateCoinCacheKey(
+	page: number,
+	pageSize: number,
+	cursor: CursorParam,
+	sort: string,
+): string {
+	return `coins-${page}-${pageSize}-${cursorPart(cursor)}-${sort}`;
+}
+
+// Transaction pages differ by page or cursor, pageSize, sort, and filters
+// Generate a cache key from request parameters
+export function generateTransactionsCacheKey(
+	page: number,
+	pageSize: number,
+	cursor: CursorParam,
+	sort: string,
+	filters: TransactionFilters,
+): string {
+	return `transactions-${page}-${pageSize}-${cursorPart(cursor)}-${sort}-${JSON.stringify(filters)}`;
+}
+
+function invalidateForEvent(event: MarketEvent): void {
+	switch (event.type) {
+		case "coin-purchased": {
+			// A sale only changes the owner shown on pages holding the coin,
+			// unless the pages are ordered by owner
+			const { coin_id } = event.data as { coin_id: number };
+			coinCache.invalidate(coinTag(coin_id));
+			coinCache.invalidate(sortTag("owner"));
+			break;
+		}
+		case "coin-generated":
+			// A new coin changes the total on every page
+			coinCache.invalidate(COIN_LIST_TAG);
+			break;
+		case "new-transaction": {
+			// The newest rows come first, so every page of a matching listing moves
+			const transaction = event.data as Transaction;
+			transactionCache.invalidateWhere(
+				(tag) =>
+					tag.startsWith(FILTER_TAG_PREFIX) &&
+					matchesFilters(
+						transaction,
+						JSON.parse(tag.slice(FILTER_TAG_PREFIX.length)),
+					),
+			);
+			break;
+		}
+	}
+}
+
+/**
+ * Drop the cached pages each market event makes stale
+ * @param hub Feed to listen on
+ * @returns Stops listening
+ */
+export function invalidateOnMarketEvents(hub: EventHub = marketEvents) {
+	return hub.subscribe(invalidateForEvent);
+}
@@ -0,0 +1,909 @@
+import type { Database } from "bun:sqlite";
+import { hasOpenAuction } from "../auctions";
+import { recordAuditEvent } from "../audit";
+import { announceMint, announceSale } from "../events";
+import { MINT_ACCOUNT, clientCoinsAccount, postJournal } from "../ledger";
+import { getCoinStats } from "../stats";
+import { transferCoin } from "../trading";
+import type { Coin } from "../types";
+import { storeBitSlowHash } from "../utils/bitslow_hashes";
+import { getCursor, toCursorPage } from "../utils/cursor";
+import { RateLimiter } from "../utils/rate_limiter";
+import {
+	type SortField,
+	describeSort,
+	getSort,
+	keysetCondition,
+	orderBy,
+} from "../utils/sort";
+import {
+	COIN_LIST_TAG,
+	coinCache,
+	coinTag,
+	generateCoinCacheKey,
+	sortTag,
+} from "./cache";
+import { getAuditContext, tooManyRequests, withAuth } from "./middleware";
+
+// What clients may sort the marketplace by. Owners sort regardless of
+// case, and coins nobody owns come first.
+const SORT_FIELDS: Record<string, SortField<Coin>> = {
+	coin: {
+		expression: "c.coin_id",
+		type: "number",
+		value: (coin) => coin.coin_id,
+	},
+	value: { expression: "c.value", type: "number", value: (coin) => coin.value },
+	owner: {
+		expression: "COALESCE(cl.name, '') COLLATE NOCASE",
+		type: "string",
+		value: (coin) => coin.client_name ?? "",
+	},
+};
+
+/**
+ * Coin browsing, trading, minting and history routes
+ * @param db SQLite database instance
+ */
+export function coinRoutes(db: Database) {
+	// Minting hashes the coin on the worker pool, so cap it per client
+	const generateLimiter = new RateLimiter({
+		windowMs: 60 * 1000,
+		max: 10,
+	});
+
+	return {
+		"/api/coins": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch coins", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: async (req: Request) => {
+				try {
+					// Get pagination parameters from query string
+					const url = new URL(req.url);
+					const page = Number.parseInt(url.searchParams.get("page") || "1");
+					const pageSize = Number.parseInt(
+						url.searchParams.get("pageSize") || "15",
+					);
+
+					const sort = getSort(
+						url,
+						SORT_FIELDS,
+						{ sort: "coin", order: "asc" },
+						"coin",
+					);
+					if (!sort) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid sort" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Keyset pages carry the sorted values of the coin they start from
+					const cursor = getCursor(
+						url,
+						sort.map((column) => column.type),
+					);
+					if (cursor.status === "invalid") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid cursor" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Generate cache key based on pagination parameters
+					const cacheKey = generateCoinCacheKey(
+						page,
+						pageSize,
+						cursor,
+						describeSort(sort),
+					);
+
+					// Check if we have a valid cache entry
+					const cachedData = coinCache.get(cacheKey);
+					if (cachedData) {
+						console.log("🔄 Using server-side cached coins data");
+						return Response.json(cachedData);
+					}
+
+					// Validate page and pageSize
+					const validPage = page > 0 ? page : 1;
+					const validPageSize = pageSize > 0 && pageSize <= 100 ? pageSize : 15;
+
+					// Calculate offset
+					const offset = (validPage - 1) * validPageSize;
+
+					// Get total count
+					const totalCount = db
+						.query(
+							"SELECT COUNT(*) as total FROM coins WHERE burned_at IS NULL",
+						)
+						.get() as { total: number };
+
+					// Walk from the cursor when there is one, backwards from a
+					// "before" cursor, one row past the page to tell whether
+					// another page follows
+					const backwards =
+						cursor.status === "ok" && cursor.direction === "before";
+					let keyset = "";
+					const params: (string | number)[] = [];
+					if (cursor.status === "ok") {
+						const condition = keysetCondition(sort, cursor.key, backwards);
+						keyset = `AND ${condition.sql}`;
+						params.push(...condition.params);
+					}
+					params.push(validPageSize + 1);
+					if (cursor.status === "none") params.push(offset);
+
+					// Get coins with client names using a LEFT JOIN
+					const coins = db
+						.query(`
+						SELECT
+							c.coin_id,
+							c.bit1,
+							c.bit2,
+							c.bit3,
+							c.value,
+							c.asking_price,
+							c.bitslow_hash,
+							c.client_id,
+							cl.name AS client_name
+						FROM coins c
+						LEFT JOIN clients cl ON c.client_id = cl.id
+						WHERE c.burned_at IS NULL ${keyset}
+						ORDER BY ${orderBy(sort, backwards)}
+						LIMIT ? ${cursor.status === "none" ? "OFFSET ?" : ""}
+					`)
+						.all(...params) as any[];
+
+					const { rows, nextCursor, prevCursor } = toCursorPage(
+						coins,
+						validPageSize,
+						cursor,
+						(coin) => sort.map((column) => column.value(coin)),
+						offset > 0,
+					);
+
+					// Use the stored BitSlow, computing it only for coins not backfilled yet
+					const enhancedCoins = await Promise.all(
+						rows.map(async ({ bitslow_hash, ...coin }: any) => ({
+							...coin,
+							computedBitSlow:
+								bitslow_hash ?? (await storeBitSlowHash(db, coin)),
+						})),
+					);
+
+					// Prepare response data
+					const responseData = {
+						coins: enhancedCoins,
+						total: totalCount.total,
+						page: validPage,
+						pageSize: validPageSize,
+						nextCursor,
+						prevCursor,
+					};
+
+					// Cache the response until one of its coins changes
+					coinCache.set(cacheKey, responseData, [
+						COIN_LIST_TAG,
+						...sort.map((column) => sortTag(column.field)),
+						...enhancedCoins.map((coin) => coinTag(coin.coin_id)),
+					]);
+
+					return Response.json(responseData);
+				} catch (error) {
+					console.error("Error fetching coins:", error);
+					return new Response("Error fetching coins", { status: 500 });
+				}
+			},
+		},
+		"/api/coins/buy": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to buy a coin", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData, server) => {
+				try {
+					const data = await req.json();
+
+					// Validate coin_id
+					if (!data.coin_id) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Coin ID is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const coinId = data.coin_id;
+					const buyerId = userData.userId;
+
+					// Start transaction
+					db.exec("BEGIN TRANSACTION");
+
+					// Check if coin exists and is either unowned or listed for sale
+					const coin = db
+						.query<Coin, number>(
+							"SELECT coin_id, client_id, value, asking_price FROM coins WHERE coin_id = ? AND burned_at IS NULL",
+						)
+						.get(coinId);
+
+					if (!coin) {
+						db.exec("ROLLBACK");
+						return new Response(
+							JSON.stringify({ success: false, message: "Coin not found" }),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (coin.client_id === buyerId) {
+						db.exec("ROLLBACK");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "You already own this coin",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (coin.client_id !== null && coin.asking_price === null) {
+						db.exec("ROLLBACK");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Coin is not listed for sale",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (hasOpenAuction(db, coinId)) {
+						db.exec("ROLLBACK");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "This coin is up for auction",
+							}),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Unowned coins sell at their value, listed coins at the asking price
+					const sellerId = coin.client_id;
+					const price =
+						sellerId === null ? coin.value : (coin.asking_price as number);
+
+					const transfer = transferCoin(db, {
+						coinId,
+						coinValue: coin.value,
+						buyerId,
+						sellerId,
+						price,
+					});
+
+					if (transfer.status === "insufficient_funds") {
+						db.exec("ROLLBACK");
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Insufficient funds",
+							}),
+							{ status: 402, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					recordAuditEvent(
+						db,
+						"coin_purchased",
+						getAuditContext(req, server, buyerId),
+						{
+							coinId,
+							sellerId,
+							price,
+							transactionId: transfer.transactionId,
+						},
+					);
+
+					// Commit transaction
+					db.exec("COMMIT");
+
+					// Also drops the cached pages showing the sale
+					announceSale(db, transfer.transactionId);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Coin purchased successfully",
+							coin_id: coinId,
+							seller_id: sellerId,
+							amount: price,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					db.exec("ROLLBACK");
+					console.error("Error buying coin:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during purchase",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}, "trade"),
+		},
+		"/api/coins/list": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to list a coin for sale", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					// Validate coin_id and asking price
+					if (!data.coin_id) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Coin ID is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (
+						!data.price ||
+						typeof data.price !== "number" ||
+						data.price <= 0
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Valid asking price is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (hasOpenAuction(db, data.coin_id)) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "This coin is up for auction",
+							}),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Only the current owner may put a coin on the market
+					const result = db
+						.query(
+							"UPDATE coins SET asking_price = ? WHERE coin_id = ? AND client_id = ? AND burned_at IS NULL",
+						)
+						.run(data.price, data.coin_id, userData.userId);
+
+					if (result.changes === 0) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "You can only list coins you own",
+							}),
+							{ status: 403, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					coinCache.invalidate(coinTag(data.coin_id));
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Coin listed for sale",
+							coin_id: data.coin_id,
+							asking_price: data.price,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error listing coin:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while listing coin",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}, "trade"),
+		},
+		"/api/coins/unlist": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to remove a coin listing", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					if (!data.coin_id) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Coin ID is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const result = db
+						.query(
+							"UPDATE coins SET asking_price = NULL WHERE coin_id = ? AND client_id = ?",
+						)
+						.run(data.coin_id, userData.userId);
+
+					if (result.changes === 0) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "You can only unlist coins you own",
+							}),
+							{ status: 403, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					coinCache.invalidate(coinTag(data.coin_id));
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Coin listing removed",
+							coin_id: data.coin_id,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error unlisting coin:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while unlisting coin",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}, "trade"),
+		},
+		"/api/coins/available-combinations": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to check available combinations", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: async (req: Request) => {
+				try {
+					const MAX_COMBINATIONS = 10 * 10 * 10;
+
+					// Count existing coins
+					const existingCount = db
+						.query("SELECT COUNT(*) as count FROM coins")
+						.get() as { count: number };
+
+					// Check if there are still available combinations
+					const available = existingCount.count < MAX_COMBINATIONS;
+
+					return Response.json({
+						available,
+						used: existingCount.count,
+						total: MAX_COMBINATIONS,
+					});
+				} catch (error) {
+					console.error("Error checking available combinations:", error);
+					return new Response(
+						JSON.stringify({ success: false, message: "Server error" }),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/coins/generate": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to generate a coin", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData, server) => {
+				const limit = generateLimiter.consume(String(userData.userId));
+				if (!limit.allowed) {
+					return tooManyRequests(
+						limit,
+						"Too many coins generated, please slow down",
+					);
+				}
+
+				let minted: {
+					coinId: number;
+					bit1: number;
+					bit2: number;
+					bit3: number;
+					value: number;
+					transactionId: number;
+				};
+				try {
+					const data = await req.json();
+
+					// Validate the value
+					if (
+						!data.value ||
+						typeof data.value !== "number" ||
+						data.value <= 0
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Valid monetary value is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Start transaction
+					db.exec("BEGIN TRANSACTION");
+
+					// Function to generate unique bit values
+					function generateUniqueBits() {
+						// Get all existing bit combinations
+						const existingBits = db
+							.query(`
+							SELECT bit1, bit2, bit3 FROM coins
+						`)
+							.all() as { bit1: number; bit2: number; bit3: number }[];
+
+						const existingCombinations = new Set();
+						existingBits.forEach((bit) => {
+							existingCombinations.add(`${bit.bit1}-${bit.bit2}-${bit.bit3}`);
+						});
+
+						// Try to find a unique combination (with a limit to prevent infinite loops)
+						const MAX_ATTEMPTS = 10000;
+						let attempts = 0;
+						let bit1;
+						let bit2;
+						let bit3;
+						let combinationKey;
+
+						do {
+							bit1 = Math.floor(Math.random() * 10) + 1; // 1-10
+							bit2 = Math.floor(Math.random() * 10) + 1; // 1-10
+							bit3 = Math.floor(Math.random() * 10) + 1; // 1-10
+							combinationKey = `${bit1}-${bit2}-${bit3}`;
+							attempts++;
+
+							if (attempts > MAX_ATTEMPTS) {
+								throw new Error(
+									"Could not find unique bit combination after many attempts",
+								);
+							}
+						} while (existingCombinations.has(combinationKey));
+
+						return { bit1, bit2, bit3 };
+					}
+
+					// Generate unique bits
+					const { bit1, bit2, bit3 } = generateUniqueBits();
+
+					// Insert the new coin
+					const stmt = db.prepare(`
+						INSERT INTO coins (bit1, bit2, bit3, value, client_id)
+						VALUES (?, ?, ?, ?, ?)
+					`);
+
+					const result = stmt.run(
+						bit1,
+						bit2,
+						bit3,
+						data.value,
+						userData.userId,
+					);
+					const coinId = Number(result.lastInsertRowid);
+
+					// Create a transaction record for the coin generation
+					const now = new Date().toISOString();
+					const transaction = db
+						.query(`
+							INSERT INTO transactions (
+								buyer_id, seller_id, coin_id, transaction_date, amount
+							) VALUES (?, NULL, ?, ?, ?)
+						`)
+						.run(userData.userId, coinId, now, data.value);
+
+					// Record the newly minted value
+					postJournal(db, {
+						description: "Coin generated",
+						coinId,
+						transactionId: Number(transaction.lastInsertRowid),
+						legs: [
+							{
+								debit: MINT_ACCOUNT,
+								credit: clientCoinsAccount(userData.userId),
+								amount: data.value,
+							},
+						],
+					});
+
+					recordAuditEvent(
+						db,
+						"coin_generated",
+						getAuditContext(req, server, userData.userId),
+						{
+							coinId,
+							value: data.value,
+							transactionId: Number(transaction.lastInsertRowid),
+						},
+					);
+
+					// Commit transaction
+					db.exec("COMMIT");
+
+					minted = {
+						coinId,
+						bit1,
+						bit2,
+						bit3,
+						value: data.value,
+						transactionId: Number(transaction.lastInsertRowid),
+					};
+				} catch (error) {
+					// Rollback transaction in case of error
+					db.exec("ROLLBACK");
+
+					console.error("Error generating coin:", error);
+					const errorMessage =
+						error instanceof Error ? error.message : "Unknown error";
+
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: `Error generating coin: ${errorMessage}`,
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+
+				// Hash on the worker pool once committed, so no other request
+				// runs inside our transaction while we wait. The coin is minted
+				// either way: if the pool is full, the listing or the backfill
+				// stores the hash later.
+				const bitslowHash = await storeBitSlowHash(db, {
+					coin_id: minted.coinId,
+					bit1: minted.bit1,
+					bit2: minted.bit2,
+					bit3: minted.bit3,
+				}).catch((error) => {
+					console.error("Error hashing generated coin:", error);
+					return null;
+				});
+
+				// Also drops the cached pages the new coin shows up on
+				announceMint(db, minted.transactionId);
+
+				return new Response(
+					JSON.stringify({
+						success: true,
+						message: "Coin generated successfully",
+						coin_id: minted.coinId,
+						bit1: minted.bit1,
+						bit2: minted.bit2,
+						bit3: minted.bit3,
+						value: minted.value,
+						computedBitSlow: bitslowHash,
+					}),
+					{ status: 200, headers: { "Content-Type": "application/json" } },
+				);
+			}, "mint"),
+		},
+		"/api/coins/:id/history": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch coin history", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: async (req: Request) => {
+				try {
+					// Get the coin ID from the URL
+					const url = new URL(req.url);
+					const pathParts = url.pathname.split("/");
+					const coinId = Number.parseInt(pathParts[pathParts.length - 2]);
+
+					if (Number.isNaN(coinId)) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid coin ID" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Verify the coin exists
+					const coin = db
+						.query("SELECT * FROM coins WHERE coin_id = ?")
+						.get(coinId) as Coin;
+
+					if (!coin) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Coin not found" }),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Get the transaction history for this coin
+					const transactions = db
+						.query(`
+						SELECT
+							t.transaction_date,
+							t.amount,
+							seller.id as seller_id,
+							seller.name as seller_name,
+							buyer.id as buyer_id,
+							buyer.name as buyer_name
+						FROM transactions t
+						LEFT JOIN clients seller ON t.seller_id = seller.id
+						JOIN clients buyer ON t.buyer_id = buyer.id
+						WHERE t.coin_id = ? AND t.voided_at IS NULL
+						ORDER BY t.transaction_date ASC
+					`)
+						.all(coinId);
+
+					// Generate ownership timeline based on transactions
+					const ownershipHistory = [];
+					let lastOwnerId = null;
+					let isFirstTransaction = true;
+
+					for (const tx of transactions as any[]) {
+						// First transaction is generated (no real seller)
+						if (isFirstTransaction) {
+							ownershipHistory.push({
+								date: tx.transaction_date,
+								owner_id: tx.buyer_id,
+								owner_name: tx.buyer_name,
+								type: "generated",
+								amount: tx.amount,
+								previous_owner_id: null,
+								previous_owner_name: "Original Issuer",
+							});
+							isFirstTransaction = false;
+						} else {
+							// Resales between users carry a real seller, issuer sales do not
+							ownershipHistory.push({
+								date: tx.transaction_date,
+								owner_id: tx.buyer_id,
+								owner_name: tx.buyer_name,
+								type: tx.seller_id !== null ? "transfer" : "purchase",
+								amount: tx.amount,
+								previous_owner_id: tx.seller_id,
+								previous_owner_name: tx.seller_name,
+							});
+						}
+
+						lastOwnerId = tx.buyer_id;
+					}
+
+					// Add current owner info
+					const currentOwner = {
+						date: "Current",
+						owner_id: coin.client_id,
+						owner_name: coin.client_id
+							? (
+									db
+										.query("SELECT name FROM clients WHERE id = ?")
+										.get(coin.client_id) as any
+								)?.name
+							: null,
+						type: "current",
+						amount: null,
+						previous_owner_id: lastOwnerId,
+						previous_owner_name: lastOwnerId
+							? (
+									db
+										.query("SELECT name FROM clients WHERE id = ?")
+										.get(lastOwnerId) as any
+								)?.name
+							: null,
+					};
+
+					if (ownershipHistory.length > 0) {
+						currentOwner.previous_owner_id =
+							ownershipHistory[ownershipHistory.length - 1].owner_id;
+						currentOwner.previous_owner_name =
+							ownershipHistory[ownershipHistory.length - 1].owner_name;
+					}
+
+					// If the coin has no current owner, it's available for purchase
+					if (coin.client_id === null) {
+						currentOwner.owner_name = "Available for Purchase";
+					}
+
+					// Add current status to the history timeline
+					ownershipHistory.push(currentOwner);
+
+					return Response.json({
+						success: true,
+						coin_id: coinId,
+						history: ownershipHistory,
+					});
+				} catch (error) {
+					console.error("Error fetching coin history:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Error fetching coin history",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+		"/api/coins/:id/stats": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch coin statistics", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: (req: Request) => {
+				try {
+					const pathParts = new URL(req.url).pathname.split("/");
+					const coinId = Number.parseInt(pathParts[pathParts.length - 2]);
+
+					if (Number.isNaN(coinId)) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid coin ID" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const stats = getCoinStats(db, coinId);
+
+					if (!stats) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Coin not found" }),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return Response.json({ success: true, stats });
+				} catch (error) {
+					console.error("Error fetching coin statistics:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Error fetching coin statistics",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+	};
+}
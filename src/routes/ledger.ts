@@ -0,0 +1,36 @@
+import type { Database } from "bun:sqlite";
+import { reconcileLedger } from "../ledger";
+import { withAuth } from "./middleware";
+
+/**
+ * Ledger reporting routes
+ * @param db SQLite database instance
+ */
+export function ledgerRoutes(db: Database) {
+	return {
+		"/api/ledger/reconcile": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to reconcile the ledger", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async () => {
+				try {
+					const report = reconcileLedger(db);
+					return Response.json({ success: true, ...report });
+				} catch (error) {
+					console.error("Error reconciling ledger:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Error reconciling ledger",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
@@ -0,0 +1,99 @@
+import type { Server, ServerWebSocket, WebSocketHandler } from "bun";
+import { type EventHub, marketEvents } from "../events";
+
+// Every live client listens on the same topic
+const TOPIC = "market";
+
+interface LiveSocketData {
+	// Where a reconnecting client left off, null on a first connection
+	epoch: string | null;
+	lastId: number;
+}
+
+/**
+ * Live marketplace feed over WebSocket. Clients resume by passing the
+ * epoch and id of the last event they saw as query parameters.
+ */
+export function liveRoutes() {
+	return {
+		"/api/live": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Open a WebSocket to receive live updates", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: (req: Request, server: Server<LiveSocketData>) => {
+				const url = new URL(req.url);
+				const lastId = Number(url.searchParams.get("lastId") ?? 0);
+
+				const upgraded = server.upgrade(req, {
+					data: {
+						epoch: url.searchParams.get("epoch"),
+						lastId: Number.isInteger(lastId) ? lastId : 0,
+					},
+				});
+
+				if (upgraded) {
+					// Bun answers the handshake itself once upgraded
+					return undefined;
+				}
+
+				return new Response("Expected a WebSocket upgrade", {
+					status: 426,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+		},
+	};
+}
+
+/**
+ * Socket handlers for the live feed, passed to `serve`
+ * @param hub Feed the sockets replay from
+ */
+export function liveSocket(
+	hub: EventHub = marketEvents,
+): WebSocketHandler<LiveSocketData> {
+	return {
+		open(ws: ServerWebSocket<LiveSocketData>) {
+			const { epoch, lastId } = ws.data;
+			const missed = epoch === null ? [] : hub.since(epoch, lastId);
+
+			// Tell the client where the feed stands, and whether what it
+			// shows is too old to patch and has to be reloaded
+			ws.send(
+				JSON.stringify({
+					type: "sync",
+					epoch: hub.epoch,
+					lastId: hub.latestId,
+					stale: missed === null,
+				}),
+			);
+			for (const event of missed ?? []) {
+				ws.send(JSON.stringify(event));
+			}
+
+			ws.subscribe(TOPIC);
+		},
+		message() {
+			// The feed only flows from server to client
+		},
+	};
+}
+
+/**
+ * Forward every published event to the connected sockets
+ * @param server Server the sockets are attached to
+ * @param hub Feed to forward
+ * @returns A function that stops forwarding
+ */
+export function broadcastMarketEvents(
+	server: Server<unknown>,
+	hub: EventHub = marketEvents,
+): () => void {
+	return hub.subscribe((event) => {
+		server.publish(TOPIC, JSON.stringify(event));
+	});
+}
@@ -0,0 +1,54 @@
+import type { Database } from "bun:sqlite";
+import { getMarketStats } from "../stats";
+
+// Daily figures cover three months unless the caller asks otherwise
+const DEFAULT_DAYS = 90;
+const MAX_DAYS = 365;
+
+/**
+ * Market-wide statistics routes
+ * @param db SQLite database instance
+ */
+export function marketRoutes(db: Database) {
+	return {
+		"/api/market/stats": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch market statistics", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: (req: Request) => {
+				try {
+					const url = new URL(req.url);
+					const days = Number(url.searchParams.get("days") ?? DEFAULT_DAYS);
+
+					if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: `days must be a whole number between 1 and ${MAX_DAYS}`,
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return Response.json({
+						success: true,
+						stats: getMarketStats(db, days),
+					});
+				} catch (error) {
+					console.error("Error fetching market statistics:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Error fetching market statistics",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			},
+		},
+	};
+}
@@ -0,0 +1,180 @@
+import type { Server } from "bun";
+import type { AuditContext } from "../audit";
+import {
+	type ApiKeyScope,
+	type Permission,
+	hasPermission,
+} from "../permissions";
+import {
+	type DeviceInfo,
+	type TokenData,
+	TokenManager,
+} from "../utils/auth_token";
+import type { RateLimitResult } from "../utils/rate_limiter";
+
+// The caller of a protected route, as resolved from their bearer token or API key
+export interface AuthenticatedUser extends TokenData {
+	token: string;
+	// Set when the caller used an API key rather than a session
+	apiKeyId: string | null;
+}
+
+export type AuthenticatedHandler = (
+	req: Request,
+	user: AuthenticatedUser,
+	server: Server<unknown>,
+) => Response | Promise<Response>;
+
+// Describe the device a request comes from, shown on the sessions page
+export function getDeviceInfo(req: Request, server: Server<unknown>): DeviceInfo {
+	return {
+		userAgent: req.headers.get("User-Agent"),
+		ipAddress: server.requestIP(req)?.address ?? null,
+	};
+}
+
+// Who is behind a request, for the audit log
+export function getAuditContext(
+	req: Request,
+	server: Server<unknown>,
+	actorId: number | null,
+): AuditContext {
+	return { actorId, ...getDeviceInfo(req, server) };
+}
+
+// Every protected route answers missing or bad credentials the same way
+function unauthorized(message: string): Response {
+	return new Response(
+		JSON.stringify({ success: false, authenticated: false, message }),
+		{ status: 401, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+// Key for per-IP rate limits
+export function getClientIp(req: Request, server: Server<unknown>): string {
+	return server.requestIP(req)?.address ?? "unknown";
+}
+
+// Answer a throttled request, telling the client when it may retry
+export function tooManyRequests(
+	result: RateLimitResult,
+	message: string,
+): Response {
+	const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+
+	return new Response(JSON.stringify({ success: false, message, retryAfter }), {
+		status: 429,
+		headers: {
+			"Content-Type": "application/json",
+			"Retry-After": String(retryAfter),
+		},
+	});
+}
+
+// Read the token from an `Authorization: Bearer <token>` header
+export function getBearerToken(req: Request): string | null {
+	const authHeader = req.headers.get("Authorization");
+
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return null;
+	}
+
+	return authHeader.split(" ")[1] || null;
+}
+
+// Read the key from an `Authorization: ApiKey <key>` header
+export function getApiKey(req: Request): string | null {
+	const authHeader = req.headers.get("Authorization");
+
+	if (!authHeader || !authHeader.startsWith("ApiKey ")) {
+		return null;
+	}
+
+	return authHeader.split(" ")[1] || null;
+}
+
+function forbidden(message: string): Response {
+	return new Response(JSON.stringify({ success: false, message }), {
+		status: 403,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+/**
+ * Wrap a route handler so it only runs for a valid bearer token, or for an
+ * API key when the route names the scope keys need for it
+ * @param handler Handler receiving the request and the authenticated user
+ * @param scope Scope an API key needs here, API keys are refused without one
+ * @returns Route handler that responds 401 or 403 when authentication fails
+ */
+export function withAuth(
+	handler: AuthenticatedHandler,
+	scope?: ApiKeyScope,
+): (req: Request, server: Server<unknown>) => Promise<Response> {
+	return async (req, server) => {
+		const apiKey = getApiKey(req);
+
+		if (apiKey) {
+			const keyData = await TokenManager.verifyApiKey(apiKey);
+
+			if (!keyData) {
+				return unauthorized("Invalid or expired API key");
+			}
+
+			if (!scope) {
+				return forbidden("API keys cannot be used here");
+			}
+
+			if (!keyData.scopes.includes(scope)) {
+				return forbidden(`API key is missing the "${scope}" scope`);
+			}
+
+			return handler(
+				req,
+				{
+					userId: keyData.userId,
+					email: keyData.email,
+					role: keyData.role,
+					expiresAt: keyData.expiresAt ?? Number.POSITIVE_INFINITY,
+					sessionId: null,
+					token: apiKey,
+					apiKeyId: keyData.id,
+				},
+				server,
+			);
+		}
+
+		const token = getBearerToken(req);
+
+		if (!token) {
+			return unauthorized("No token provided");
+		}
+
+		const tokenData = await TokenManager.verifyToken(token);
+
+		if (!tokenData) {
+			return unauthorized("Invalid or expired token");
+		}
+
+		return handler(req, { ...tokenData, token, apiKeyId: null }, server);
+	};
+}
+
+/**
+ * Wrap a route handler so it only runs for users whose role grants a permission
+ * @param permission Permission the route requires
+ * @param handler Handler receiving the request and the authenticated user
+ * @returns Route handler that responds 401 or 403 when the check fails
+ */
+export function withPermission(
+	permission: Permission,
+	handler: AuthenticatedHandler,
+): (req: Request, server: Server<unknown>) => Promise<Response> {
+	return withAuth(async (req, user, server) => {
+		if (!hasPermission(user.role, permission)) {
+			return forbidden("You do not have permission to do that");
+		}
+
+		return handler(req, user, server);
+	});
+}
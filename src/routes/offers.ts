@@ -0,0 +1,267 @@
+import type { Database } from "bun:sqlite";
+import { recordAuditEvent } from "../audit";
+import { announceSale } from "../events";
+import {
+	type OfferResult,
+	acceptOffer,
+	cancelOffer,
+	counterOffer,
+	createOffer,
+	listOffers,
+	rejectOffer,
+} from "../offers";
+import { getAuditContext, withAuth } from "./middleware";
+
+// Offers stay open for two days unless the client picks otherwise
+const DEFAULT_EXPIRY_HOURS = 48;
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+function badRequest(message: string): Response {
+	return new Response(JSON.stringify({ success: false, message }), {
+		status: 400,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+function postOnly(message: string): () => Response {
+	// These endpoints are not meant to be accessed directly via GET
+	return () =>
+		new Response(message, {
+			status: 405,
+			headers: { "Content-Type": "text/plain" },
+		});
+}
+
+// IDs arrive as JSON numbers, anything else is treated as missing
+function getId(data: Record<string, unknown>, field: string): number | null {
+	const value = data[field];
+	return typeof value === "number" && Number.isInteger(value) && value > 0
+		? value
+		: null;
+}
+
+function getAmount(data: Record<string, unknown>): number | null {
+	const amount = data.amount;
+	return typeof amount === "number" && Number.isFinite(amount) && amount > 0
+		? amount
+		: null;
+}
+
+// Expiry as an ISO timestamp, or null when the requested hours are out of range
+function getExpiry(data: Record<string, unknown>): string | null {
+	const hours = data.expiresInHours ?? DEFAULT_EXPIRY_HOURS;
+
+	if (
+		typeof hours !== "number" ||
+		!Number.isInteger(hours) ||
+		hours < 1 ||
+		hours > MAX_EXPIRY_HOURS
+	) {
+		return null;
+	}
+
+	return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
+
+// Answer an offer result with the matching status code
+function offerResponse(result: OfferResult, status = 200): Response {
+	switch (result.status) {
+		case "ok":
+			return new Response(
+				JSON.stringify({ success: true, offer: result.offer }),
+				{ status, headers: { "Content-Type": "application/json" } },
+			);
+		case "not_found":
+			return new Response(
+				JSON.stringify({ success: false, message: "Offer not found" }),
+				{ status: 404, headers: { "Content-Type": "application/json" } },
+			);
+		case "conflict":
+			return new Response(
+				JSON.stringify({ success: false, message: result.message }),
+				{ status: 409, headers: { "Content-Type": "application/json" } },
+			);
+		case "insufficient_funds":
+			return new Response(
+				JSON.stringify({ success: false, message: "Insufficient funds" }),
+				{ status: 402, headers: { "Content-Type": "application/json" } },
+			);
+	}
+}
+
+function serverError(action: string, error: unknown): Response {
+	console.error(`Error trying to ${action}:`, error);
+	return new Response(
+		JSON.stringify({
+			success: false,
+			message: `Server error while trying to ${action}`,
+		}),
+		{ status: 500, headers: { "Content-Type": "application/json" } },
+	);
+}
+
+/**
+ * Routes for making offers on coins and answering them
+ * @param db SQLite database instance
+ */
+export function offerRoutes(db: Database) {
+	return {
+		"/api/offers": {
+			GET: withAuth(async (req, userData) => {
+				const view = new URL(req.url).searchParams.get("view") || "mine";
+
+				if (view !== "mine" && view !== "received") {
+					return badRequest('View must be "mine" or "received"');
+				}
+
+				return Response.json({
+					offers: listOffers(db, userData.userId, view),
+				});
+			}, "read"),
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const coinId = getId(data, "coin_id");
+					const amount = getAmount(data);
+					const expiresAt = getExpiry(data);
+
+					if (coinId === null) {
+						return badRequest("Coin ID is required");
+					}
+					if (amount === null) {
+						return badRequest("Offer amount must be greater than 0");
+					}
+					if (expiresAt === null) {
+						return badRequest(
+							`Expiry must be between 1 and ${MAX_EXPIRY_HOURS} hours`,
+						);
+					}
+
+					const result = createOffer(
+						db,
+						userData.userId,
+						coinId,
+						amount,
+						expiresAt,
+					);
+
+					return result.status === "not_found"
+						? new Response(
+								JSON.stringify({ success: false, message: "Coin not found" }),
+								{
+									status: 404,
+									headers: { "Content-Type": "application/json" },
+								},
+							)
+						: offerResponse(result, 201);
+				} catch (error) {
+					return serverError("make an offer", error);
+				}
+			}, "trade"),
+		},
+		"/api/offers/accept": {
+			GET: postOnly("Use POST to accept an offer"),
+			POST: withAuth(async (req, userData, server) => {
+				try {
+					const data = await req.json();
+					const offerId = getId(data, "offer_id");
+
+					if (offerId === null) {
+						return badRequest("Offer ID is required");
+					}
+
+					const result = acceptOffer(db, userData.userId, offerId);
+
+					if (result.status === "ok") {
+						const { offer } = result;
+						recordAuditEvent(
+							db,
+							"coin_purchased",
+							getAuditContext(req, server, userData.userId),
+							{
+								coinId: offer.coinId,
+								buyerId: offer.buyerId,
+								sellerId: offer.sellerId,
+								price: offer.amount,
+								transactionId: offer.transactionId,
+								offerId: offer.id,
+							},
+						);
+
+						if (offer.transactionId !== null) {
+							announceSale(db, offer.transactionId);
+						}
+					}
+
+					return offerResponse(result);
+				} catch (error) {
+					return serverError("accept the offer", error);
+				}
+			}, "trade"),
+		},
+		"/api/offers/reject": {
+			GET: postOnly("Use POST to reject an offer"),
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const offerId = getId(data, "offer_id");
+
+					if (offerId === null) {
+						return badRequest("Offer ID is required");
+					}
+
+					return offerResponse(rejectOffer(db, userData.userId, offerId));
+				} catch (error) {
+					return serverError("reject the offer", error);
+				}
+			}, "trade"),
+		},
+		"/api/offers/counter": {
+			GET: postOnly("Use POST to counter an offer"),
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const offerId = getId(data, "offer_id");
+					const amount = getAmount(data);
+					const expiresAt = getExpiry(data);
+
+					if (offerId === null) {
+						return badRequest("Offer ID is required");
+					}
+					if (amount === null) {
+						return badRequest("Offer amount must be greater than 0");
+					}
+					if (expiresAt === null) {
+						return badRequest(
+							`Expiry must be between 1 and ${MAX_EXPIRY_HOURS} hours`,
+						);
+					}
+
+					return offerResponse(
+						counterOffer(db, userData.userId, offerId, amount, expiresAt),
+						201,
+					);
+				} catch (error) {
+					return serverError("counter the offer", error);
+				}
+			}, "trade"),
+		},
+		"/api/offers/cancel": {
+			GET: postOnly("Use POST to withdraw an offer"),
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+					const offerId = getId(data, "offer_id");
+
+					if (offerId === null) {
+						return badRequest("Offer ID is required");
+					}
+
+					return offerResponse(cancelOffer(db, userData.userId, offerId));
+				} catch (error) {
+					return serverError("withdraw the offer", error);
+				}
+			}, "trade"),
+		},
+	};
+}
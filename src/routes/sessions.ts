@@ -0,0 +1,91 @@
+import { TokenManager } from "../utils/auth_token";
+import { withAuth } from "./middleware";
+
+/**
+ * Routes for listing and revoking the signed-in client's sessions
+ */
+export function sessionRoutes() {
+	return {
+		"/api/sessions": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch sessions", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				const sessions = await TokenManager.listSessions(userData.userId);
+
+				return Response.json({
+					sessions: sessions.map((session) => ({
+						id: session.id,
+						userAgent: session.userAgent,
+						ipAddress: session.ipAddress,
+						createdAt: new Date(session.createdAt).toISOString(),
+						lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+						current: session.id === userData.sessionId,
+					})),
+				});
+			}),
+		},
+		"/api/sessions/revoke": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to revoke a session", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					if (!data.session_id || typeof data.session_id !== "string") {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Session ID is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Sessions of other users look the same as missing ones
+					const revoked = await TokenManager.revokeSession(
+						userData.userId,
+						data.session_id,
+					);
+
+					if (!revoked) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Session not found",
+							}),
+							{ status: 404, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Session revoked",
+							session_id: data.session_id,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error revoking session:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while revoking session",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
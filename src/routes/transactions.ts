@@ -0,0 +1,423 @@
+import type { Database } from "bun:sqlite";
+import type { Server } from "bun";
+import { type MarketEvent, marketEvents } from "../events";
+import {
+	type TransactionFilters,
+	matchesFilters,
+} from "../transaction_filters";
+import type { Transaction } from "../types";
+import { storeBitSlowHash } from "../utils/bitslow_hashes";
+import { getCursor, toCursorPage } from "../utils/cursor";
+import {
+	type SortField,
+	describeSort,
+	getSort,
+	keysetCondition,
+	orderBy,
+} from "../utils/sort";
+import {
+	TRANSACTION_LIST_TAG,
+	filterTag,
+	generateTransactionsCacheKey,
+	transactionCache,
+} from "./cache";
+
+// How long browsers wait before reconnecting a dropped stream
+const STREAM_RETRY_MS = 3000;
+
+// Comment lines keep idle streams from being closed by proxies
+const STREAM_HEARTBEAT_MS = 15 * 1000;
+
+// Event ids are written as `epoch:id`
+const LAST_EVENT_ID_PATTERN = /^([^:]+):(\d+)$/;
+
+type TransactionRow = Transaction & { bitslow_hash: string | null };
+
+// What clients may sort the listing by. Names sort regardless of case,
+// and minted coins have no seller.
+const SORT_FIELDS: Record<string, SortField<TransactionRow>> = {
+	id: { expression: "t.id", type: "number", value: (row) => row.id },
+	date: {
+		expression: "t.transaction_date",
+		type: "string",
+		value: (row) => row.transaction_date,
+	},
+	amount: {
+		expression: "t.amount",
+		type: "number",
+		value: (row) => row.amount,
+	},
+	value: { expression: "c.value", type: "number", value: (row) => row.value },
+	coin: {
+		expression: "t.coin_id",
+		type: "number",
+		value: (row) => row.coin_id,
+	},
+	buyer: {
+		expression: "buyer.name COLLATE NOCASE",
+		type: "string",
+		value: (row) => row.buyer_name,
+	},
+	seller: {
+		expression: "COALESCE(seller.name, 'Original Issuer') COLLATE NOCASE",
+		type: "string",
+		value: (row) => row.seller_name ?? "Original Issuer",
+	},
+};
+
+function getFilters(url: URL): TransactionFilters {
+	return {
+		startDate: url.searchParams.get("startDate"),
+		endDate: url.searchParams.get("endDate"),
+		minValue: url.searchParams.get("minValue"),
+		maxValue: url.searchParams.get("maxValue"),
+		buyerName: url.searchParams.get("buyerName"),
+		sellerName: url.searchParams.get("sellerName"),
+	};
+}
+
+/**
+ * Public transaction feed with filters, sorting and pagination, by page
+ * number or by the `after`/`before` cursors each page returns
+ * @param db SQLite database instance
+ */
+export function transactionRoutes(db: Database) {
+	return {
+		"/api/transactions": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch transactions", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: async (req: Request) => {
+				try {
+					// Get pagination parameters from query string
+					const url = new URL(req.url);
+					const page = Number.parseInt(url.searchParams.get("page") || "1");
+					const pageSize = Number.parseInt(
+						url.searchParams.get("pageSize") || "15",
+					);
+
+					// Get filter parameters
+					const filters = getFilters(url);
+					const {
+						startDate,
+						endDate,
+						minValue,
+						maxValue,
+						buyerName,
+						sellerName,
+					} = filters;
+
+					// Newest first unless asked otherwise
+					const sort = getSort(
+						url,
+						SORT_FIELDS,
+						{ sort: "date", order: "desc" },
+						"id",
+					);
+					if (!sort) {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid sort" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Keyset pages carry the sorted values of the row they start from
+					const cursor = getCursor(
+						url,
+						sort.map((column) => column.type),
+					);
+					if (cursor.status === "invalid") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Invalid cursor" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Generate cache key based on all query parameters
+					const cacheKey = generateTransactionsCacheKey(
+						page,
+						pageSize,
+						cursor,
+						describeSort(sort),
+						filters,
+					);
+
+					// Check if we have a valid cache entry
+					const cachedData = transactionCache.get(cacheKey);
+					if (cachedData) {
+						console.log("🔄 Using server-side cached transactions data");
+						return Response.json(cachedData);
+					}
+
+					// Validate page and pageSize
+					const validPage = page > 0 ? page : 1;
+					const validPageSize = pageSize > 0 && pageSize <= 100 ? pageSize : 15;
+
+					// Calculate offset
+					const offset = (validPage - 1) * validPageSize;
+
+					// Build query with filters
+					let countQuery = `
+						SELECT COUNT(*) as total
+						FROM transactions t
+						LEFT JOIN clients seller ON t.seller_id = seller.id
+						JOIN clients buyer ON t.buyer_id = buyer.id
+						JOIN coins c ON t.coin_id = c.coin_id
+						WHERE t.kind = 'purchase' AND t.voided_at IS NULL
+            		`;
+
+					// Add filter conditions to count query
+					const countParams: any[] = [];
+
+					if (startDate) {
+						countQuery += " AND t.transaction_date >= ?";
+						countParams.push(startDate);
+					}
+
+					if (endDate) {
+						countQuery += " AND t.transaction_date <= ?";
+						countParams.push(endDate);
+					}
+
+					if (minValue) {
+						countQuery += " AND c.value >= ?";
+						countParams.push(minValue);
+					}
+
+					if (maxValue) {
+						countQuery += " AND c.value <= ?";
+						countParams.push(maxValue);
+					}
+
+					if (buyerName) {
+						countQuery += " AND buyer.name LIKE ?";
+						countParams.push(`%${buyerName}%`);
+					}
+
+					if (sellerName) {
+						countQuery +=
+							" AND (seller.name LIKE ? OR (seller.name IS NULL AND ? = 'Original Issuer'))";
+						countParams.push(`%${sellerName}%`, sellerName);
+					}
+
+					// Get total count with filters
+					let totalCount: { total: number };
+					totalCount = db.query(countQuery).get() as { total: number };
+
+					// Base data query
+					let dataQuery = `
+						SELECT
+							t.id,
+							t.coin_id,
+							t.amount,
+							t.transaction_date,
+							seller.id as seller_id,
+							seller.name as seller_name,
+							buyer.id as buyer_id,
+							buyer.name as buyer_name,
+							c.bit1,
+							c.bit2,
+							c.bit3,
+							c.value,
+							c.bitslow_hash
+						FROM transactions t
+						LEFT JOIN clients seller ON t.seller_id = seller.id
+						JOIN clients buyer ON t.buyer_id = buyer.id
+						JOIN coins c ON t.coin_id = c.coin_id
+						WHERE t.kind = 'purchase' AND t.voided_at IS NULL
+            		`;
+
+					// Add filters to data query
+					const dataParams: any[] = [];
+
+					if (startDate) {
+						dataQuery += " AND t.transaction_date >= ?";
+						dataParams.push(startDate);
+					}
+
+					if (endDate) {
+						dataQuery += " AND t.transaction_date <= ?";
+						dataParams.push(endDate);
+					}
+
+					if (minValue) {
+						dataQuery += " AND c.value >= ?";
+						dataParams.push(minValue);
+					}
+
+					if (maxValue) {
+						dataQuery += " AND c.value <= ?";
+						dataParams.push(maxValue);
+					}
+
+					if (buyerName) {
+						dataQuery += " AND buyer.name LIKE ?";
+						dataParams.push(`%${buyerName}%`);
+					}
+
+					if (sellerName) {
+						dataQuery +=
+							" AND (seller.name LIKE ? OR (seller.name IS NULL AND ? = 'Original Issuer'))";
+						dataParams.push(`%${sellerName}%`, sellerName);
+					}
+
+					// Add ordering and pagination, walking backwards from a "before"
+					// cursor. One extra row tells whether another page follows.
+					const backwards =
+						cursor.status === "ok" && cursor.direction === "before";
+					if (cursor.status === "ok") {
+						const keyset = keysetCondition(sort, cursor.key, backwards);
+						dataQuery += ` AND ${keyset.sql}`;
+						dataParams.push(...keyset.params);
+					}
+
+					dataQuery += ` ORDER BY ${orderBy(sort, backwards)} LIMIT ?`;
+					dataParams.push(validPageSize + 1);
+					if (cursor.status === "none") {
+						dataQuery += " OFFSET ?";
+						dataParams.push(offset);
+					}
+
+					// Execute query with parameters
+					let transactions;
+					if (dataParams.length > 0) {
+						const stmt = db.prepare(dataQuery);
+						transactions = stmt.all(...(dataParams as any[]));
+					} else {
+						transactions = db.query(dataQuery).all();
+					}
+
+					const { rows, nextCursor, prevCursor } = toCursorPage(
+						transactions as TransactionRow[],
+						validPageSize,
+						cursor,
+						(row) => sort.map((column) => column.value(row)),
+						offset > 0,
+					);
+
+					// Use the stored BitSlow, computing it only for coins not backfilled yet
+					const enhancedTransactions = await Promise.all(
+						rows.map(async ({ bitslow_hash, ...transaction }) => ({
+							...transaction,
+							computedBitSlow:
+								bitslow_hash ??
+								(await storeBitSlowHash(db, {
+									coin_id: transaction.coin_id,
+									bit1: transaction.bit1,
+									bit2: transaction.bit2,
+									bit3: transaction.bit3,
+								})),
+						})),
+					);
+
+					// Prepare response data
+					const responseData = {
+						transactions: enhancedTransactions,
+						total: totalCount.total,
+						page: validPage,
+						pageSize: validPageSize,
+						nextCursor,
+						prevCursor,
+					};
+
+					// Cache the response until a matching transaction comes in
+					transactionCache.set(cacheKey, responseData, [
+						TRANSACTION_LIST_TAG,
+						filterTag(filters),
+					]);
+
+					return Response.json(responseData);
+				} catch (error) {
+					console.error("Error fetching transactions:", error);
+					return new Response("Error fetching transactions", { status: 500 });
+				}
+			},
+		},
+		"/api/transactions/stream": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to stream transactions", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: (req: Request, server: Server<unknown>) => {
+				const filters = getFilters(new URL(req.url));
+				// Browsers resend the last id they saw when reconnecting
+				const lastEventId = req.headers.get("Last-Event-ID");
+				const resumeFrom = lastEventId
+					? LAST_EVENT_ID_PATTERN.exec(lastEventId)
+					: null;
+				const encoder = new TextEncoder();
+				let unsubscribe = () => {};
+				let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+				// The stream stays open far longer than the idle timeout allows
+				server.timeout(req, 0);
+
+				const stream = new ReadableStream<Uint8Array>({
+					start(controller) {
+						const write = (chunk: string) =>
+							controller.enqueue(encoder.encode(chunk));
+
+						const forward = (event: MarketEvent) => {
+							const id = `id: ${event.epoch}:${event.id}\n`;
+							const transaction = event.data as Transaction;
+
+							if (
+								event.type === "new-transaction" &&
+								matchesFilters(transaction, filters)
+							) {
+								write(
+									`${id}event: transaction\ndata: ${JSON.stringify(transaction)}\n\n`,
+								);
+							} else {
+								// Advance the client's cursor past events it does not
+								// want, so its resume point never falls out of the backlog
+								write(`${id}\n`);
+							}
+						};
+
+						write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+						// An id we did not issue is as good as a stale one
+						const missed = resumeFrom
+							? marketEvents.since(resumeFrom[1], Number(resumeFrom[2]))
+							: null;
+
+						if (missed) {
+							missed.forEach(forward);
+						} else {
+							// Start the client's cursor here, and have it reload when
+							// what it shows is too old to patch
+							write(`id: ${marketEvents.epoch}:${marketEvents.latestId}\n`);
+							write(lastEventId ? "event: resync\ndata: {}\n\n" : "\n");
+						}
+
+						unsubscribe = marketEvents.subscribe(forward);
+						heartbeat = setInterval(
+							() => write(": heartbeat\n\n"),
+							STREAM_HEARTBEAT_MS,
+						);
+					},
+					cancel() {
+						unsubscribe();
+						clearInterval(heartbeat);
+					},
+				});
+
+				return new Response(stream, {
+					headers: {
+						"Content-Type": "text/event-stream",
+						"Cache-Control": "no-cache",
+						Connection: "keep-alive",
+					},
+				});
+			},
+		},
+	};
+}
@@ -0,0 +1,175 @@
+import type { Database } from "bun:sqlite";
+import {
+	beginTwoFactorEnrollment,
+	confirmTwoFactorEnrollment,
+	disableTwoFactor,
+	getTwoFactorStatus,
+} from "../two_factor";
+import { withAuth } from "./middleware";
+
+/**
+ * Routes for enrolling in and turning off TOTP two-factor authentication
+ * @param db SQLite database instance
+ */
+export function twoFactorRoutes(db: Database) {
+	return {
+		"/api/2fa/status": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch two-factor status", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				return Response.json(getTwoFactorStatus(db, userData.userId));
+			}),
+		},
+		"/api/2fa/setup": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to start two-factor setup", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (_req, userData) => {
+				try {
+					const enrollment = beginTwoFactorEnrollment(db, userData.userId);
+
+					if (!enrollment) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Two-factor authentication is already enabled",
+							}),
+							{ status: 409, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							secret: enrollment.secret,
+							otpauthUri: enrollment.otpauthUri,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error starting two-factor setup:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during two-factor setup",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+		"/api/2fa/enable": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to enable two-factor authentication", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					if (!data.code || typeof data.code !== "string") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Code is required" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const recoveryCodes = confirmTwoFactorEnrollment(
+						db,
+						userData.userId,
+						data.code,
+					);
+
+					if (!recoveryCodes) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Invalid code, or two-factor setup was not started",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Recovery codes are only ever shown here, we keep just their hashes
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Two-factor authentication enabled",
+							recoveryCodes,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error enabling two-factor authentication:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while enabling two-factor authentication",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+		"/api/2fa/disable": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to disable two-factor authentication", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					if (!data.code || typeof data.code !== "string") {
+						return new Response(
+							JSON.stringify({ success: false, message: "Code is required" }),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					if (!disableTwoFactor(db, userData.userId, data.code)) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Invalid two-factor code",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Two-factor authentication disabled",
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error disabling two-factor authentication:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error while disabling two-factor authentication",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
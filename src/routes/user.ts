@@ -0,0 +1,312 @@
+import type { Database } from "bun:sqlite";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	clientCashAccount,
+	postJournal,
+} from "../ledger";
+import { withAuth } from "./middleware";
+
+/**
+ * Routes for the signed-in client's profile, holdings and wallet
+ * @param db SQLite database instance
+ */
+export function userRoutes(db: Database) {
+	return {
+		"/api/user": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch user data", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				type UserDetails = {
+					id: number;
+					name: string;
+					email: string;
+					phone: string | null;
+					address: string | null;
+					created_at: string;
+					email_verified_at: string | null;
+					role: string;
+				};
+
+				// Fetch user details from database using userId
+				const user = db
+					.query<UserDetails, number>(`
+					SELECT id, name, email, phone, address, created_at, email_verified_at, role
+					FROM clients
+					WHERE id = ?
+				`)
+					.get(userData.userId);
+
+				if (!user) {
+					return new Response(
+						JSON.stringify({ success: false, message: "User not found" }),
+						{ status: 404, headers: { "Content-Type": "application/json" } },
+					);
+				}
+
+				// Return all user data (excluding password hash for security)
+				return new Response(
+					JSON.stringify({
+						authenticated: true,
+						user: {
+							id: user.id,
+							name: user.name,
+							email: user.email,
+							phone: user.phone,
+							address: user.address,
+							createdAt: user.created_at,
+							emailVerified: user.email_verified_at !== null,
+							role: user.role,
+						},
+					}),
+					{ status: 200, headers: { "Content-Type": "application/json" } },
+				);
+			}, "read"),
+		},
+		"/api/user/transactions": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch user transactions", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				type UserTransaction = {
+					id: number;
+					buyer_id: number;
+					seller_id: number;
+					coin_id: number;
+					transaction_date: string;
+					amount: number;
+				};
+
+				const transactions = db
+					.query<UserTransaction, [number, number]>(`
+					SELECT id, buyer_id, seller_id, coin_id, transaction_date, amount
+					FROM transactions
+					WHERE (buyer_id = ? OR seller_id = ?) AND voided_at IS NULL
+					ORDER BY transaction_date DESC
+				`)
+					.all(userData.userId, userData.userId);
+
+				return Response.json(transactions);
+			}, "read"),
+		},
+		"/api/user/currency": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch user currency", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				// Count the number of BitSlow coins the user has
+				const coinCount = db
+					.query(
+						"SELECT COUNT(*) as totalCoins FROM coins WHERE client_id = ? AND burned_at IS NULL",
+					)
+					.get(userData.userId);
+
+				return Response.json(coinCount);
+			}, "read"),
+		},
+		"/api/user/monetaryValue": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch user monetary value", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				const monetaryValue = db
+					.query(
+						"SELECT SUM(value) as totalValue FROM coins WHERE client_id = ? AND burned_at IS NULL",
+					)
+					.get(userData.userId);
+
+				return Response.json(monetaryValue);
+			}, "read"),
+		},
+		"/api/user/balance": {
+			POST: () => {
+				// This endpoint is not meant to be accessed directly via POST
+				return new Response("Use GET to fetch user cash balance", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			GET: withAuth(async (_req, userData) => {
+				const balance = db
+					.query("SELECT cash_balance as cashBalance FROM clients WHERE id = ?")
+					.get(userData.userId);
+
+				return Response.json(balance);
+			}, "read"),
+		},
+		"/api/user/deposit": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to deposit cash", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					// Validate the amount
+					if (
+						!data.amount ||
+						typeof data.amount !== "number" ||
+						data.amount <= 0
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Valid amount is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					db.transaction(() => {
+						db.query(
+							"UPDATE clients SET cash_balance = cash_balance + ? WHERE id = ?",
+						).run(data.amount, userData.userId);
+
+						postJournal(db, {
+							description: "Cash deposit",
+							legs: [
+								{
+									debit: EXTERNAL_CASH_ACCOUNT,
+									credit: clientCashAccount(userData.userId),
+									amount: data.amount,
+								},
+							],
+						});
+					})();
+
+					const balance = db
+						.query<{ cash_balance: number }, number>(
+							"SELECT cash_balance FROM clients WHERE id = ?",
+						)
+						.get(userData.userId);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Deposit successful",
+							cashBalance: balance?.cash_balance ?? 0,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error depositing cash:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during deposit",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+		"/api/user/withdraw": {
+			GET: () => {
+				// This endpoint is not meant to be accessed directly via GET
+				return new Response("Use POST to withdraw cash", {
+					status: 405,
+					headers: { "Content-Type": "text/plain" },
+				});
+			},
+			POST: withAuth(async (req, userData) => {
+				try {
+					const data = await req.json();
+
+					// Validate the amount
+					if (
+						!data.amount ||
+						typeof data.amount !== "number" ||
+						data.amount <= 0
+					) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Valid amount is required",
+							}),
+							{ status: 400, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					// Only withdraw when the balance covers the full amount
+					const withdrawn = db.transaction(() => {
+						const result = db
+							.query(
+								"UPDATE clients SET cash_balance = cash_balance - ? WHERE id = ? AND cash_balance >= ?",
+							)
+							.run(data.amount, userData.userId, data.amount);
+
+						if (result.changes === 0) {
+							return false;
+						}
+
+						postJournal(db, {
+							description: "Cash withdrawal",
+							legs: [
+								{
+									debit: clientCashAccount(userData.userId),
+									credit: EXTERNAL_CASH_ACCOUNT,
+									amount: data.amount,
+								},
+							],
+						});
+						return true;
+					})();
+
+					if (!withdrawn) {
+						return new Response(
+							JSON.stringify({
+								success: false,
+								message: "Insufficient funds",
+							}),
+							{ status: 402, headers: { "Content-Type": "application/json" } },
+						);
+					}
+
+					const balance = db
+						.query<{ cash_balance: number }, number>(
+							"SELECT cash_balance FROM clients WHERE id = ?",
+						)
+						.get(userData.userId);
+
+					return new Response(
+						JSON.stringify({
+							success: true,
+							message: "Withdrawal successful",
+							cashBalance: balance?.cash_balance ?? 0,
+						}),
+						{ status: 200, headers: { "Content-Type": "application/json" } },
+					);
+				} catch (error) {
+					console.error("Error withdrawing cash:", error);
+					return new Response(
+						JSON.stringify({
+							success: false,
+							message: "Server error during withdrawal",
+						}),
+						{ status: 500, headers: { "Content-Type": "application/json" } },
+					);
+				}
+			}),
+		},
+	};
+}
@@ -1,6 +1,17 @@
 import type { Database } from "bun:sqlite";
 import { faker } from "@faker-js/faker";
-import { hashPassword } from "./utils/password_hashing";
+import { computeBitSlow } from "./bitslow";
+import { openDatabase } from "./db";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	HOUSE_COINS_ACCOUNT,
+	MINT_ACCOUNT,
+	clientCashAccount,
+	clientCoinsAccount,
+	postJournal,
+} from "./ledger";
+import { runMigrations } from "./migrations";
+import { hashPasswordSync } from "./utils/password_hashing";
 
 /**
  * Initialize database schema and seed with random data
@@ -27,11 +38,18 @@ export function seedDatabase(
 
 	if (clearExisting) {
 		console.log("🗑️ Clearing existing data...");
-		db.exec(`
-      DROP TABLE IF EXISTS transactions;
-      DROP TABLE IF EXISTS coins;
-      DROP TABLE IF EXISTS clients;
-    `);
+
+		// Drop everything, including the migration history, so the schema is rebuilt
+		const tables = db
+			.query(
+				"SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'",
+			)
+			.all() as { name: string }[];
+		db.transaction(() => {
+			for (const table of tables) {
+				db.exec(`DROP TABLE IF EXISTS "${table.name}"`);
+			}
+		})();
 	}
 
 	// Initialize database schema
@@ -40,7 +58,8 @@ export function seedDatabase(
 	// Generate random data
 	const clients = seedClients(db, clientCount);
 	const coins = seedCoins(db, bitSlowCount, clients.length);
-	seedTransactions(db, transactionCount, coins.length, clients.length);
+	seedTransactions(db, transactionCount, clients.length);
+	seedLedger(db);
 
 	console.log("✅ Database seeding complete!");
 	console.log(
@@ -58,54 +77,8 @@ export function seedDatabase(
  * Initialize database schema
  */
 function initializeSchema(db: Database) {
-	console.log("📝 Creating tables if they don't exist...");
-
-	db.exec(`
-    -- Create clients table
-    CREATE TABLE IF NOT EXISTS clients (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      email TEXT UNIQUE NOT NULL,
-      phone TEXT,
-      address TEXT,
-	  password_hash TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-
-    -- Create coins table
-    CREATE TABLE IF NOT EXISTS coins (
-      coin_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      client_id INTEGER,
-      bit1 INTEGER NOT NULL,
-      bit2 INTEGER NOT NULL,
-      bit3 INTEGER NOT NULL,
-      value REAL NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (client_id) REFERENCES clients (id)
-    );
-
-    -- Create transactions table
-    CREATE TABLE IF NOT EXISTS transactions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      coin_id INTEGER NOT NULL,
-      seller_id INTEGER,
-      buyer_id INTEGER NOT NULL,
-      amount REAL NOT NULL,
-      transaction_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (coin_id) REFERENCES coins (coin_id),
-      FOREIGN KEY (seller_id) REFERENCES clients (id),
-      FOREIGN KEY (buyer_id) REFERENCES clients (id)
-    );
-
-	-- Create authentication tokens table
-	CREATE TABLE IF NOT EXISTS auth_tokens (
-		token TEXT PRIMARY KEY,
-		client_id INTEGER NOT NULL,
-		email TEXT NOT NULL,
-		expires_at TIMESTAMP NOT NULL,
-		FOREIGN KEY (client_id) REFERENCES clients (id)
-	);
-  `);
+	console.log("📝 Applying pending schema migrations...");
+	runMigrations(db);
 }
 
 /**
@@ -116,8 +89,8 @@ function seedClients(db: Database, count: number): number[] {
 
 	const clientIds: number[] = [];
 	const insertClient = db.prepare(`
-    INSERT INTO clients (name, email, phone, address, password_hash)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO clients (name, email, phone, address, password_hash, password_algorithm, cash_balance)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
 	db.transaction(() => {
@@ -131,14 +104,25 @@ function seedClients(db: Database, count: number): number[] {
 			const address = faker.location.streetAddress({ useFullAddress: true });
 
 			const password = faker.internet.password();
-			const passwordHash = hashPassword(password);
+			const passwordHash = hashPasswordSync(password);
 
 			// Log the generated credentials for testing
 			console.log(
 				`Generated client: ${name}, Email: ${email}, Password: ${password}`,
 			);
 
-			const info = insertClient.run(name, email, phone, address, passwordHash);
+			// Start every client with enough cash to trade a few BitSlows
+			const cashBalance = Math.floor(Math.random() * 200_000) + 50_000;
+
+			const info = insertClient.run(
+				name,
+				email,
+				phone,
+				address,
+				passwordHash.hash,
+				passwordHash.algorithm,
+				cashBalance,
+			);
 			clientIds.push(Number(info.lastInsertRowid));
 		}
 	})();
@@ -154,8 +138,8 @@ function seedCoins(db: Database, count: number, clientCount: number): number[] {
 
 	const coinIds: number[] = [];
 	const insertCoin = db.prepare(`
-    INSERT INTO coins (client_id, bit1, bit2, bit3, value)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO coins (client_id, bit1, bit2, bit3, value, bitslow_hash)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
 
 	// Track used values to ensure each BitSlow has a unique value
@@ -200,7 +184,17 @@ function seedCoins(db: Database, count: number, clientCount: number): number[] {
 			// Add to used values set
 			usedValues.add(value);
 
-			const info = insertCoin.run(clientId, bit1, bit2, bit3, value);
+			// Compute the expensive BitSlow hash once, up front
+			const bitslowHash = computeBitSlow(bit1, bit2, bit3);
+
+			const info = insertCoin.run(
+				clientId,
+				bit1,
+				bit2,
+				bit3,
+				value,
+				bitslowHash,
+			);
 			coinIds.push(Number(info.lastInsertRowid));
 		}
 	})();
@@ -237,12 +231,7 @@ function generateDistinctRandomValues(
 /**
  * Generate random transactions
  */
-function seedTransactions(
-	db: Database,
-	count: number,
-	coinCount: number,
-	clientCount: number,
-) {
+function seedTransactions(db: Database, count: number, clientCount: number) {
 	console.log(`💸 Generating ${count} random transactions...`);
 
 	const insertTransaction = db.prepare(`
@@ -250,6 +239,18 @@ function seedTransactions(
     VALUES (?, ?, ?, ?, ?)
   `);
 
+	// Only BitSlows that start with an owner get a trading history,
+	// the rest stay available for purchase
+	const ownedCoinIds = (
+		db.query("SELECT coin_id FROM coins WHERE client_id IS NOT NULL").all() as {
+			coin_id: number;
+		}[]
+	).map((coin) => coin.coin_id);
+
+	if (ownedCoinIds.length === 0) {
+		return;
+	}
+
 	// Track which BitSlows have been sold (for realistic chain of ownership)
 	const coinOwners: Record<number, number | null> = {};
 
@@ -260,7 +261,8 @@ function seedTransactions(
 	db.transaction(() => {
 		for (let i = 0; i < count; i++) {
 			// Select a random BitSlow
-			const coinId = Math.floor(Math.random() * coinCount) + 1;
+			const coinId =
+				ownedCoinIds[Math.floor(Math.random() * ownedCoinIds.length)];
 
 			// Get current owner (seller) or null if it's a new issuance
 			const sellerId = coinOwners[coinId] || null;
@@ -300,5 +302,71 @@ function seedTransactions(
 			// Update ownership
 			coinOwners[coinId] = buyerId;
 		}
+
+		// The last buyer in each chain is the coin's current owner
+		const updateOwner = db.prepare(
+			"UPDATE coins SET client_id = ? WHERE coin_id = ?",
+		);
+		for (const [coinId, ownerId] of Object.entries(coinOwners)) {
+			updateOwner.run(ownerId, Number(coinId));
+		}
 	})();
 }
+
+/**
+ * Record opening balances for the seeded cash and coins
+ */
+function seedLedger(db: Database) {
+	console.log("📒 Recording opening ledger balances...");
+
+	db.transaction(() => {
+		const clients = db.query("SELECT id, cash_balance FROM clients").all() as {
+			id: number;
+			cash_balance: number;
+		}[];
+		for (const client of clients) {
+			postJournal(db, {
+				description: "Opening cash balance",
+				legs: [
+					{
+						debit: EXTERNAL_CASH_ACCOUNT,
+						credit: clientCashAccount(client.id),
+						amount: client.cash_balance,
+					},
+				],
+			});
+		}
+
+		const coins = db
+			.query("SELECT coin_id, client_id, value FROM coins")
+			.all() as { coin_id: number; client_id: number | null; value: number }[];
+		for (const coin of coins) {
+			postJournal(db, {
+				description: "Opening coin holding",
+				coinId: coin.coin_id,
+				legs: [
+					{
+						debit: MINT_ACCOUNT,
+						credit:
+							coin.client_id === null
+								? HOUSE_COINS_ACCOUNT
+								: clientCoinsAccount(coin.client_id),
+						amount: coin.value,
+					},
+				],
+			});
+		}
+	})();
+}
+
+// Reseed from scratch when run directly: `bun run seed`
+if (import.meta.main) {
+	const db = openDatabase();
+	seedDatabase(db, {
+		clientCount: 30,
+		bitSlowCount: 20,
+		transactionCount: 50,
+		clearExisting: true,
+	});
+	db.close();
+}
@@ -49,17 +49,50 @@ export async function loginUser(
 
 		const data = await response.json();
 
+		if (response.status === 429) {
+			throw new Error(
+				`${data.message} (retry in ${response.headers.get("Retry-After")}s)`,
+			);
+		}
+
 		if (!response.ok) {
 			throw new Error(data.message || "Login failed");
 		}
 
-		// Store token in localStorage for persistence
-		if (data.token) {
-			localStorage.setItem("authToken", data.token);
-			localStorage.setItem("userId", data.userId);
-			localStorage.setItem("userName", data.name);
+		// With 2FA on, nothing is stored until the code step succeeds
+		storeSession(data);
+
+		return data;
+	} catch (error) {
+		if (error instanceof Error) {
+			throw error;
+		}
+		throw new Error("An unknown error occurred during login");
+	}
+}
+
+// Finish a login that needs a two-factor code
+export async function completeTwoFactorLogin(
+	challenge: string,
+	code: string,
+): Promise<AuthResponse> {
+	try {
+		const response = await fetch(`${API_BASE_URL}/login/2fa`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ challenge, code }),
+		});
+
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.message || "Two-factor verification failed");
 		}
 
+		storeSession(data);
+
 		return data;
 	} catch (error) {
 		if (error instanceof Error) {
@@ -69,20 +102,177 @@ export async function loginUser(
 	}
 }
 
+// POST to one of the signed-out account endpoints
+async function postAccountRequest(
+	path: string,
+	body: Record<string, string>,
+	fallbackMessage: string,
+): Promise<AuthResponse> {
+	try {
+		const response = await fetch(`${API_BASE_URL}/${path}`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify(body),
+		});
+
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.message || fallbackMessage);
+		}
+
+		return data;
+	} catch (error) {
+		if (error instanceof Error) {
+			throw error;
+		}
+		throw new Error(fallbackMessage);
+	}
+}
+
+// Email a password reset link
+export async function requestPasswordReset(
+	email: string,
+): Promise<AuthResponse> {
+	return postAccountRequest(
+		"password/forgot",
+		{ email },
+		"Failed to request password reset",
+	);
+}
+
+// Choose a new password with the token from the reset link
+export async function resetPassword(
+	token: string,
+	password: string,
+): Promise<AuthResponse> {
+	return postAccountRequest(
+		"password/reset",
+		{ token, password },
+		"Failed to reset password",
+	);
+}
+
+// Confirm the email address with the token from the verification link
+export async function verifyEmail(token: string): Promise<AuthResponse> {
+	return postAccountRequest(
+		"email/verify",
+		{ token },
+		"Failed to verify email",
+	);
+}
+
+// Store tokens in localStorage for persistence
+function storeSession(data: AuthResponse): void {
+	if (data.token && data.refreshToken) {
+		localStorage.setItem("authToken", data.token);
+		localStorage.setItem("refreshToken", data.refreshToken);
+		localStorage.setItem("userId", String(data.userId));
+		localStorage.setItem("userName", data.name ?? "");
+		localStorage.setItem("userRole", data.role ?? "user");
+	}
+}
+
+// Forget the signed-in user on this device
+function clearSession(): void {
+	localStorage.removeItem("authToken");
+	localStorage.removeItem("refreshToken");
+	localStorage.removeItem("userId");
+	localStorage.removeItem("userName");
+	localStorage.removeItem("userRole");
+}
+
+// Only one refresh runs at a time, concurrent callers wait for it
+let pendingRefresh: Promise<boolean> | null = null;
+
+async function requestNewTokens(): Promise<boolean> {
+	const refreshToken = localStorage.getItem("refreshToken");
+
+	if (!refreshToken) {
+		return false;
+	}
+
+	try {
+		const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ refreshToken }),
+		});
+
+		if (!response.ok) {
+			// The session expired or was revoked, so sign out here as well
+			if (response.status === 401) {
+				clearSession();
+			}
+			return false;
+		}
+
+		const data = await response.json();
+		localStorage.setItem("authToken", data.token);
+		localStorage.setItem("refreshToken", data.refreshToken);
+		return true;
+	} catch (error) {
+		console.error("Token refresh error:", error);
+		return false;
+	}
+}
+
+// Swap the refresh token for a new access token
+export function refreshSession(): Promise<boolean> {
+	if (!pendingRefresh) {
+		pendingRefresh = requestNewTokens().finally(() => {
+			pendingRefresh = null;
+		});
+	}
+	return pendingRefresh;
+}
+
+// Fetch with the access token, refreshing it once if it has expired
+export async function authFetch(
+	url: string,
+	init: RequestInit = {},
+): Promise<Response> {
+	const send = (token: string | null) => {
+		const headers = new Headers(init.headers);
+		if (token) {
+			headers.set("Authorization", `Bearer ${token}`);
+		}
+		return fetch(url, { ...init, headers });
+	};
+
+	const token = getAuthToken();
+	const response = await send(token);
+
+	if (response.status !== 401 || !token) {
+		return response;
+	}
+
+	// Another tab may already have refreshed, only rotate if it has not
+	const latestToken = getAuthToken();
+	if (latestToken && latestToken !== token) {
+		return send(latestToken);
+	}
+
+	if (!(await refreshSession())) {
+		return response;
+	}
+
+	return send(getAuthToken());
+}
+
 // Verify if user is authenticated
 export async function verifyAuth(): Promise<boolean> {
 	try {
-		const token = localStorage.getItem("authToken");
-
-		if (!token) {
+		if (!isLoggedIn()) {
 			return false;
 		}
 
-		const response = await fetch(`${API_BASE_URL}/auth/verify`, {
+		const response = await authFetch(`${API_BASE_URL}/auth/verify`, {
 			method: "GET",
-			headers: {
-				Authorization: `Bearer ${token}`,
-			},
 		});
 
 		const data = await response.json();
@@ -95,26 +285,20 @@ export async function verifyAuth(): Promise<boolean> {
 
 // Log out user
 export function logoutUser(): Promise<void> {
-	const token = localStorage.getItem("authToken");
-
-	localStorage.removeItem("authToken");
-	localStorage.removeItem("userId");
-	localStorage.removeItem("userName");
-
-	if (!token) {
+	if (!isLoggedIn()) {
+		clearSession();
 		return Promise.resolve();
 	}
 
-	return fetch(`${API_BASE_URL}/logout`, {
+	// Tell the server first so the session is revoked, then forget it locally
+	return authFetch(`${API_BASE_URL}/logout`, {
 		method: "POST",
-		headers: {
-			Authorization: `Bearer ${token}`,
-		},
 	})
 		.then(() => {})
 		.catch((error) => {
 			console.error("Logout error:", error);
-		});
+		})
+		.finally(clearSession);
 }
 
 // Get current user's token
@@ -132,6 +316,11 @@ export function getUserName(): string | null {
 	return localStorage.getItem("userName");
 }
 
+// Whether to show admin pages, the server still checks every admin request
+export function isAdmin(): boolean {
+	return isLoggedIn() && localStorage.getItem("userRole") === "admin";
+}
+
 // Check if user is logged in (synchronous check)
 export function isLoggedIn(): boolean {
 	return localStorage.getItem("authToken") !== null;
@@ -0,0 +1,121 @@
+import { useEffect, useRef } from "react";
+import type { MarketEvent, Transaction } from "../types";
+
+const LIVE_URL = "ws://localhost:3000/api/live";
+const STREAM_URL = "http://localhost:3000/api/transactions/stream";
+
+// Reconnect quickly after a blip, then back off while the server is away
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+interface MarketEventHandlers {
+	onEvent: (event: MarketEvent) => void;
+	// Events were missed and cannot be replayed, so reload from the API
+	onStale: () => void;
+}
+
+/**
+ * Subscribe to the live marketplace feed for as long as the calling
+ * component is mounted. Dropped connections are retried and resume from
+ * the last event received.
+ */
+export function useMarketEvents(handlers: MarketEventHandlers) {
+	// Handlers change every render, the connection should not
+	const handlersRef = useRef(handlers);
+	handlersRef.current = handlers;
+
+	useEffect(() => {
+		let socket: WebSocket | null = null;
+		let retryTimer: number | undefined;
+		let retryDelay = MIN_RETRY_DELAY;
+		let cursor: { epoch: string; lastId: number } | null = null;
+		let stopped = false;
+
+		const connect = () => {
+			const params = cursor
+				? `?epoch=${cursor.epoch}&lastId=${cursor.lastId}`
+				: "";
+			socket = new WebSocket(`${LIVE_URL}${params}`);
+
+			socket.onopen = () => {
+				retryDelay = MIN_RETRY_DELAY;
+			};
+
+			socket.onmessage = (message) => {
+				const payload = JSON.parse(message.data);
+
+				if (payload.type === "sync") {
+					// A resumed feed replays what we missed right after this
+					if (cursor === null || payload.stale) {
+						cursor = { epoch: payload.epoch, lastId: payload.lastId };
+					}
+					if (payload.stale) {
+						handlersRef.current.onStale();
+					}
+					return;
+				}
+
+				const event = payload as MarketEvent;
+				if (cursor?.epoch === event.epoch && event.id <= cursor.lastId) {
+					return;
+				}
+
+				cursor = { epoch: event.epoch, lastId: event.id };
+				handlersRef.current.onEvent(event);
+			};
+
+			socket.onclose = () => {
+				if (stopped) return;
+
+				retryTimer = window.setTimeout(connect, retryDelay);
+				retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+			};
+		};
+
+		connect();
+
+		return () => {
+			stopped = true;
+			clearTimeout(retryTimer);
+			socket?.close();
+		};
+	}, []);
+}
+
+interface TransactionStreamHandlers {
+	onTransaction: (transaction: Transaction) => void;
+	// Transactions were missed and cannot be replayed, so reload from the API
+	onStale: () => void;
+}
+
+/**
+ * Stream new transactions matching the given filters. The browser
+ * reconnects on its own and the server replays what was missed.
+ * @param filters Same filters as the transactions listing, empty ones are ignored
+ */
+export function useTransactionStream(
+	filters: Record<string, string>,
+	handlers: TransactionStreamHandlers,
+) {
+	const handlersRef = useRef(handlers);
+	handlersRef.current = handlers;
+
+	const params = new URLSearchParams();
+	for (const [name, value] of Object.entries(filters)) {
+		if (value) params.append(name, value);
+	}
+	const query = params.toString();
+
+	useEffect(() => {
+		const source = new EventSource(`${STREAM_URL}?${query}`);
+
+		source.addEventListener("transaction", (message) => {
+			handlersRef.current.onTransaction(JSON.parse(message.data));
+		});
+		source.addEventListener("resync", () => {
+			handlersRef.current.onStale();
+		});
+
+		return () => source.close();
+	}, [query]);
+}
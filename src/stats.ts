@@ -0,0 +1,157 @@
+import type { Database } from "bun:sqlite";
+
+export interface PricePoint {
+	transactionId: number;
+	date: string;
+	amount: number;
+}
+
+export interface CoinStats {
+	coinId: number;
+	value: number;
+	// Every sale of the coin, oldest first
+	prices: PricePoint[];
+	lastSale: PricePoint | null;
+	allTimeHigh: number | null;
+	allTimeLow: number | null;
+	// Ownership changes, including admin reassignments that carry no price
+	transfers: number;
+}
+
+export interface MarketDay {
+	// Calendar day in UTC, as YYYY-MM-DD
+	date: string;
+	trades: number;
+	volume: number;
+	medianPrice: number | null;
+	// Share of the coins in circulation that changed hands that day
+	turnover: number;
+}
+
+export interface MarketStats {
+	days: MarketDay[];
+	totalVolume: number;
+	totalTrades: number;
+	circulatingCoins: number;
+}
+
+// Only paid sales count towards prices, voided ones never happened
+const SALES = "kind = 'purchase' AND voided_at IS NULL";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number | null {
+	if (values.length === 0) return null;
+
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+
+	return sorted.length % 2 === 0
+		? (sorted[middle - 1] + sorted[middle]) / 2
+		: sorted[middle];
+}
+
+/**
+ * Price history and summary figures for a single coin
+ * @param db SQLite database instance
+ * @param coinId Coin to describe
+ * @returns The statistics, or null when the coin does not exist
+ */
+export function getCoinStats(db: Database, coinId: number): CoinStats | null {
+	const coin = db
+		.query("SELECT coin_id, value FROM coins WHERE coin_id = ?")
+		.get(coinId) as { coin_id: number; value: number } | null;
+
+	if (!coin) return null;
+
+	const prices = (
+		db
+			.query(`
+        SELECT id, transaction_date, amount
+        FROM transactions
+        WHERE coin_id = ? AND ${SALES}
+        ORDER BY transaction_date ASC, id ASC
+      `)
+			.all(coinId) as { id: number; transaction_date: string; amount: number }[]
+	).map((row) => ({
+		transactionId: row.id,
+		date: row.transaction_date,
+		amount: row.amount,
+	}));
+
+	const { transfers } = db
+		.query(
+			"SELECT COUNT(*) as transfers FROM transactions WHERE coin_id = ? AND voided_at IS NULL",
+		)
+		.get(coinId) as { transfers: number };
+
+	const amounts = prices.map((price) => price.amount);
+
+	return {
+		coinId: coin.coin_id,
+		value: coin.value,
+		prices,
+		lastSale: prices.length > 0 ? prices[prices.length - 1] : null,
+		allTimeHigh: amounts.length > 0 ? Math.max(...amounts) : null,
+		allTimeLow: amounts.length > 0 ? Math.min(...amounts) : null,
+		transfers,
+	};
+}
+
+/**
+ * Daily trading figures for the whole market, one entry per day even
+ * when nothing traded so charts keep an even time axis
+ * @param db SQLite database instance
+ * @param days How many days to cover, ending today
+ * @param now Current time, injectable for tests
+ */
+export function getMarketStats(
+	db: Database,
+	days: number,
+	now = Date.now(),
+): MarketStats {
+	const today = Math.floor(now / DAY) * DAY;
+	const since = new Date(today - (days - 1) * DAY).toISOString().slice(0, 10);
+
+	const sales = db
+		.query(`
+      SELECT date(transaction_date) as day, coin_id, amount
+      FROM transactions
+      WHERE ${SALES} AND date(transaction_date) >= ?
+    `)
+		.all(since) as { day: string; coin_id: number; amount: number }[];
+
+	const { circulating } = db
+		.query("SELECT COUNT(*) as circulating FROM coins WHERE burned_at IS NULL")
+		.get() as { circulating: number };
+
+	const byDay = new Map<string, { amounts: number[]; coins: Set<number> }>();
+	for (const sale of sales) {
+		const entry = byDay.get(sale.day) ?? { amounts: [], coins: new Set() };
+		entry.amounts.push(sale.amount);
+		entry.coins.add(sale.coin_id);
+		byDay.set(sale.day, entry);
+	}
+
+	const marketDays: MarketDay[] = [];
+	for (let i = days - 1; i >= 0; i--) {
+		const date = new Date(today - i * DAY).toISOString().slice(0, 10);
+		const entry = byDay.get(date);
+		const amounts = entry?.amounts ?? [];
+
+		marketDays.push({
+			date,
+			trades: amounts.length,
+			volume: amounts.reduce((sum, amount) => sum + amount, 0),
+			medianPrice: median(amounts),
+			turnover: entry && circulating > 0 ? entry.coins.size / circulating : 0,
+		});
+	}
+
+	return {
+		days: marketDays,
+		totalVolume: marketDays.reduce((sum, day) => sum + day.volume, 0),
+		totalTrades: marketDays.reduce((sum, day) => sum + day.trades, 0),
+		circulatingCoins: circulating,
+	};
+}
@@ -0,0 +1,103 @@
+import type { Database } from "bun:sqlite";
+import {
+	HOUSE_CASH_ACCOUNT,
+	HOUSE_COINS_ACCOUNT,
+	clientCashAccount,
+	clientCoinsAccount,
+	postJournal,
+} from "./ledger";
+
+export interface CoinTransfer {
+	coinId: number;
+	// Value of the coin, which is what moves between the coin accounts
+	coinValue: number;
+	buyerId: number;
+	// null when the coin is bought from the issuer
+	sellerId: number | null;
+	price: number;
+}
+
+export type TransferResult =
+	| { status: "ok"; transactionId: number }
+	| { status: "insufficient_funds" };
+
+/**
+ * Move a coin to its buyer and the price to its seller, recording the
+ * transaction and its journal. Any open offers on the coin are cancelled,
+ * since they were made to the previous owner.
+ *
+ * Must run inside the caller's SQLite transaction, which should be rolled
+ * back when the buyer cannot cover the price.
+ * @param db SQLite database instance
+ * @param transfer The coin, both parties and the price paid
+ */
+export function transferCoin(
+	db: Database,
+	transfer: CoinTransfer,
+): TransferResult {
+	const { coinId, coinValue, buyerId, sellerId, price } = transfer;
+
+	// Debit the buyer, refusing the purchase if they cannot cover it
+	const debit = db
+		.query(
+			"UPDATE clients SET cash_balance = cash_balance - ? WHERE id = ? AND cash_balance >= ?",
+		)
+		.run(price, buyerId, price);
+
+	if (debit.changes === 0) {
+		return { status: "insufficient_funds" };
+	}
+
+	// Credit the seller for resales
+	if (sellerId !== null) {
+		db.query(
+			"UPDATE clients SET cash_balance = cash_balance + ? WHERE id = ?",
+		).run(price, sellerId);
+	}
+
+	// Update coin ownership and take it off the market
+	db.query(
+		"UPDATE coins SET client_id = ?, asking_price = NULL WHERE coin_id = ?",
+	).run(buyerId, coinId);
+
+	const now = new Date().toISOString();
+	db.query(
+		"UPDATE offers SET status = 'cancelled', responded_at = ? WHERE coin_id = ? AND status = 'pending'",
+	).run(now, coinId);
+
+	// Create transaction record
+	const transaction = db
+		.query(`
+      INSERT INTO transactions (
+        buyer_id, seller_id, coin_id, transaction_date, amount
+      ) VALUES (?, ?, ?, ?, ?)
+    `)
+		.run(buyerId, sellerId, coinId, now, price);
+	const transactionId = Number(transaction.lastInsertRowid);
+
+	// Record the payment and the coin changing hands
+	postJournal(db, {
+		description:
+			sellerId === null ? "Coin purchase from issuer" : "Coin resale",
+		coinId,
+		transactionId,
+		legs: [
+			{
+				debit: clientCashAccount(buyerId),
+				credit:
+					sellerId === null ? HOUSE_CASH_ACCOUNT : clientCashAccount(sellerId),
+				amount: price,
+			},
+			{
+				debit:
+					sellerId === null
+						? HOUSE_COINS_ACCOUNT
+						: clientCoinsAccount(sellerId),
+				credit: clientCoinsAccount(buyerId),
+				amount: coinValue,
+			},
+		],
+	});
+
+	return { status: "ok", transactionId };
+}
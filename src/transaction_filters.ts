@@ -0,0 +1,45 @@
+import type { Transaction } from "./types";
+
+// Filters of the public transactions listing, null when not applied
+export type TransactionFilters = {
+	startDate: string | null;
+	endDate: string | null;
+	minValue: string | null;
+	maxValue: string | null;
+	buyerName: string | null;
+	sellerName: string | null;
+};
+
+// Case-insensitive substring match, as SQLite's LIKE '%name%' does
+function contains(value: string | null, search: string): boolean {
+	return value?.toLowerCase().includes(search.toLowerCase()) ?? false;
+}
+
+/**
+ * Whether a transaction would be listed under the given filters, kept in
+ * step with the WHERE clauses of the listing query
+ * @param transaction Row as the listing returns it
+ * @param filters Filters the listing was asked for
+ */
+export function matchesFilters(
+	transaction: Transaction,
+	filters: TransactionFilters,
+): boolean {
+	const { startDate, endDate, minValue, maxValue, buyerName, sellerName } =
+		filters;
+
+	if (startDate && transaction.transaction_date < startDate) return false;
+	if (endDate && transaction.transaction_date > endDate) return false;
+	if (minValue && transaction.value < Number(minValue)) return false;
+	if (maxValue && transaction.value > Number(maxValue)) return false;
+	if (buyerName && !contains(transaction.buyer_name, buyerName)) return false;
+	if (
+		sellerName &&
+		!contains(transaction.seller_name, sellerName) &&
+		!(transaction.seller_name === null && sellerName === "Original Issuer")
+	) {
+		return false;
+	}
+
+	return true;
+}
@@ -0,0 +1,335 @@
+import type { Database } from "bun:sqlite";
+import { createHash, randomBytes } from "node:crypto";
+import {
+	base32Encode,
+	buildOtpauthUri,
+	generateTotpSecret,
+	verifyTotp,
+} from "./utils/totp";
+
+// Name shown next to the account in authenticator apps
+export const TOTP_ISSUER = "BitSlow";
+
+// Number of one-time recovery codes handed out when 2FA is enabled
+export const RECOVERY_CODE_COUNT = 10;
+
+// A password-verified login has 5 minutes and 5 tries to supply its code
+const CHALLENGE_EXPIRATION_TIME = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export interface TwoFactorStatus {
+	enabled: boolean;
+	// Enrollment started but not confirmed with a code yet
+	pending: boolean;
+	recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+	secret: string;
+	otpauthUri: string;
+}
+
+export interface LoginChallenge {
+	challenge: string;
+	// Lifetime of the challenge in seconds
+	expiresIn: number;
+}
+
+export type ChallengeResult =
+	| { status: "ok"; clientId: number }
+	| { status: "invalid" }
+	| { status: "wrong_code"; clientId: number; attemptsRemaining: number };
+
+type TwoFactorRow = {
+	email: string;
+	totp_secret: string | null;
+	totp_enabled: number;
+	totp_last_step: number | null;
+};
+
+function sha256(value: string): string {
+	return createHash("sha256").update(value).digest("hex");
+}
+
+// Recovery codes are compared case-insensitively and without separators
+function normalizeRecoveryCode(code: string): string {
+	return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+function getTwoFactorRow(db: Database, clientId: number): TwoFactorRow | null {
+	return db
+		.query<TwoFactorRow, number>(
+			"SELECT email, totp_secret, totp_enabled, totp_last_step FROM clients WHERE id = ?",
+		)
+		.get(clientId);
+}
+
+// Generate fresh recovery codes, replacing any left from before
+function issueRecoveryCodes(db: Database, clientId: number): string[] {
+	const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+		const code = base32Encode(randomBytes(7)).slice(0, 10);
+		return `${code.slice(0, 5)}-${code.slice(5)}`;
+	});
+
+	db.query("DELETE FROM recovery_codes WHERE client_id = ?").run(clientId);
+	const insert = db.prepare(
+		"INSERT INTO recovery_codes (client_id, code_hash) VALUES (?, ?)",
+	);
+	for (const code of codes) {
+		insert.run(clientId, sha256(normalizeRecoveryCode(code)));
+	}
+
+	return codes;
+}
+
+// Accept a TOTP code once per time step, so a shoulder-surfed code cannot be replayed
+function useTotpCode(
+	db: Database,
+	clientId: number,
+	row: TwoFactorRow,
+	code: string,
+): boolean {
+	if (!row.totp_secret) {
+		return false;
+	}
+
+	const step = verifyTotp(row.totp_secret, code);
+	if (step === null || (row.totp_last_step ?? -1) >= step) {
+		return false;
+	}
+
+	db.query("UPDATE clients SET totp_last_step = ? WHERE id = ?").run(
+		step,
+		clientId,
+	);
+	return true;
+}
+
+// Spend a recovery code, each one works only once
+function useRecoveryCode(
+	db: Database,
+	clientId: number,
+	code: string,
+): boolean {
+	const result = db
+		.query(`
+      UPDATE recovery_codes SET used_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM recovery_codes
+        WHERE client_id = ? AND code_hash = ? AND used_at IS NULL
+        LIMIT 1
+      )
+    `)
+		.run(clientId, sha256(normalizeRecoveryCode(code)));
+
+	return result.changes > 0;
+}
+
+/**
+ * Whether a client has 2FA turned on and how many recovery codes are left
+ * @param db SQLite database instance
+ * @param clientId Client to look up
+ */
+export function getTwoFactorStatus(
+	db: Database,
+	clientId: number,
+): TwoFactorStatus {
+	const row = getTwoFactorRow(db, clientId);
+	const remaining = db
+		.query<{ count: number }, number>(
+			"SELECT COUNT(*) as count FROM recovery_codes WHERE client_id = ? AND used_at IS NULL",
+		)
+		.get(clientId);
+
+	return {
+		enabled: row?.totp_enabled === 1,
+		pending: row !== null && row.totp_enabled === 0 && row.totp_secret !== null,
+		recoveryCodesRemaining: remaining?.count ?? 0,
+	};
+}
+
+/**
+ * Start enrollment with a new secret, which only takes effect once confirmed
+ * @param db SQLite database instance
+ * @param clientId Client enrolling
+ * @returns The secret and its otpauth URI, or null when 2FA is already on
+ */
+export function beginTwoFactorEnrollment(
+	db: Database,
+	clientId: number,
+): TwoFactorEnrollment | null {
+	const row = getTwoFactorRow(db, clientId);
+	if (!row || row.totp_enabled === 1) {
+		return null;
+	}
+
+	const secret = generateTotpSecret();
+	db.query(
+		"UPDATE clients SET totp_secret = ?, totp_last_step = NULL WHERE id = ?",
+	).run(secret, clientId);
+
+	return {
+		secret,
+		otpauthUri: buildOtpauthUri(secret, row.email, TOTP_ISSUER),
+	};
+}
+
+/**
+ * Turn 2FA on once the user proves their app produces valid codes
+ * @param db SQLite database instance
+ * @param clientId Client enrolling
+ * @param code Current code from the authenticator app
+ * @returns The new recovery codes, or null when the code is wrong
+ */
+export function confirmTwoFactorEnrollment(
+	db: Database,
+	clientId: number,
+	code: string,
+): string[] | null {
+	return db.transaction(() => {
+		const row = getTwoFactorRow(db, clientId);
+		if (
+			!row ||
+			row.totp_enabled === 1 ||
+			!useTotpCode(db, clientId, row, code)
+		) {
+			return null;
+		}
+
+		db.query("UPDATE clients SET totp_enabled = 1 WHERE id = ?").run(clientId);
+		return issueRecoveryCodes(db, clientId);
+	})();
+}
+
+/**
+ * Check a second factor, either a TOTP code or an unused recovery code
+ * @param db SQLite database instance
+ * @param clientId Client logging in
+ * @param code TOTP or recovery code
+ */
+export function verifySecondFactor(
+	db: Database,
+	clientId: number,
+	code: string,
+): boolean {
+	return db.transaction(() => {
+		const row = getTwoFactorRow(db, clientId);
+		if (!row || row.totp_enabled !== 1) {
+			return false;
+		}
+
+		if (/^\d{6}$/.test(code.replace(/\s/g, ""))) {
+			return useTotpCode(db, clientId, row, code);
+		}
+
+		return useRecoveryCode(db, clientId, code);
+	})();
+}
+
+/**
+ * Turn 2FA off, which needs a valid second factor
+ * @param db SQLite database instance
+ * @param clientId Client disabling 2FA
+ * @param code TOTP or recovery code
+ * @returns Whether 2FA was disabled
+ */
+export function disableTwoFactor(
+	db: Database,
+	clientId: number,
+	code: string,
+): boolean {
+	return db.transaction(() => {
+		if (!verifySecondFactor(db, clientId, code)) {
+			return false;
+		}
+
+		db.query(
+			"UPDATE clients SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL WHERE id = ?",
+		).run(clientId);
+		db.query("DELETE FROM recovery_codes WHERE client_id = ?").run(clientId);
+		return true;
+	})();
+}
+
+/**
+ * Issue a challenge for a login that passed the password check
+ * @param db SQLite database instance
+ * @param clientId Client logging in
+ */
+export function createLoginChallenge(
+	db: Database,
+	clientId: number,
+): LoginChallenge {
+	const challenge = randomBytes(32).toString("hex");
+
+	// Drop abandoned challenges while we are here
+	db.query("DELETE FROM login_challenges WHERE expires_at < ?").run(
+		new Date().toISOString(),
+	);
+
+	db.query(
+		"INSERT INTO login_challenges (challenge_hash, client_id, expires_at) VALUES (?, ?, ?)",
+	).run(
+		sha256(challenge),
+		clientId,
+		new Date(Date.now() + CHALLENGE_EXPIRATION_TIME).toISOString(),
+	);
+
+	return { challenge, expiresIn: CHALLENGE_EXPIRATION_TIME / 1000 };
+}
+
+/**
+ * Complete a login challenge with its second factor
+ * @param db SQLite database instance
+ * @param challenge Challenge returned by the password step
+ * @param code TOTP or recovery code
+ */
+export function redeemLoginChallenge(
+	db: Database,
+	challenge: string,
+	code: string,
+): ChallengeResult {
+	return db.transaction((): ChallengeResult => {
+		const challengeHash = sha256(challenge);
+		const row = db
+			.query<
+				{ client_id: number; attempts: number; expires_at: string },
+				string
+			>(
+				"SELECT client_id, attempts, expires_at FROM login_challenges WHERE challenge_hash = ?",
+			)
+			.get(challengeHash);
+
+		if (!row || new Date(row.expires_at).getTime() < Date.now()) {
+			db.query("DELETE FROM login_challenges WHERE challenge_hash = ?").run(
+				challengeHash,
+			);
+			return { status: "invalid" };
+		}
+
+		if (verifySecondFactor(db, row.client_id, code)) {
+			db.query("DELETE FROM login_challenges WHERE challenge_hash = ?").run(
+				challengeHash,
+			);
+			return { status: "ok", clientId: row.client_id };
+		}
+
+		// Too many wrong codes means starting over from the password
+		const attempts = row.attempts + 1;
+		if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+			db.query("DELETE FROM login_challenges WHERE challenge_hash = ?").run(
+				challengeHash,
+			);
+		} else {
+			db.query(
+				"UPDATE login_challenges SET attempts = ? WHERE challenge_hash = ?",
+			).run(attempts, challengeHash);
+		}
+
+		return {
+			status: "wrong_code",
+			clientId: row.client_id,
+			attemptsRemaining: MAX_CHALLENGE_ATTEMPTS - attempts,
+		};
+	})();
+}
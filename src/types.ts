@@ -32,8 +32,13 @@ export interface AuthResponse {
 	message: string;
 	userId?: number;
 	token?: string;
+	refreshToken?: string;
+	expiresIn?: number;
+	twoFactorRequired?: boolean;
+	challenge?: string;
 	name?: string;
 	email?: string;
+	role?: "user" | "admin";
 }
 
 export interface AuthUser {
@@ -50,5 +55,118 @@ export interface Coin {
 	bit2: number;
 	bit3: number;
 	value: number;
+	asking_price: number | null;
 	created_at: string;
 }
+
+export interface Offer {
+	id: number;
+	coinId: number;
+	buyerId: number;
+	buyerName: string;
+	sellerId: number;
+	sellerName: string;
+	proposerId: number;
+	amount: number;
+	status:
+		| "pending"
+		| "accepted"
+		| "rejected"
+		| "countered"
+		| "cancelled"
+		| "expired";
+	parentId: number | null;
+	transactionId: number | null;
+	createdAt: string;
+	expiresAt: string;
+	respondedAt: string | null;
+}
+
+export interface Auction {
+	id: number;
+	coinId: number;
+	sellerId: number | null;
+	sellerName: string | null;
+	reservePrice: number;
+	minIncrement: number;
+	status: "open" | "settled" | "unsold" | "cancelled";
+	createdAt: string;
+	endsAt: string;
+	extensions: number;
+	highBid: number | null;
+	highBidderId: number | null;
+	highBidderName: string | null;
+	bidCount: number;
+	minimumBid: number;
+	winningBidId: number | null;
+	transactionId: number | null;
+	settledAt: string | null;
+}
+
+export interface AuctionBid {
+	id: number;
+	auctionId: number;
+	bidderId: number;
+	bidderName: string;
+	amount: number;
+	createdAt: string;
+}
+
+export interface PricePoint {
+	transactionId: number;
+	date: string;
+	amount: number;
+}
+
+export interface CoinStats {
+	coinId: number;
+	value: number;
+	prices: PricePoint[];
+	lastSale: PricePoint | null;
+	allTimeHigh: number | null;
+	allTimeLow: number | null;
+	transfers: number;
+}
+
+export interface MarketDay {
+	date: string;
+	trades: number;
+	volume: number;
+	medianPrice: number | null;
+	turnover: number;
+}
+
+export interface MarketStats {
+	days: MarketDay[];
+	totalVolume: number;
+	totalTrades: number;
+	circulatingCoins: number;
+}
+
+export interface CoinPurchase {
+	coin_id: number;
+	client_id: number;
+	client_name: string;
+	seller_id: number | null;
+	amount: number;
+	transaction_id: number;
+}
+
+interface MarketEventBase {
+	id: number;
+	epoch: string;
+	createdAt: string;
+}
+
+export type MarketEvent = MarketEventBase &
+	(
+		| { type: "coin-purchased"; data: CoinPurchase }
+		| { type: "coin-generated"; data: Coin }
+		| { type: "new-transaction"; data: Transaction }
+	);
+
+// One column of a listing's sort, most significant first
+export interface SortColumn {
+	field: string;
+	order: "asc" | "desc";
+}
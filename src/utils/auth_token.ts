@@ -1,18 +1,197 @@
-import { randomBytes } from "node:crypto";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
 import type { Database } from "bun:sqlite";
+import {
+	type ApiKeyScope,
+	type Role,
+	isApiKeyScope,
+	isRole,
+} from "../permissions";
 
 // Token data structure
-interface TokenData {
+export interface TokenData {
 	userId: number;
 	email: string;
+	// Role at the time the token was issued, sessions are revoked when it changes
+	role: Role;
 	expiresAt: number;
+	// Session the token belongs to, null for tokens issued before sessions existed
+	sessionId: string | null;
 }
 
-// Storage interface
+// Refresh token data, kept after rotation so a replay can be detected
+interface RefreshTokenData {
+	sessionId: string;
+	userId: number;
+	email: string;
+	role: Role;
+	expiresAt: number;
+	usedAt: number | null;
+}
+
+// A login on one device; every token rotated from it shares the session id
+export interface SessionData {
+	id: string;
+	userId: number;
+	userAgent: string | null;
+	ipAddress: string | null;
+	createdAt: number;
+	lastSeenAt: number;
+	expiresAt: number;
+	revokedAt: number | null;
+}
+
+// A personal API key for scripts; the key itself is only shown once, at creation
+export interface ApiKeyData {
+	id: string;
+	userId: number;
+	email: string;
+	role: Role;
+	name: string;
+	// Start of the key, so users can tell their keys apart
+	prefix: string;
+	scopes: ApiKeyScope[];
+	createdAt: number;
+	expiresAt: number | null;
+	lastUsedAt: number | null;
+	revokedAt: number | null;
+}
+
+// What a user picks when creating an API key
+export interface ApiKeyOptions {
+	name: string;
+	scopes: ApiKeyScope[];
+	expiresAt: number | null;
+}
+
+// Where a session was started from
+export interface DeviceInfo {
+	userAgent: string | null;
+	ipAddress: string | null;
+}
+
+// Tokens handed to the client after login or refresh
+export interface TokenPair {
+	accessToken: string;
+	refreshToken: string;
+	sessionId: string;
+	// Lifetime of the access token in seconds
+	expiresIn: number;
+}
+
+// Rows removed by one sweep of expired tokens
+export interface SweepResult {
+	accessTokens: number;
+	refreshTokens: number;
+}
+
+// Health of the background sweeper, for monitoring
+export interface SweeperStats {
+	running: boolean;
+	intervalMs: number;
+	runs: number;
+	lastRunAt: number | null;
+	lastPurged: SweepResult | null;
+	totalPurged: SweepResult;
+	lastError: string | null;
+}
+
+export type RefreshResult =
+	| { status: "ok"; tokens: TokenPair }
+	| { status: "invalid" }
+	| { status: "reused" };
+
+export type CreateApiKeyResult =
+	| { status: "ok"; key: string; apiKey: ApiKeyData }
+	| { status: "limit_reached" };
+
+// Storage interface, tokens are only ever passed in hashed
 interface TokenStorage {
-	set(token: string, data: TokenData): Promise<void>;
-	get(token: string): Promise<TokenData | null>;
-	delete(token: string): Promise<boolean>;
+	set(tokenHash: string, data: TokenData): Promise<void>;
+	get(tokenHash: string): Promise<TokenData | null>;
+	delete(tokenHash: string): Promise<boolean>;
+	setRefreshToken(tokenHash: string, data: RefreshTokenData): Promise<void>;
+	// Mark a refresh token used, returning it as it was before this call
+	consumeRefreshToken(tokenHash: string): Promise<RefreshTokenData | null>;
+	createSession(session: SessionData): Promise<void>;
+	getSession(id: string): Promise<SessionData | null>;
+	touchSession(id: string, seenAt: number, expiresAt?: number): Promise<void>;
+	listSessions(userId: number): Promise<SessionData[]>;
+	// Revoke a session and drop every token issued for it
+	revokeSession(id: string): Promise<boolean>;
+	// Purge access and refresh tokens that expired before the given time
+	deleteExpired(now: number): Promise<SweepResult>;
+	createApiKey(keyHash: string, data: ApiKeyData): Promise<void>;
+	getApiKey(keyHash: string): Promise<ApiKeyData | null>;
+	// A user's keys that have not been revoked, newest first
+	listApiKeys(userId: number): Promise<ApiKeyData[]>;
+	touchApiKey(id: string, usedAt: number): Promise<void>;
+	// Revoke a key, only if it belongs to the given user
+	revokeApiKey(id: string, userId: number): Promise<boolean>;
+}
+
+// Only record last-seen once a minute, so every request is not a write
+const LAST_SEEN_RESOLUTION = 60 * 1000;
+
+type SessionRow = {
+	id: string;
+	client_id: number;
+	user_agent: string | null;
+	ip_address: string | null;
+	created_at: string;
+	last_seen_at: string;
+	expires_at: string;
+	revoked_at: string | null;
+};
+
+function toTime(value: string | null): number | null {
+	return value === null ? null : new Date(value).getTime();
+}
+
+type ApiKeyRow = {
+	id: string;
+	client_id: number;
+	email: string;
+	role: string;
+	name: string;
+	prefix: string;
+	scopes: string;
+	created_at: string;
+	expires_at: string | null;
+	last_used_at: string | null;
+	revoked_at: string | null;
+};
+
+function toApiKey(row: ApiKeyRow): ApiKeyData {
+	return {
+		id: row.id,
+		userId: row.client_id,
+		email: row.email,
+		role: isRole(row.role) ? row.role : "user",
+		name: row.name,
+		prefix: row.prefix,
+		scopes: row.scopes.split(",").filter(isApiKeyScope),
+		createdAt: new Date(row.created_at).getTime(),
+		expiresAt: toTime(row.expires_at),
+		lastUsedAt: toTime(row.last_used_at),
+		revokedAt: toTime(row.revoked_at),
+	};
+}
+
+function toIsoString(time: number | null): string | null {
+	return time === null ? null : new Date(time).toISOString();
+}
+
+function toSession(row: SessionRow): SessionData {
+	return {
+		id: row.id,
+		userId: row.client_id,
+		userAgent: row.user_agent,
+		ipAddress: row.ip_address,
+		createdAt: new Date(row.created_at).getTime(),
+		lastSeenAt: new Date(row.last_seen_at).getTime(),
+		expiresAt: new Date(row.expires_at).getTime(),
+		revokedAt: toTime(row.revoked_at),
+	};
 }
 
 // Database-based implementation for token storage
@@ -23,18 +202,20 @@ class DatabaseTokenStorage implements TokenStorage {
 		this.db = db;
 	}
 
-	async set(token: string, data: TokenData): Promise<void> {
+	async set(tokenHash: string, data: TokenData): Promise<void> {
 		try {
 			const stmt = this.db.prepare(`
-                INSERT INTO auth_tokens (token, client_id, email, expires_at)
-                VALUES (?, ?, ?, ?)
+                INSERT INTO auth_tokens (token_hash, client_id, email, role, expires_at, session_id)
+                VALUES (?, ?, ?, ?, ?, ?)
             `);
 
 			stmt.run(
-				token,
+				tokenHash,
 				data.userId,
 				data.email,
+				data.role,
 				new Date(data.expiresAt).toISOString(),
+				data.sessionId,
 			);
 		} catch (error) {
 			console.error("Error storing token in database:", error);
@@ -42,18 +223,20 @@ class DatabaseTokenStorage implements TokenStorage {
 		}
 	}
 
-	async get(token: string): Promise<TokenData | null> {
+	async get(tokenHash: string): Promise<TokenData | null> {
 		try {
 			const result = this.db
 				.query(`
-                SELECT client_id, email, expires_at
+                SELECT client_id, email, role, expires_at, session_id
                 FROM auth_tokens
-                WHERE token = ?
+                WHERE token_hash = ?
             `)
-				.get(token) as {
+				.get(tokenHash) as {
 				client_id: number;
 				email: string;
+				role: string;
 				expires_at: string;
+				session_id: string | null;
 			} | null;
 
 			if (!result) {
@@ -63,7 +246,9 @@ class DatabaseTokenStorage implements TokenStorage {
 			return {
 				userId: result.client_id,
 				email: result.email,
+				role: isRole(result.role) ? result.role : "user",
 				expiresAt: new Date(result.expires_at).getTime(),
+				sessionId: result.session_id,
 			};
 		} catch (error) {
 			console.error("Error retrieving token from database:", error);
@@ -71,35 +256,429 @@ class DatabaseTokenStorage implements TokenStorage {
 		}
 	}
 
-	async delete(token: string): Promise<boolean> {
+	async delete(tokenHash: string): Promise<boolean> {
 		try {
 			const stmt = this.db.prepare(`
                 DELETE FROM auth_tokens
-                WHERE token = ?
+                WHERE token_hash = ?
             `);
 
-			const result = stmt.run(token);
+			const result = stmt.run(tokenHash);
 			return result.changes > 0;
 		} catch (error) {
 			console.error("Error deleting token from database:", error);
 			return false;
 		}
 	}
+
+	async setRefreshToken(
+		tokenHash: string,
+		data: RefreshTokenData,
+	): Promise<void> {
+		try {
+			this.db
+				.prepare(`
+                INSERT INTO refresh_tokens (token_hash, session_id, client_id, email, role, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `)
+				.run(
+					tokenHash,
+					data.sessionId,
+					data.userId,
+					data.email,
+					data.role,
+					new Date(data.expiresAt).toISOString(),
+				);
+		} catch (error) {
+			console.error("Error storing refresh token in database:", error);
+			throw error;
+		}
+	}
+
+	async consumeRefreshToken(
+		tokenHash: string,
+	): Promise<RefreshTokenData | null> {
+		try {
+			return this.db.transaction(() => {
+				const result = this.db
+					.query(`
+                    SELECT session_id, client_id, email, role, expires_at, used_at
+                    FROM refresh_tokens
+                    WHERE token_hash = ?
+                `)
+					.get(tokenHash) as {
+					session_id: string;
+					client_id: number;
+					email: string;
+					role: string;
+					expires_at: string;
+					used_at: string | null;
+				} | null;
+
+				if (!result) {
+					return null;
+				}
+
+				if (result.used_at === null) {
+					this.db
+						.query("UPDATE refresh_tokens SET used_at = ? WHERE token_hash = ?")
+						.run(new Date().toISOString(), tokenHash);
+				}
+
+				return {
+					sessionId: result.session_id,
+					userId: result.client_id,
+					email: result.email,
+					role: isRole(result.role) ? result.role : "user",
+					expiresAt: new Date(result.expires_at).getTime(),
+					usedAt: toTime(result.used_at),
+				};
+			})();
+		} catch (error) {
+			console.error("Error consuming refresh token:", error);
+			return null;
+		}
+	}
+
+	async createSession(session: SessionData): Promise<void> {
+		try {
+			this.db
+				.prepare(`
+                INSERT INTO sessions (id, client_id, user_agent, ip_address, created_at, last_seen_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `)
+				.run(
+					session.id,
+					session.userId,
+					session.userAgent,
+					session.ipAddress,
+					new Date(session.createdAt).toISOString(),
+					new Date(session.lastSeenAt).toISOString(),
+					new Date(session.expiresAt).toISOString(),
+				);
+		} catch (error) {
+			console.error("Error storing session in database:", error);
+			throw error;
+		}
+	}
+
+	async getSession(id: string): Promise<SessionData | null> {
+		try {
+			const row = this.db
+				.query<SessionRow, string>("SELECT * FROM sessions WHERE id = ?")
+				.get(id);
+			return row ? toSession(row) : null;
+		} catch (error) {
+			console.error("Error retrieving session from database:", error);
+			return null;
+		}
+	}
+
+	async touchSession(
+		id: string,
+		seenAt: number,
+		expiresAt?: number,
+	): Promise<void> {
+		try {
+			if (expiresAt !== undefined) {
+				this.db
+					.query(
+						"UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?",
+					)
+					.run(
+						new Date(seenAt).toISOString(),
+						new Date(expiresAt).toISOString(),
+						id,
+					);
+				return;
+			}
+
+			this.db
+				.query(
+					"UPDATE sessions SET last_seen_at = ? WHERE id = ? AND last_seen_at < ?",
+				)
+				.run(
+					new Date(seenAt).toISOString(),
+					id,
+					new Date(seenAt - LAST_SEEN_RESOLUTION).toISOString(),
+				);
+		} catch (error) {
+			console.error("Error updating session in database:", error);
+		}
+	}
+
+	async listSessions(userId: number): Promise<SessionData[]> {
+		try {
+			const rows = this.db
+				.query<SessionRow, [number, string]>(`
+                SELECT * FROM sessions
+                WHERE client_id = ? AND revoked_at IS NULL AND expires_at > ?
+                ORDER BY last_seen_at DESC
+            `)
+				.all(userId, new Date().toISOString());
+			return rows.map(toSession);
+		} catch (error) {
+			console.error("Error listing sessions from database:", error);
+			return [];
+		}
+	}
+
+	async revokeSession(id: string): Promise<boolean> {
+		try {
+			return this.db.transaction(() => {
+				const result = this.db
+					.query(
+						"UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL",
+					)
+					.run(new Date().toISOString(), id);
+				this.db.query("DELETE FROM auth_tokens WHERE session_id = ?").run(id);
+				this.db
+					.query("DELETE FROM refresh_tokens WHERE session_id = ?")
+					.run(id);
+				return result.changes > 0;
+			})();
+		} catch (error) {
+			console.error("Error revoking session in database:", error);
+			return false;
+		}
+	}
+
+	async deleteExpired(now: number): Promise<SweepResult> {
+		const cutoff = new Date(now).toISOString();
+
+		return this.db.transaction(() => ({
+			accessTokens: this.db
+				.query("DELETE FROM auth_tokens WHERE expires_at <= ?")
+				.run(cutoff).changes,
+			refreshTokens: this.db
+				.query("DELETE FROM refresh_tokens WHERE expires_at <= ?")
+				.run(cutoff).changes,
+		}))();
+	}
+
+	async createApiKey(keyHash: string, data: ApiKeyData): Promise<void> {
+		try {
+			this.db
+				.prepare(`
+                INSERT INTO api_keys (id, key_hash, client_id, email, role, name, prefix, scopes, created_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `)
+				.run(
+					data.id,
+					keyHash,
+					data.userId,
+					data.email,
+					data.role,
+					data.name,
+					data.prefix,
+					data.scopes.join(","),
+					new Date(data.createdAt).toISOString(),
+					toIsoString(data.expiresAt),
+				);
+		} catch (error) {
+			console.error("Error storing API key in database:", error);
+			throw error;
+		}
+	}
+
+	async getApiKey(keyHash: string): Promise<ApiKeyData | null> {
+		try {
+			const row = this.db
+				.query<ApiKeyRow, string>("SELECT * FROM api_keys WHERE key_hash = ?")
+				.get(keyHash);
+			return row ? toApiKey(row) : null;
+		} catch (error) {
+			console.error("Error retrieving API key from database:", error);
+			return null;
+		}
+	}
+
+	async listApiKeys(userId: number): Promise<ApiKeyData[]> {
+		try {
+			return this.db
+				.query<ApiKeyRow, number>(`
+                SELECT * FROM api_keys
+                WHERE client_id = ? AND revoked_at IS NULL
+                ORDER BY created_at DESC
+            `)
+				.all(userId)
+				.map(toApiKey);
+		} catch (error) {
+			console.error("Error listing API keys from database:", error);
+			return [];
+		}
+	}
+
+	async touchApiKey(id: string, usedAt: number): Promise<void> {
+		try {
+			this.db
+				.query(
+					"UPDATE api_keys SET last_used_at = ? WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?)",
+				)
+				.run(
+					new Date(usedAt).toISOString(),
+					id,
+					new Date(usedAt - LAST_SEEN_RESOLUTION).toISOString(),
+				);
+		} catch (error) {
+			console.error("Error updating API key in database:", error);
+		}
+	}
+
+	async revokeApiKey(id: string, userId: number): Promise<boolean> {
+		try {
+			const result = this.db
+				.query(
+					"UPDATE api_keys SET revoked_at = ? WHERE id = ? AND client_id = ? AND revoked_at IS NULL",
+				)
+				.run(new Date().toISOString(), id, userId);
+			return result.changes > 0;
+		} catch (error) {
+			console.error("Error revoking API key in database:", error);
+			return false;
+		}
+	}
 }
 
 class MemoryTokenStorage implements TokenStorage {
 	private tokens: Map<string, TokenData> = new Map();
+	private refreshTokens: Map<string, RefreshTokenData> = new Map();
+	private sessions: Map<string, SessionData> = new Map();
+	private apiKeys: Map<string, ApiKeyData> = new Map();
+
+	async set(tokenHash: string, data: TokenData): Promise<void> {
+		this.tokens.set(tokenHash, data);
+	}
 
-	async set(token: string, data: TokenData): Promise<void> {
-		this.tokens.set(token, data);
+	async get(tokenHash: string): Promise<TokenData | null> {
+		return this.tokens.get(tokenHash) || null;
 	}
 
-	async get(token: string): Promise<TokenData | null> {
-		return this.tokens.get(token) || null;
+	async delete(tokenHash: string): Promise<boolean> {
+		return this.tokens.delete(tokenHash);
 	}
 
-	async delete(token: string): Promise<boolean> {
-		return this.tokens.delete(token);
+	async setRefreshToken(
+		tokenHash: string,
+		data: RefreshTokenData,
+	): Promise<void> {
+		this.refreshTokens.set(tokenHash, data);
+	}
+
+	async consumeRefreshToken(
+		tokenHash: string,
+	): Promise<RefreshTokenData | null> {
+		const data = this.refreshTokens.get(tokenHash);
+		if (!data) {
+			return null;
+		}
+		if (data.usedAt === null) {
+			this.refreshTokens.set(tokenHash, { ...data, usedAt: Date.now() });
+		}
+		return data;
+	}
+
+	async createSession(session: SessionData): Promise<void> {
+		this.sessions.set(session.id, session);
+	}
+
+	async getSession(id: string): Promise<SessionData | null> {
+		return this.sessions.get(id) || null;
+	}
+
+	async touchSession(
+		id: string,
+		seenAt: number,
+		expiresAt?: number,
+	): Promise<void> {
+		const session = this.sessions.get(id);
+		if (session) {
+			session.lastSeenAt = seenAt;
+			session.expiresAt = expiresAt ?? session.expiresAt;
+		}
+	}
+
+	async listSessions(userId: number): Promise<SessionData[]> {
+		const now = Date.now();
+		return [...this.sessions.values()]
+			.filter(
+				(session) =>
+					session.userId === userId &&
+					session.revokedAt === null &&
+					session.expiresAt > now,
+			)
+			.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+	}
+
+	async revokeSession(id: string): Promise<boolean> {
+		for (const [tokenHash, data] of this.tokens) {
+			if (data.sessionId === id) {
+				this.tokens.delete(tokenHash);
+			}
+		}
+		for (const [tokenHash, data] of this.refreshTokens) {
+			if (data.sessionId === id) {
+				this.refreshTokens.delete(tokenHash);
+			}
+		}
+
+		const session = this.sessions.get(id);
+		if (!session || session.revokedAt !== null) {
+			return false;
+		}
+		session.revokedAt = Date.now();
+		return true;
+	}
+
+	async deleteExpired(now: number): Promise<SweepResult> {
+		const result = { accessTokens: 0, refreshTokens: 0 };
+
+		for (const [tokenHash, data] of this.tokens) {
+			if (data.expiresAt <= now) {
+				this.tokens.delete(tokenHash);
+				result.accessTokens++;
+			}
+		}
+		for (const [tokenHash, data] of this.refreshTokens) {
+			if (data.expiresAt <= now) {
+				this.refreshTokens.delete(tokenHash);
+				result.refreshTokens++;
+			}
+		}
+
+		return result;
+	}
+
+	async createApiKey(keyHash: string, data: ApiKeyData): Promise<void> {
+		this.apiKeys.set(keyHash, data);
+	}
+
+	async getApiKey(keyHash: string): Promise<ApiKeyData | null> {
+		return this.apiKeys.get(keyHash) || null;
+	}
+
+	async listApiKeys(userId: number): Promise<ApiKeyData[]> {
+		return [...this.apiKeys.values()]
+			.filter((key) => key.userId === userId && key.revokedAt === null)
+			.sort((a, b) => b.createdAt - a.createdAt);
+	}
+
+	async touchApiKey(id: string, usedAt: number): Promise<void> {
+		for (const key of this.apiKeys.values()) {
+			if (key.id === id) {
+				key.lastUsedAt = usedAt;
+			}
+		}
+	}
+
+	async revokeApiKey(id: string, userId: number): Promise<boolean> {
+		for (const key of this.apiKeys.values()) {
+			if (key.id === id && key.userId === userId && key.revokedAt === null) {
+				key.revokedAt = Date.now();
+				return true;
+			}
+		}
+		return false;
 	}
 }
 
@@ -107,8 +686,28 @@ export class TokenManager {
 	private static storage: TokenStorage = new MemoryTokenStorage();
 	private static initialized = false;
 
-	// Default token expiration time (6 hours)
-	private static EXPIRATION_TIME = 6 * 60 * 60 * 1000;
+	// Access tokens are short-lived (15 minutes) and renewed with a refresh token
+	private static EXPIRATION_TIME = 15 * 60 * 1000;
+
+	// Refresh tokens, and so idle sessions, last 30 days
+	private static REFRESH_EXPIRATION_TIME = 30 * 24 * 60 * 60 * 1000;
+
+	// Expired tokens are purged every 10 minutes by default
+	private static SWEEP_INTERVAL = 10 * 60 * 1000;
+
+	// Live API keys a single user may hold
+	private static MAX_API_KEYS = 20;
+
+	private static sweeper: ReturnType<typeof setInterval> | null = null;
+	private static sweeperStats: SweeperStats = {
+		running: false,
+		intervalMs: TokenManager.SWEEP_INTERVAL,
+		runs: 0,
+		lastRunAt: null,
+		lastPurged: null,
+		totalPurged: { accessTokens: 0, refreshTokens: 0 },
+		lastError: null,
+	};
 
 	// Initialize with database connection
 	static initialize(db: Database): void {
@@ -122,26 +721,132 @@ export class TokenManager {
 		TokenManager.storage = storage;
 	}
 
-	// Generate a secure token for a user
-	static async createToken(userId: number, email: string): Promise<string> {
+	// Purge expired tokens in the background until stopSweeper is called
+	static startSweeper(intervalMs: number = TokenManager.SWEEP_INTERVAL): void {
+		TokenManager.stopSweeper();
+
+		TokenManager.sweeper = setInterval(() => {
+			TokenManager.sweepExpiredTokens();
+		}, intervalMs);
+		// Never keep the process alive just to sweep
+		TokenManager.sweeper.unref();
+
+		TokenManager.sweeperStats.running = true;
+		TokenManager.sweeperStats.intervalMs = intervalMs;
+	}
+
+	static stopSweeper(): void {
+		if (TokenManager.sweeper) {
+			clearInterval(TokenManager.sweeper);
+			TokenManager.sweeper = null;
+		}
+		TokenManager.sweeperStats.running = false;
+	}
+
+	// Run one sweep now, recording the outcome in the sweeper stats
+	static async sweepExpiredTokens(): Promise<SweepResult> {
+		const stats = TokenManager.sweeperStats;
+
+		try {
+			const purged = await TokenManager.storage.deleteExpired(Date.now());
+
+			stats.lastPurged = purged;
+			stats.totalPurged = {
+				accessTokens: stats.totalPurged.accessTokens + purged.accessTokens,
+				refreshTokens: stats.totalPurged.refreshTokens + purged.refreshTokens,
+			};
+			stats.lastError = null;
+
+			if (purged.accessTokens > 0 || purged.refreshTokens > 0) {
+				console.log(
+					`🧹 Purged ${purged.accessTokens} expired access tokens and ${purged.refreshTokens} expired refresh tokens`,
+				);
+			}
+
+			return purged;
+		} catch (error) {
+			console.error("Error sweeping expired tokens:", error);
+			stats.lastError = error instanceof Error ? error.message : String(error);
+			return { accessTokens: 0, refreshTokens: 0 };
+		} finally {
+			stats.runs++;
+			stats.lastRunAt = Date.now();
+		}
+	}
+
+	// Snapshot of the sweeper's activity
+	static getSweeperStats(): SweeperStats {
+		return {
+			...TokenManager.sweeperStats,
+			totalPurged: { ...TokenManager.sweeperStats.totalPurged },
+		};
+	}
+
+	// Start a session for a user and issue its first token pair
+	static async createSession(
+		userId: number,
+		email: string,
+		role: Role,
+		device: DeviceInfo,
+	): Promise<TokenPair> {
 		if (!TokenManager.initialized) {
 			console.warn(
 				"TokenManager not initialized with database. Using in-memory storage.",
 			);
 		}
 
-		// Generate a random token
-		const tokenBytes = randomBytes(32);
-		const token = tokenBytes.toString("hex");
-
-		// Store token with user data and expiration
-		await TokenManager.storage.set(token, {
+		const now = Date.now();
+		const session: SessionData = {
+			id: randomUUID(),
 			userId,
-			email,
-			expiresAt: Date.now() + TokenManager.EXPIRATION_TIME,
-		});
+			userAgent: device.userAgent,
+			ipAddress: device.ipAddress,
+			createdAt: now,
+			lastSeenAt: now,
+			expiresAt: now + TokenManager.REFRESH_EXPIRATION_TIME,
+			revokedAt: null,
+		};
+		await TokenManager.storage.createSession(session);
 
-		return token;
+		return TokenManager.issueTokens(session.id, userId, email, role);
+	}
+
+	// Trade a refresh token for a new token pair in the same session.
+	// Presenting a refresh token twice revokes the whole session, since
+	// one of the two callers must have stolen it.
+	static async refresh(refreshToken: string): Promise<RefreshResult> {
+		if (!refreshToken) {
+			return { status: "invalid" };
+		}
+
+		const data = await TokenManager.storage.consumeRefreshToken(
+			TokenManager.hashToken(refreshToken),
+		);
+
+		if (!data) {
+			return { status: "invalid" };
+		}
+
+		if (data.usedAt !== null) {
+			await TokenManager.storage.revokeSession(data.sessionId);
+			console.warn(
+				`Refresh token reuse detected, revoked session ${data.sessionId}`,
+			);
+			return { status: "reused" };
+		}
+
+		const session = await TokenManager.storage.getSession(data.sessionId);
+		if (Date.now() > data.expiresAt || !session || session.revokedAt !== null) {
+			return { status: "invalid" };
+		}
+
+		const tokens = await TokenManager.issueTokens(
+			data.sessionId,
+			data.userId,
+			data.email,
+			data.role,
+		);
+		return { status: "ok", tokens };
 	}
 
 	// Verify if a token is valid and return user data
@@ -150,7 +855,8 @@ export class TokenManager {
 			return null;
 		}
 
-		const tokenData = await TokenManager.storage.get(token);
+		const tokenHash = TokenManager.hashToken(token);
+		const tokenData = await TokenManager.storage.get(tokenHash);
 
 		if (!tokenData) {
 			return null; // Token not found
@@ -158,15 +864,184 @@ export class TokenManager {
 
 		// Check if token is expired
 		if (Date.now() > tokenData.expiresAt) {
-			await TokenManager.storage.delete(token); // Clean up expired token
+			await TokenManager.storage.delete(tokenHash); // Clean up expired token
 			return null;
 		}
 
+		if (tokenData.sessionId) {
+			await TokenManager.storage.touchSession(tokenData.sessionId, Date.now());
+		}
+
 		return tokenData;
 	}
 
 	// Invalidate a token (for logout)
 	static async removeToken(token: string): Promise<boolean> {
-		return await TokenManager.storage.delete(token);
+		return await TokenManager.storage.delete(TokenManager.hashToken(token));
+	}
+
+	// Active sessions of a user, most recently used first
+	static async listSessions(userId: number): Promise<SessionData[]> {
+		return await TokenManager.storage.listSessions(userId);
+	}
+
+	// Revoke one of a user's sessions, signing that device out
+	static async revokeSession(
+		userId: number,
+		sessionId: string,
+	): Promise<boolean> {
+		const session = await TokenManager.storage.getSession(sessionId);
+
+		if (!session || session.userId !== userId) {
+			return false;
+		}
+
+		return await TokenManager.storage.revokeSession(sessionId);
+	}
+
+	// Revoke every session of a user, e.g. after their password changes
+	static async revokeAllSessions(userId: number): Promise<number> {
+		const sessions = await TokenManager.storage.listSessions(userId);
+		let revoked = 0;
+
+		for (const session of sessions) {
+			if (await TokenManager.storage.revokeSession(session.id)) {
+				revoked++;
+			}
+		}
+
+		return revoked;
+	}
+
+	// Create an API key, returning the key itself this one time only
+	static async createApiKey(
+		userId: number,
+		email: string,
+		role: Role,
+		options: ApiKeyOptions,
+	): Promise<CreateApiKeyResult> {
+		const existing = await TokenManager.storage.listApiKeys(userId);
+		if (existing.length >= TokenManager.MAX_API_KEYS) {
+			return { status: "limit_reached" };
+		}
+
+		const key = `bsk_${randomBytes(32).toString("hex")}`;
+		const apiKey: ApiKeyData = {
+			id: randomUUID(),
+			userId,
+			email,
+			role,
+			name: options.name,
+			prefix: key.slice(0, 12),
+			scopes: options.scopes,
+			createdAt: Date.now(),
+			expiresAt: options.expiresAt,
+			lastUsedAt: null,
+			revokedAt: null,
+		};
+		await TokenManager.storage.createApiKey(
+			TokenManager.hashToken(key),
+			apiKey,
+		);
+
+		return { status: "ok", key, apiKey };
+	}
+
+	// Look up a live API key, recording that it was used
+	static async verifyApiKey(key: string): Promise<ApiKeyData | null> {
+		if (!key) {
+			return null;
+		}
+
+		const apiKey = await TokenManager.storage.getApiKey(
+			TokenManager.hashToken(key),
+		);
+		const now = Date.now();
+
+		if (
+			!apiKey ||
+			apiKey.revokedAt !== null ||
+			(apiKey.expiresAt !== null && now > apiKey.expiresAt)
+		) {
+			return null;
+		}
+
+		await TokenManager.storage.touchApiKey(apiKey.id, now);
+		return apiKey;
+	}
+
+	// A user's API keys, newest first
+	static async listApiKeys(userId: number): Promise<ApiKeyData[]> {
+		return await TokenManager.storage.listApiKeys(userId);
+	}
+
+	// Revoke one of a user's API keys
+	static async revokeApiKey(userId: number, keyId: string): Promise<boolean> {
+		return await TokenManager.storage.revokeApiKey(keyId, userId);
+	}
+
+	// Revoke every API key of a user, e.g. when their account is suspended
+	static async revokeAllApiKeys(userId: number): Promise<number> {
+		const keys = await TokenManager.storage.listApiKeys(userId);
+		let revoked = 0;
+
+		for (const key of keys) {
+			if (await TokenManager.storage.revokeApiKey(key.id, userId)) {
+				revoked++;
+			}
+		}
+
+		return revoked;
+	}
+
+	// Tokens are stored as SHA-256 digests, so a leaked database holds no live tokens.
+	// They are 256 random bits, so a fast unsalted hash is enough.
+	private static hashToken(token: string): string {
+		return createHash("sha256").update(token).digest("hex");
+	}
+
+	private static async issueTokens(
+		sessionId: string,
+		userId: number,
+		email: string,
+		role: Role,
+	): Promise<TokenPair> {
+		const now = Date.now();
+
+		// Generate random tokens
+		const accessToken = randomBytes(32).toString("hex");
+		const refreshToken = randomBytes(32).toString("hex");
+
+		// Store tokens with user data and expiration
+		await TokenManager.storage.set(TokenManager.hashToken(accessToken), {
+			userId,
+			email,
+			role,
+			expiresAt: now + TokenManager.EXPIRATION_TIME,
+			sessionId,
+		});
+		await TokenManager.storage.setRefreshToken(
+			TokenManager.hashToken(refreshToken),
+			{
+				sessionId,
+				userId,
+				email,
+				role,
+				expiresAt: now + TokenManager.REFRESH_EXPIRATION_TIME,
+				usedAt: null,
+			},
+		);
+		await TokenManager.storage.touchSession(
+			sessionId,
+			now,
+			now + TokenManager.REFRESH_EXPIRATION_TIME,
+		);
+
+		return {
+			accessToken,
+			refreshToken,
+			sessionId,
+			expiresIn: TokenManager.EXPIRATION_TIME / 1000,
+		};
 	}
 }
@@ -0,0 +1,56 @@
+import type { Database } from "bun:sqlite";
+import { computeBitSlowAsync } from "../bitslow";
+
+// Coins without a stored hash, oldest first
+interface PendingCoin {
+	coin_id: number;
+	bit1: number;
+	bit2: number;
+	bit3: number;
+}
+
+// Compute a coin's BitSlow on the worker pool and persist it in coins.bitslow_hash
+export async function storeBitSlowHash(
+	db: Database,
+	coin: PendingCoin,
+): Promise<string> {
+	const hash = await computeBitSlowAsync(coin.bit1, coin.bit2, coin.bit3);
+	db.query("UPDATE coins SET bitslow_hash = ? WHERE coin_id = ?").run(
+		hash,
+		coin.coin_id,
+	);
+	return hash;
+}
+
+// Fill in the hash for every coin that does not have one yet.
+// Works in small batches so the worker queue is never flooded.
+export async function backfillBitSlowHashes(
+	db: Database,
+	batchSize = 10,
+): Promise<number> {
+	const selectPending = db.query(`
+		SELECT coin_id, bit1, bit2, bit3
+		FROM coins
+		WHERE bitslow_hash IS NULL
+		ORDER BY coin_id
+		LIMIT ?
+	`);
+
+	let backfilled = 0;
+
+	while (true) {
+		const pending = selectPending.all(batchSize) as PendingCoin[];
+		if (pending.length === 0) {
+			break;
+		}
+
+		await Promise.all(pending.map((coin) => storeBitSlowHash(db, coin)));
+		backfilled += pending.length;
+	}
+
+	if (backfilled > 0) {
+		console.log(`🔢 Backfilled BitSlow hashes for ${backfilled} coins`);
+	}
+
+	return backfilled;
+}
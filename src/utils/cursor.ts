@@ -0,0 +1,107 @@
+// Values of the ORDER BY columns of the row a page starts after or before
+export type CursorKey = (string | number)[];
+
+// Type of each value a cursor key must hold, in order
+export type CursorShape = ("string" | "number")[];
+
+export type CursorParam =
+	| { status: "none" }
+	| {
+			status: "ok";
+			direction: "after" | "before";
+			key: CursorKey;
+			// The cursor as the client sent it
+			token: string;
+	  }
+	| { status: "invalid" };
+
+export interface CursorPage<T> {
+	rows: T[];
+	nextCursor: string | null;
+	prevCursor: string | null;
+}
+
+// Opaque to clients, so the key can change without breaking old links
+export function encodeCursor(key: CursorKey): string {
+	return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(token: string, shape: CursorShape): CursorKey | null {
+	try {
+		const key = JSON.parse(Buffer.from(token, "base64url").toString());
+		if (
+			!Array.isArray(key) ||
+			key.length !== shape.length ||
+			key.some((value, index) =>
+				shape[index] === "number"
+					? typeof value !== "number"
+					: typeof value !== "string",
+			)
+		) {
+			return null;
+		}
+		return key;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read the `after` or `before` cursor of a list request
+ * @param url Request URL
+ * @param shape Types of the ORDER BY columns the cursor holds
+ */
+export function getCursor(url: URL, shape: CursorShape): CursorParam {
+	const after = url.searchParams.get("after");
+	const before = url.searchParams.get("before");
+
+	if (after === null && before === null) return { status: "none" };
+	if (after !== null && before !== null) return { status: "invalid" };
+
+	const token = (after ?? before) as string;
+	const key = decodeCursor(token, shape);
+	if (!key) return { status: "invalid" };
+
+	return {
+		status: "ok",
+		direction: after !== null ? "after" : "before",
+		key,
+		token,
+	};
+}
+
+/**
+ * Turn rows fetched one past the page size into a page and the cursors
+ * leading away from it. Pages before a cursor are fetched walking
+ * backwards, so their rows come in reverse order.
+ * @param rows Rows in the order the query walked them
+ * @param pageSize Rows per page, one less than the query's LIMIT
+ * @param cursor Cursor the rows were fetched from
+ * @param keyOf ORDER BY values of a row
+ * @param skipped Whether rows were skipped by OFFSET, for page based requests
+ */
+export function toCursorPage<T>(
+	rows: T[],
+	pageSize: number,
+	cursor: CursorParam,
+	keyOf: (row: T) => CursorKey,
+	skipped = false,
+): CursorPage<T> {
+	const backwards = cursor.status === "ok" && cursor.direction === "before";
+	const hasMore = rows.length > pageSize;
+	const page = rows.slice(0, pageSize);
+	if (backwards) page.reverse();
+
+	// Walking past a cursor means its row, at least, lies behind us
+	const moreBefore = backwards ? hasMore : cursor.status === "ok" || skipped;
+	const moreAfter = backwards || hasMore;
+
+	const first = page[0];
+	const last = page[page.length - 1];
+
+	return {
+		rows: page,
+		nextCursor: last && moreAfter ? encodeCursor(keyOf(last)) : null,
+		prevCursor: first && moreBefore ? encodeCursor(keyOf(first)) : null,
+	};
+}
@@ -0,0 +1,27 @@
+import type { Database } from "bun:sqlite";
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+}
+
+// Anything that can deliver an email, so an SMTP adapter can replace the outbox
+export interface Mailer {
+	send(message: MailMessage): Promise<void>;
+}
+
+// Default mailer, writes every message to the outbox table instead of sending it
+export class OutboxMailer implements Mailer {
+	private db: Database;
+
+	constructor(db: Database) {
+		this.db = db;
+	}
+
+	async send(message: MailMessage): Promise<void> {
+		this.db
+			.query("INSERT INTO outbox (recipient, subject, body) VALUES (?, ?, ?)")
+			.run(message.to, message.subject, message.text);
+	}
+}
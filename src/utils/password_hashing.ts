@@ -1,6 +1,61 @@
-import { createHash } from "node:crypto";
+import { createHash, timingSafeEqual } from "node:crypto";
 
-// Hash a password using SHA-256
-export function hashPassword(password: string): string {
-	return createHash("sha256").update(password).digest("hex");
+// Algorithm used for every new password hash
+export const PASSWORD_ALGORITHM = "argon2id";
+
+// Unsalted SHA-256 hashes written before passwords were salted
+export const LEGACY_PASSWORD_ALGORITHM = "sha256";
+
+export interface PasswordHash {
+	hash: string;
+	algorithm: string;
+}
+
+// Hash a password with a per-password salt
+export async function hashPassword(password: string): Promise<PasswordHash> {
+	const hash = await Bun.password.hash(password, {
+		algorithm: PASSWORD_ALGORITHM,
+	});
+	return { hash, algorithm: PASSWORD_ALGORITHM };
+}
+
+// Same as hashPassword, for callers that cannot await (e.g. the seeder)
+export function hashPasswordSync(password: string): PasswordHash {
+	const hash = Bun.password.hashSync(password, {
+		algorithm: PASSWORD_ALGORITHM,
+	});
+	return { hash, algorithm: PASSWORD_ALGORITHM };
+}
+
+// Check a password against a stored hash of either the current or the legacy algorithm
+export async function verifyPassword(
+	password: string,
+	stored: PasswordHash,
+): Promise<boolean> {
+	if (!stored.hash) {
+		return false;
+	}
+
+	if (stored.algorithm === LEGACY_PASSWORD_ALGORITHM) {
+		const candidate = Buffer.from(
+			createHash("sha256").update(password).digest("hex"),
+		);
+		const expected = Buffer.from(stored.hash);
+		return (
+			candidate.length === expected.length &&
+			timingSafeEqual(candidate, expected)
+		);
+	}
+
+	try {
+		return await Bun.password.verify(password, stored.hash);
+	} catch {
+		// Malformed or unsupported hash
+		return false;
+	}
+}
+
+// Whether a stored hash should be replaced after the next successful login
+export function needsRehash(stored: PasswordHash): boolean {
+	return stored.algorithm !== PASSWORD_ALGORITHM;
 }
@@ -0,0 +1,113 @@
+export interface RateLimitOptions {
+	// Length of the sliding window attempts are counted in
+	windowMs: number;
+	// Attempts allowed within the window before requests are throttled
+	max: number;
+	// Delay after reaching max, doubled for every further attempt
+	backoffMs?: number;
+	maxBackoffMs?: number;
+	// Attempts within the window after which the key is locked out entirely
+	lockoutAfter?: number;
+	lockoutMs?: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	// How long to wait before trying again, 0 when allowed
+	retryAfterMs: number;
+}
+
+type Entry = {
+	attempts: number[];
+	blockedUntil: number;
+};
+
+// Forget idle keys once this many are tracked, so the map cannot grow forever
+const PRUNE_THRESHOLD = 10_000;
+
+// In-memory sliding-window limiter keyed by IP, account or anything else
+export class RateLimiter {
+	private options: RateLimitOptions;
+	private entries = new Map<string, Entry>();
+
+	constructor(options: RateLimitOptions) {
+		this.options = options;
+	}
+
+	// Whether another attempt is allowed right now, without counting one
+	check(key: string, now: number = Date.now()): RateLimitResult {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return { allowed: true, retryAfterMs: 0 };
+		}
+
+		this.slide(entry, now);
+
+		if (entry.blockedUntil > now) {
+			return { allowed: false, retryAfterMs: entry.blockedUntil - now };
+		}
+
+		// Without backoff the limit is hard, wait for the oldest attempt to age out
+		if (!this.options.backoffMs && entry.attempts.length >= this.options.max) {
+			return {
+				allowed: false,
+				retryAfterMs: entry.attempts[0] + this.options.windowMs - now,
+			};
+		}
+
+		return { allowed: true, retryAfterMs: 0 };
+	}
+
+	// Count an attempt, e.g. a failed login
+	record(key: string, now: number = Date.now()): void {
+		if (this.entries.size >= PRUNE_THRESHOLD) {
+			this.prune(now);
+		}
+
+		const entry = this.entries.get(key) ?? { attempts: [], blockedUntil: 0 };
+		this.entries.set(key, entry);
+		this.slide(entry, now);
+		entry.attempts.push(now);
+
+		const { max, backoffMs, maxBackoffMs, lockoutAfter, lockoutMs } =
+			this.options;
+		const count = entry.attempts.length;
+
+		if (lockoutAfter && lockoutMs && count >= lockoutAfter) {
+			entry.blockedUntil = now + lockoutMs;
+		} else if (backoffMs && count >= max) {
+			const delay = backoffMs * 2 ** (count - max);
+			entry.blockedUntil = now + Math.min(delay, maxBackoffMs ?? delay);
+		}
+	}
+
+	// Check and count in one go, for limits on every request rather than failures
+	consume(key: string, now: number = Date.now()): RateLimitResult {
+		const result = this.check(key, now);
+		if (result.allowed) {
+			this.record(key, now);
+		}
+		return result;
+	}
+
+	// Clear a key, e.g. after a successful login
+	reset(key: string): void {
+		this.entries.delete(key);
+	}
+
+	private slide(entry: Entry, now: number): void {
+		const cutoff = now - this.options.windowMs;
+		while (entry.attempts.length > 0 && entry.attempts[0] <= cutoff) {
+			entry.attempts.shift();
+		}
+	}
+
+	private prune(now: number): void {
+		for (const [key, entry] of this.entries) {
+			this.slide(entry, now);
+			if (entry.attempts.length === 0 && entry.blockedUntil <= now) {
+				this.entries.delete(key);
+			}
+		}
+	}
+}
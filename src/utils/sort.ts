@@ -0,0 +1,121 @@
+import type { CursorKey } from "./cursor";
+
+// A column clients may sort a listing by
+export interface SortField<Row> {
+	// SQL the listing orders by, never built from user input
+	expression: string;
+	type: "string" | "number";
+	// The row's value for the expression, to build cursors from
+	value: (row: Row) => string | number;
+}
+
+export interface SortColumn<Row> extends SortField<Row> {
+	field: string;
+	descending: boolean;
+}
+
+/**
+ * Read the `sort` and `order` parameters of a list request, such as
+ * `sort=buyer,amount&order=asc,desc`. Columns without an order are
+ * ascending, and the unique field is appended to break ties.
+ * @param url Request URL
+ * @param fields Columns the listing may be sorted by, by name
+ * @param fallback Sort used when the request gives none
+ * @param unique Field no two rows share
+ * @returns The columns to order by, or null for unknown fields or orders
+ */
+export function getSort<Row>(
+	url: URL,
+	fields: Record<string, SortField<Row>>,
+	fallback: { sort: string; order: string },
+	unique: string,
+): SortColumn<Row>[] | null {
+	const sort = url.searchParams.get("sort") || fallback.sort;
+	const order =
+		url.searchParams.get("order") ??
+		(url.searchParams.has("sort") ? "" : fallback.order);
+
+	const names = sort.split(",");
+	const orders = order ? order.split(",") : [];
+	if (orders.length > names.length || new Set(names).size < names.length) {
+		return null;
+	}
+
+	const columns: SortColumn<Row>[] = [];
+	for (const [index, name] of names.entries()) {
+		const direction = orders[index] ?? "asc";
+		if (!Object.hasOwn(fields, name) || !["asc", "desc"].includes(direction)) {
+			return null;
+		}
+		columns.push({
+			...fields[name],
+			field: name,
+			descending: direction === "desc",
+		});
+	}
+
+	if (!names.includes(unique)) {
+		columns.push({
+			...fields[unique],
+			field: unique,
+			descending: columns[columns.length - 1].descending,
+		});
+	}
+
+	return columns;
+}
+
+// Stable text for a sort, to key caches on
+export function describeSort<Row>(columns: SortColumn<Row>[]): string {
+	return columns
+		.map((column) => `${column.field}:${column.descending ? "desc" : "asc"}`)
+		.join(",");
+}
+
+/**
+ * ORDER BY clause for the columns
+ * @param columns Columns to order by
+ * @param backwards Walk the order in reverse, for pages before a cursor
+ */
+export function orderBy<Row>(
+	columns: SortColumn<Row>[],
+	backwards = false,
+): string {
+	return columns
+		.map(
+			(column) =>
+				`${column.expression} ${column.descending !== backwards ? "DESC" : "ASC"}`,
+		)
+		.join(", ");
+}
+
+/**
+ * WHERE condition for the rows after a cursor in the given order. Columns
+ * may be ordered in different directions, so a row value comparison will
+ * not do: each column is compared with the earlier ones held equal.
+ * @param columns Columns the cursor key was taken from
+ * @param key The cursor row's value for each column
+ * @param backwards Take the rows before the cursor instead
+ */
+export function keysetCondition<Row>(
+	columns: SortColumn<Row>[],
+	key: CursorKey,
+	backwards = false,
+): { sql: string; params: CursorKey } {
+	const terms: string[] = [];
+	const params: CursorKey = [];
+
+	for (const [index, column] of columns.entries()) {
+		const equal = columns
+			.slice(0, index)
+			.map((earlier) => `${earlier.expression} = ?`);
+		const operator = column.descending !== backwards ? "<" : ">";
+
+		terms.push(
+			`(${[...equal, `${column.expression} ${operator} ?`].join(" AND ")})`,
+		);
+		params.push(...key.slice(0, index), key[index]);
+	}
+
+	return { sql: `(${terms.join(" OR ")})`, params };
+}
@@ -0,0 +1,120 @@
+export interface TaggedCacheOptions {
+	// Least recently used entries are evicted beyond this many
+	maxEntries: number;
+	// Entries older than this are treated as missing, whatever their tags
+	ttlMs: number;
+}
+
+export interface CacheStats {
+	size: number;
+	maxEntries: number;
+	hits: number;
+	misses: number;
+	evictions: number;
+	invalidations: number;
+}
+
+type Entry<T> = {
+	value: T;
+	tags: string[];
+	expiresAt: number;
+};
+
+// In-memory LRU cache whose entries can be dropped by any tag they carry
+export class TaggedCache<T> {
+	private options: TaggedCacheOptions;
+	// Map keeps insertion order, so the first key is the least recently used
+	private entries = new Map<string, Entry<T>>();
+	private keysByTag = new Map<string, Set<string>>();
+	private counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+	constructor(options: TaggedCacheOptions) {
+		this.options = options;
+	}
+
+	get(key: string, now: number = Date.now()): T | undefined {
+		const entry = this.entries.get(key);
+
+		if (!entry || entry.expiresAt <= now) {
+			if (entry) this.delete(key);
+			this.counters.misses++;
+			return undefined;
+		}
+
+		// Move the entry to the back of the eviction order
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.counters.hits++;
+		return entry.value;
+	}
+
+	set(key: string, value: T, tags: string[], now: number = Date.now()): void {
+		this.delete(key);
+		this.entries.set(key, {
+			value,
+			tags,
+			expiresAt: now + this.options.ttlMs,
+		});
+
+		for (const tag of tags) {
+			const keys = this.keysByTag.get(tag) ?? new Set();
+			keys.add(key);
+			this.keysByTag.set(tag, keys);
+		}
+
+		while (this.entries.size > this.options.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.delete(oldest);
+			this.counters.evictions++;
+		}
+	}
+
+	// Drop every entry carrying the tag, returning how many were dropped
+	invalidate(tag: string): number {
+		return this.invalidateWhere((candidate) => candidate === tag);
+	}
+
+	// Drop every entry carrying a tag the predicate accepts
+	invalidateWhere(predicate: (tag: string) => boolean): number {
+		let dropped = 0;
+
+		for (const [tag, keys] of [...this.keysByTag]) {
+			if (!predicate(tag)) continue;
+
+			for (const key of keys) {
+				if (this.delete(key)) dropped++;
+			}
+		}
+
+		this.counters.invalidations += dropped;
+		return dropped;
+	}
+
+	clear(): void {
+		this.counters.invalidations += this.entries.size;
+		this.entries.clear();
+		this.keysByTag.clear();
+	}
+
+	stats(): CacheStats {
+		return {
+			size: this.entries.size,
+			maxEntries: this.options.maxEntries,
+			...this.counters,
+		};
+	}
+
+	private delete(key: string): boolean {
+		const entry = this.entries.get(key);
+		if (!entry) return false;
+
+		this.entries.delete(key);
+		for (const tag of entry.tags) {
+			const keys = this.keysByTag.get(tag);
+			keys?.delete(key);
+			if (keys?.size === 0) this.keysByTag.delete(tag);
+		}
+
+		return true;
+	}
+}
@@ -0,0 +1,173 @@
+import { Worker } from "node:worker_threads";
+
+// Message sent to a worker
+interface WorkerRequest<TInput> {
+	id: number;
+	input: TInput;
+}
+
+// Message a worker sends back, carrying either a result or an error
+interface WorkerResponse<TOutput> {
+	id: number;
+	result?: TOutput;
+	error?: string;
+}
+
+interface Task<TInput, TOutput> {
+	id: number;
+	input: TInput;
+	resolve: (result: TOutput) => void;
+	reject: (error: Error) => void;
+}
+
+interface WorkerSlot<TInput, TOutput> {
+	worker: Worker;
+	task: Task<TInput, TOutput> | null;
+}
+
+export interface WorkerPoolOptions {
+	// Maximum number of workers running at once
+	size: number;
+	// Maximum number of tasks waiting for a free worker
+	maxQueueSize: number;
+}
+
+export interface WorkerPoolStats {
+	workers: number;
+	busy: number;
+	queued: number;
+}
+
+// Fixed-size pool of workers fed from a bounded FIFO queue.
+// Workers are started lazily and never keep the process alive on their own.
+export class WorkerPool<TInput, TOutput> {
+	private workerUrl: URL | string;
+	private options: WorkerPoolOptions;
+	private slots: WorkerSlot<TInput, TOutput>[] = [];
+	private queue: Task<TInput, TOutput>[] = [];
+	private nextTaskId = 1;
+
+	constructor(workerUrl: URL | string, options: WorkerPoolOptions) {
+		this.workerUrl = workerUrl;
+		this.options = {
+			size: Math.max(1, options.size),
+			maxQueueSize: Math.max(0, options.maxQueueSize),
+		};
+	}
+
+	// Run a task on the next free worker
+	run(input: TInput): Promise<TOutput> {
+		return new Promise((resolve, reject) => {
+			const task = { id: this.nextTaskId++, input, resolve, reject };
+
+			const slot = this.acquireSlot();
+			if (slot) {
+				this.dispatch(slot, task);
+				return;
+			}
+
+			if (this.queue.length >= this.options.maxQueueSize) {
+				reject(new Error("Worker pool queue is full"));
+				return;
+			}
+
+			this.queue.push(task);
+		});
+	}
+
+	// Current pool usage, for monitoring
+	stats(): WorkerPoolStats {
+		return {
+			workers: this.slots.length,
+			busy: this.slots.filter((slot) => slot.task !== null).length,
+			queued: this.queue.length,
+		};
+	}
+
+	// Stop every worker and fail any task that has not finished
+	destroy(): void {
+		for (const slot of this.slots) {
+			slot.worker.terminate();
+			slot.task?.reject(new Error("Worker pool destroyed"));
+		}
+		for (const task of this.queue) {
+			task.reject(new Error("Worker pool destroyed"));
+		}
+		this.slots = [];
+		this.queue = [];
+	}
+
+	private acquireSlot(): WorkerSlot<TInput, TOutput> | null {
+		const idle = this.slots.find((slot) => slot.task === null);
+		if (idle) {
+			return idle;
+		}
+
+		if (this.slots.length < this.options.size) {
+			return this.spawn();
+		}
+
+		return null;
+	}
+
+	private spawn(): WorkerSlot<TInput, TOutput> {
+		const worker = new Worker(this.workerUrl);
+		worker.unref();
+
+		const slot: WorkerSlot<TInput, TOutput> = { worker, task: null };
+
+		worker.on("message", (response: WorkerResponse<TOutput>) => {
+			this.handleResponse(slot, response);
+		});
+		worker.on("error", (error: Error) => {
+			this.handleCrash(slot, error);
+		});
+
+		this.slots.push(slot);
+		return slot;
+	}
+
+	private dispatch(
+		slot: WorkerSlot<TInput, TOutput>,
+		task: Task<TInput, TOutput>,
+	): void {
+		slot.task = task;
+		const request: WorkerRequest<TInput> = { id: task.id, input: task.input };
+		slot.worker.postMessage(request);
+	}
+
+	private handleResponse(
+		slot: WorkerSlot<TInput, TOutput>,
+		response: WorkerResponse<TOutput>,
+	): void {
+		const task = slot.task;
+		slot.task = null;
+
+		if (task && task.id === response.id) {
+			if (response.error !== undefined) {
+				task.reject(new Error(response.error));
+			} else {
+				task.resolve(response.result as TOutput);
+			}
+		}
+
+		const next = this.queue.shift();
+		if (next) {
+			this.dispatch(slot, next);
+		}
+	}
+
+	private handleCrash(slot: WorkerSlot<TInput, TOutput>, error: Error): void {
+		console.error("Worker crashed:", error);
+
+		// Replace the crashed worker and fail the task it was running
+		this.slots = this.slots.filter((candidate) => candidate !== slot);
+		slot.worker.terminate();
+		slot.task?.reject(error);
+
+		const next = this.queue.shift();
+		if (next) {
+			this.dispatch(this.spawn(), next);
+		}
+	}
+}
@@ -0,0 +1,281 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import {
+	burnCoin,
+	reassignCoin,
+	suspendClient,
+	unsuspendClient,
+	voidTransaction,
+} from "../src/admin";
+import { openDatabase } from "../src/db";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	MINT_ACCOUNT,
+	clientCashAccount,
+	clientCoinsAccount,
+	postJournal,
+	reconcileLedger,
+} from "../src/ledger";
+import { TokenManager } from "../src/utils/auth_token";
+
+const device = { userAgent: "bun-test", ipAddress: "127.0.0.1" };
+
+function addClient(db: Database, name: string, cash: number): number {
+	return db.transaction(() => {
+		const clientId = Number(
+			db
+				.query(
+					"INSERT INTO clients (name, email, cash_balance) VALUES (?, ?, ?)",
+				)
+				.run(name, `${name}@example.com`, cash).lastInsertRowid,
+		);
+		postJournal(db, {
+			description: "Cash deposit",
+			legs: [
+				{
+					debit: EXTERNAL_CASH_ACCOUNT,
+					credit: clientCashAccount(clientId),
+					amount: cash,
+				},
+			],
+		});
+		return clientId;
+	})();
+}
+
+// Mint and resell coins the way the coin routes do
+function mint(db: Database, clientId: number, value: number): number {
+	return db.transaction(() => {
+		const coinId = Number(
+			db
+				.query(
+					"INSERT INTO coins (bit1, bit2, bit3, value, client_id) VALUES (1, 2, 3, ?, ?)",
+				)
+				.run(value, clientId).lastInsertRowid,
+		);
+		const transaction = db
+			.query(
+				"INSERT INTO transactions (buyer_id, seller_id, coin_id, amount) VALUES (?, NULL, ?, ?)",
+			)
+			.run(clientId, coinId, value);
+		postJournal(db, {
+			description: "Coin generated",
+			coinId,
+			transactionId: Number(transaction.lastInsertRowid),
+			legs: [
+				{
+					debit: MINT_ACCOUNT,
+					credit: clientCoinsAccount(clientId),
+					amount: value,
+				},
+			],
+		});
+		return coinId;
+	})();
+}
+
+function resell(
+	db: Database,
+	coinId: number,
+	sellerId: number,
+	buyerId: number,
+	price: number,
+): number {
+	return db.transaction(() => {
+		const { value } = db
+			.query("SELECT value FROM coins WHERE coin_id = ?")
+			.get(coinId) as { value: number };
+		db.query(
+			"UPDATE clients SET cash_balance = cash_balance - ? WHERE id = ?",
+		).run(price, buyerId);
+		db.query(
+			"UPDATE clients SET cash_balance = cash_balance + ? WHERE id = ?",
+		).run(price, sellerId);
+		db.query("UPDATE coins SET client_id = ? WHERE coin_id = ?").run(
+			buyerId,
+			coinId,
+		);
+		const transaction = db
+			.query(
+				"INSERT INTO transactions (buyer_id, seller_id, coin_id, amount) VALUES (?, ?, ?, ?)",
+			)
+			.run(buyerId, sellerId, coinId, price);
+		const transactionId = Number(transaction.lastInsertRowid);
+		postJournal(db, {
+			description: "Coin resale",
+			coinId,
+			transactionId,
+			legs: [
+				{
+					debit: clientCashAccount(buyerId),
+					credit: clientCashAccount(sellerId),
+					amount: price,
+				},
+				{
+					debit: clientCoinsAccount(sellerId),
+					credit: clientCoinsAccount(buyerId),
+					amount: value,
+				},
+			],
+		});
+		return transactionId;
+	})();
+}
+
+function getCash(db: Database, clientId: number): number {
+	return (
+		db.query("SELECT cash_balance FROM clients WHERE id = ?").get(clientId) as {
+			cash_balance: number;
+		}
+	).cash_balance;
+}
+
+function getOwner(db: Database, coinId: number): number | null {
+	return (
+		db.query("SELECT client_id FROM coins WHERE coin_id = ?").get(coinId) as {
+			client_id: number | null;
+		}
+	).client_id;
+}
+
+describe("Admin actions", () => {
+	let db: Database;
+	let adminId: number;
+	let alice: number;
+	let bob: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		TokenManager.initialize(db);
+		adminId = addClient(db, "admin", 0);
+		alice = addClient(db, "alice", 100);
+		bob = addClient(db, "bob", 100);
+	});
+
+	it("should void a resale, returning the coin and the payment", () => {
+		const coinId = mint(db, alice, 10);
+		const transactionId = resell(db, coinId, alice, bob, 40);
+
+		expect(voidTransaction(db, adminId, transactionId, "Fraud")).toEqual({
+			status: "ok",
+		});
+
+		expect(getOwner(db, coinId)).toBe(alice);
+		expect(getCash(db, alice)).toBe(100);
+		expect(getCash(db, bob)).toBe(100);
+		expect(reconcileLedger(db).balanced).toBe(true);
+		expect(
+			db
+				.query(
+					"SELECT action, reason FROM admin_actions WHERE target_id = ? AND target_type = 'transaction'",
+				)
+				.get(transactionId),
+		).toEqual({ action: "void_transaction", reason: "Fraud" });
+
+		expect(voidTransaction(db, adminId, transactionId, "Again")).toEqual({
+			status: "conflict",
+			message: "Transaction is already voided",
+		});
+	});
+
+	it("should only void the latest transaction of a coin", () => {
+		const coinId = mint(db, alice, 10);
+		const mintId = (
+			db.query("SELECT id FROM transactions WHERE coin_id = ?").get(coinId) as {
+				id: number;
+			}
+		).id;
+		resell(db, coinId, alice, bob, 40);
+
+		expect(voidTransaction(db, adminId, mintId, "Too late").status).toBe(
+			"conflict",
+		);
+	});
+
+	it("should refuse a void the seller cannot refund", () => {
+		const coinId = mint(db, alice, 10);
+		const transactionId = resell(db, coinId, alice, bob, 40);
+		db.transaction(() => {
+			db.query("UPDATE clients SET cash_balance = 0 WHERE id = ?").run(alice);
+			postJournal(db, {
+				description: "Cash withdrawal",
+				legs: [
+					{
+						debit: clientCashAccount(alice),
+						credit: EXTERNAL_CASH_ACCOUNT,
+						amount: 140,
+					},
+				],
+			});
+		})();
+
+		expect(voidTransaction(db, adminId, transactionId, "Fraud")).toEqual({
+			status: "conflict",
+			message: `Client ${alice} cannot cover the refund`,
+		});
+		expect(getOwner(db, coinId)).toBe(bob);
+		expect(reconcileLedger(db).balanced).toBe(true);
+	});
+
+	it("should burn a coin when its mint is voided", () => {
+		const coinId = mint(db, alice, 10);
+		const transactionId = (
+			db.query("SELECT id FROM transactions WHERE coin_id = ?").get(coinId) as {
+				id: number;
+			}
+		).id;
+
+		expect(voidTransaction(db, adminId, transactionId, "Bad mint").status).toBe(
+			"ok",
+		);
+		expect(
+			db.query("SELECT burned_at FROM coins WHERE coin_id = ?").get(coinId),
+		).toEqual({ burned_at: expect.any(String) });
+		expect(reconcileLedger(db).balanced).toBe(true);
+	});
+
+	it("should reassign and burn coins without unbalancing the ledger", () => {
+		const coinId = mint(db, alice, 10);
+
+		expect(reassignCoin(db, adminId, coinId, bob, "Support ticket")).toEqual({
+			status: "ok",
+		});
+		expect(getOwner(db, coinId)).toBe(bob);
+		expect(reconcileLedger(db).balanced).toBe(true);
+
+		expect(burnCoin(db, adminId, coinId, "Counterfeit")).toEqual({
+			status: "ok",
+		});
+		expect(reconcileLedger(db).balanced).toBe(true);
+		expect(reassignCoin(db, adminId, coinId, alice, "Undo").status).toBe(
+			"conflict",
+		);
+		expect(burnCoin(db, adminId, 9999, "Missing")).toEqual({
+			status: "not_found",
+		});
+	});
+
+	it("should suspend a client and sign them out", async () => {
+		const login = await TokenManager.createSession(
+			alice,
+			"alice@example.com",
+			"user",
+			device,
+		);
+
+		expect(await suspendClient(db, adminId, alice, "Spam")).toEqual({
+			status: "ok",
+		});
+		expect(await TokenManager.verifyToken(login.accessToken)).toBeNull();
+		expect((await suspendClient(db, adminId, adminId, "Oops")).status).toBe(
+			"conflict",
+		);
+
+		expect(unsuspendClient(db, adminId, alice, "Appeal granted")).toEqual({
+			status: "ok",
+		});
+		expect(
+			db.query("SELECT suspended_at FROM clients WHERE id = ?").get(alice),
+		).toEqual({ suspended_at: null });
+	});
+});
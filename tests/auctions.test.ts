@@ -0,0 +1,210 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import {
+	ANTI_SNIPING_WINDOW,
+	placeBid,
+	settleDueAuctions,
+	startAuction,
+} from "../src/auctions";
+import { openDatabase } from "../src/db";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	HOUSE_COINS_ACCOUNT,
+	MINT_ACCOUNT,
+	clientCashAccount,
+	clientCoinsAccount,
+	postJournal,
+	reconcileLedger,
+} from "../src/ledger";
+
+function addClient(db: Database, name: string, cash: number): number {
+	return db.transaction(() => {
+		const clientId = Number(
+			db
+				.query(
+					"INSERT INTO clients (name, email, cash_balance) VALUES (?, ?, ?)",
+				)
+				.run(name, `${name}@example.com`, cash).lastInsertRowid,
+		);
+		postJournal(db, {
+			description: "Cash deposit",
+			legs: [
+				{
+					debit: EXTERNAL_CASH_ACCOUNT,
+					credit: clientCashAccount(clientId),
+					amount: cash,
+				},
+			],
+		});
+		return clientId;
+	})();
+}
+
+function mint(db: Database, clientId: number | null, value: number): number {
+	return db.transaction(() => {
+		const coinId = Number(
+			db
+				.query(
+					"INSERT INTO coins (bit1, bit2, bit3, value, client_id) VALUES (1, 2, 3, ?, ?)",
+				)
+				.run(value, clientId).lastInsertRowid,
+		);
+		postJournal(db, {
+			description: "Coin generated",
+			coinId,
+			legs: [
+				{
+					debit: MINT_ACCOUNT,
+					credit:
+						clientId === null
+							? HOUSE_COINS_ACCOUNT
+							: clientCoinsAccount(clientId),
+					amount: value,
+				},
+			],
+		});
+		return coinId;
+	})();
+}
+
+function getCash(db: Database, clientId: number): number {
+	return (
+		db.query("SELECT cash_balance FROM clients WHERE id = ?").get(clientId) as {
+			cash_balance: number;
+		}
+	).cash_balance;
+}
+
+describe("Auctions", () => {
+	const HOUR = 60 * 60 * 1000;
+	let db: Database;
+	let alice: number;
+	let bob: number;
+	let carol: number;
+	let coinId: number;
+	let endsAt: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		alice = addClient(db, "alice", 100);
+		bob = addClient(db, "bob", 100);
+		carol = addClient(db, "carol", 100);
+		coinId = mint(db, alice, 10);
+		endsAt = Date.now() + HOUR;
+	});
+
+	function auction(): number {
+		const result = startAuction(db, alice, false, coinId, {
+			reservePrice: 20,
+			minIncrement: 5,
+			endsAt: new Date(endsAt).toISOString(),
+		});
+		if (result.status !== "ok") throw new Error(result.status);
+		return result.auction.id;
+	}
+
+	it("should validate bids against the reserve, the high bid and funds", () => {
+		const auctionId = auction();
+
+		expect(placeBid(db, bob, auctionId, 15).status).toBe("conflict");
+		expect(placeBid(db, alice, auctionId, 50).status).toBe("conflict");
+		expect(placeBid(db, bob, auctionId, 500).status).toBe("insufficient_funds");
+		expect(placeBid(db, bob, auctionId, 20).status).toBe("ok");
+
+		const tooLow = placeBid(db, carol, auctionId, 24);
+		expect(tooLow).toEqual({
+			status: "conflict",
+			message: "Bids must be at least $25",
+		});
+		expect(placeBid(db, carol, auctionId, 25)).toEqual({
+			status: "ok",
+			auction: expect.objectContaining({
+				highBid: 25,
+				highBidderId: carol,
+				bidCount: 2,
+				minimumBid: 30,
+			}),
+		});
+	});
+
+	it("should extend the auction when a bid lands near the end", () => {
+		const auctionId = auction();
+		const lateBid = endsAt - 1000;
+
+		const result = placeBid(db, bob, auctionId, 20, lateBid);
+
+		expect(result.status).toBe("ok");
+		if (result.status !== "ok") return;
+		expect(Date.parse(result.auction.endsAt)).toBe(
+			lateBid + ANTI_SNIPING_WINDOW,
+		);
+		expect(result.auction.extensions).toBe(1);
+	});
+
+	it("should settle with the highest bidder who can still pay", () => {
+		const auctionId = auction();
+		placeBid(db, bob, auctionId, 20);
+		placeBid(db, carol, auctionId, 60);
+		// Carol withdraws her cash after bidding
+		db.transaction(() => {
+			db.query("UPDATE clients SET cash_balance = 0 WHERE id = ?").run(carol);
+			postJournal(db, {
+				description: "Cash withdrawal",
+				legs: [
+					{
+						debit: clientCashAccount(carol),
+						credit: EXTERNAL_CASH_ACCOUNT,
+						amount: 100,
+					},
+				],
+			});
+		})();
+
+		expect(settleDueAuctions(db, endsAt - 1)).toEqual([]);
+		const [settled] = settleDueAuctions(db, endsAt);
+
+		expect(settled).toEqual(
+			expect.objectContaining({
+				id: auctionId,
+				status: "settled",
+				transactionId: expect.any(Number),
+			}),
+		);
+		expect(
+			db.query("SELECT client_id FROM coins WHERE coin_id = ?").get(coinId),
+		).toEqual({ client_id: bob });
+		expect(getCash(db, alice)).toBe(120);
+		expect(getCash(db, bob)).toBe(80);
+		expect(
+			db
+				.query(
+					"SELECT buyer_id, seller_id, amount FROM transactions WHERE id = ?",
+				)
+				.get(settled.transactionId as number),
+		).toEqual({ buyer_id: bob, seller_id: alice, amount: 20 });
+		expect(reconcileLedger(db).balanced).toBe(true);
+	});
+
+	it("should leave unowned coins to admins and close unsold auctions", () => {
+		const unowned = mint(db, null, 10);
+		const options = {
+			reservePrice: 20,
+			minIncrement: 5,
+			endsAt: new Date(endsAt).toISOString(),
+		};
+
+		expect(startAuction(db, bob, false, unowned, options).status).toBe(
+			"forbidden",
+		);
+		expect(startAuction(db, bob, false, coinId, options).status).toBe(
+			"forbidden",
+		);
+		expect(startAuction(db, bob, true, unowned, options).status).toBe("ok");
+		auction();
+
+		expect(settleDueAuctions(db, endsAt).map((a) => a.status)).toEqual([
+			"unsold",
+			"unsold",
+		]);
+	});
+});
@@ -0,0 +1,73 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import {
+	listAuditEvents,
+	recordAuditEvent,
+	verifyAuditChain,
+} from "../src/audit";
+import { openDatabase } from "../src/db";
+
+const context = { actorId: 1, ipAddress: "127.0.0.1", userAgent: "bun-test" };
+
+describe("Audit log", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		db.query("INSERT INTO clients (name, email) VALUES (?, ?)").run(
+			"Ada",
+			"ada@example.com",
+		);
+
+		recordAuditEvent(db, "register", context, { email: "ada@example.com" });
+		recordAuditEvent(
+			db,
+			"login_failed",
+			{ ...context, actorId: null },
+			{
+				email: "ada@example.com",
+				reason: "wrong_password",
+			},
+		);
+		recordAuditEvent(db, "login_succeeded", context, { twoFactor: false });
+	});
+
+	it("should chain every event to the one before it", () => {
+		expect(verifyAuditChain(db)).toEqual({ valid: true, checked: 3 });
+	});
+
+	it("should filter and page newest first", () => {
+		const { events, total } = listAuditEvents(db, { actorId: 1 }, 1, 1);
+
+		expect(total).toBe(2);
+		expect(events).toEqual([
+			expect.objectContaining({
+				eventType: "login_succeeded",
+				actorId: 1,
+				payload: { twoFactor: false },
+			}),
+		]);
+		expect(
+			listAuditEvents(db, { eventType: "login_failed" }, 1, 10).events[0]
+				.payload,
+		).toEqual({ email: "ada@example.com", reason: "wrong_password" });
+	});
+
+	it("should reject updates and deletes", () => {
+		expect(() => db.exec("UPDATE audit_events SET actor_id = NULL")).toThrow();
+		expect(() => db.exec("DELETE FROM audit_events")).toThrow();
+	});
+
+	it("should detect a row edited behind the triggers' back", () => {
+		db.exec("DROP TRIGGER audit_events_no_update");
+		db.exec(
+			'UPDATE audit_events SET payload = \'{"email":"eve@example.com"}\' WHERE id = 1',
+		);
+
+		expect(verifyAuditChain(db)).toEqual({
+			valid: false,
+			checked: 0,
+			brokenAt: 1,
+		});
+	});
+});
@@ -0,0 +1,180 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import { TokenManager } from "../src/utils/auth_token";
+
+const device = { userAgent: "bun-test", ipAddress: "127.0.0.1" };
+
+describe("TokenManager sessions", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		TokenManager.initialize(db);
+	});
+
+	it("should rotate refresh tokens within the same session", async () => {
+		const login = await TokenManager.createSession(
+			1,
+			"a@example.com",
+			"user",
+			device,
+		);
+		const result = await TokenManager.refresh(login.refreshToken);
+
+		expect(result.status).toBe("ok");
+		if (result.status !== "ok") return;
+
+		expect(result.tokens.sessionId).toBe(login.sessionId);
+		expect(result.tokens.refreshToken).not.toBe(login.refreshToken);
+		expect(await TokenManager.verifyToken(result.tokens.accessToken)).toEqual(
+			expect.objectContaining({ userId: 1, sessionId: login.sessionId }),
+		);
+	});
+
+	it("should revoke the whole family when a refresh token is reused", async () => {
+		const login = await TokenManager.createSession(
+			1,
+			"a@example.com",
+			"user",
+			device,
+		);
+		const rotated = await TokenManager.refresh(login.refreshToken);
+		if (rotated.status !== "ok") throw new Error("refresh failed");
+
+		expect((await TokenManager.refresh(login.refreshToken)).status).toBe(
+			"reused",
+		);
+		expect(
+			await TokenManager.verifyToken(rotated.tokens.accessToken),
+		).toBeNull();
+		expect(
+			(await TokenManager.refresh(rotated.tokens.refreshToken)).status,
+		).toBe("invalid");
+		expect(await TokenManager.listSessions(1)).toEqual([]);
+	});
+
+	it("should only let users revoke their own sessions", async () => {
+		const mine = await TokenManager.createSession(
+			1,
+			"a@example.com",
+			"user",
+			device,
+		);
+		const theirs = await TokenManager.createSession(
+			2,
+			"b@example.com",
+			"user",
+			device,
+		);
+
+		expect(await TokenManager.revokeSession(1, theirs.sessionId)).toBe(false);
+		expect(await TokenManager.revokeSession(1, mine.sessionId)).toBe(true);
+		expect(await TokenManager.verifyToken(mine.accessToken)).toBeNull();
+		expect(
+			(await TokenManager.listSessions(2)).map((session) => session.id),
+		).toEqual([theirs.sessionId]);
+	});
+
+	it("should only store hashes of tokens", async () => {
+		const login = await TokenManager.createSession(
+			1,
+			"a@example.com",
+			"user",
+			device,
+		);
+
+		for (const [table, token] of [
+			["auth_tokens", login.accessToken],
+			["refresh_tokens", login.refreshToken],
+		]) {
+			const rows = db.query(`SELECT token_hash FROM ${table}`).all() as {
+				token_hash: string;
+			}[];
+			expect(rows).toHaveLength(1);
+			expect(rows[0].token_hash).not.toBe(token);
+		}
+		expect(await TokenManager.verifyToken(login.accessToken)).not.toBeNull();
+	});
+
+	it("should sweep expired tokens and report it in the stats", async () => {
+		const expired = await TokenManager.createSession(
+			1,
+			"a@example.com",
+			"user",
+			device,
+		);
+		const live = await TokenManager.createSession(
+			2,
+			"b@example.com",
+			"user",
+			device,
+		);
+		db.query("UPDATE auth_tokens SET expires_at = ? WHERE session_id = ?").run(
+			new Date(Date.now() - 1000).toISOString(),
+			expired.sessionId,
+		);
+
+		const before = TokenManager.getSweeperStats();
+		const purged = await TokenManager.sweepExpiredTokens();
+		const after = TokenManager.getSweeperStats();
+
+		expect(purged).toEqual({ accessTokens: 1, refreshTokens: 0 });
+		expect(after.runs).toBe(before.runs + 1);
+		expect(after.lastPurged).toEqual(purged);
+		expect(after.totalPurged.accessTokens).toBe(
+			before.totalPurged.accessTokens + 1,
+		);
+		expect(await TokenManager.verifyToken(live.accessToken)).not.toBeNull();
+	});
+});
+
+describe("TokenManager API keys", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		TokenManager.initialize(db);
+	});
+
+	const createKey = (expiresAt: number | null = null) =>
+		TokenManager.createApiKey(1, "a@example.com", "user", {
+			name: "Bot",
+			scopes: ["read", "trade"],
+			expiresAt,
+		});
+
+	it("should verify a key and record when it was used", async () => {
+		const result = await createKey();
+
+		expect(result.status).toBe("ok");
+		if (result.status !== "ok") return;
+
+		expect(result.key.startsWith(result.apiKey.prefix)).toBe(true);
+		expect(await TokenManager.verifyApiKey(result.key)).toEqual(
+			expect.objectContaining({ userId: 1, scopes: ["read", "trade"] }),
+		);
+		const [listed] = await TokenManager.listApiKeys(1);
+		expect(listed.lastUsedAt).not.toBeNull();
+	});
+
+	it("should refuse revoked and expired keys", async () => {
+		const revoked = await createKey();
+		const expired = await createKey(Date.now() - 1000);
+		if (revoked.status !== "ok" || expired.status !== "ok") return;
+
+		expect(await TokenManager.revokeApiKey(2, revoked.apiKey.id)).toBe(false);
+		expect(await TokenManager.revokeApiKey(1, revoked.apiKey.id)).toBe(true);
+
+		expect(await TokenManager.verifyApiKey(revoked.key)).toBeNull();
+		expect(await TokenManager.verifyApiKey(expired.key)).toBeNull();
+	});
+
+	it("should cap how many keys a client can hold", async () => {
+		for (let i = 0; i < 20; i++) {
+			expect((await createKey()).status).toBe("ok");
+		}
+
+		expect((await createKey()).status).toBe("limit_reached");
+	});
+});
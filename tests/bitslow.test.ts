@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { computeBitSlow } from "../src/bitslow";
+import { computeBitSlow, computeBitSlowAsync } from "../src/bitslow";
 
 describe("BitSlow", () => {
 	it("should compute consistent hash for the same inputs", () => {
@@ -21,4 +21,15 @@ describe("BitSlow", () => {
 		expect(typeof result).toBe("string");
 		expect(result.length).toBe(32);
 	});
+
+	it("should compute the same hash on the worker pool", async () => {
+		const results = await Promise.all([
+			computeBitSlowAsync(123, 456, 789),
+			computeBitSlowAsync(789, 456, 123),
+		]);
+		expect(results).toEqual([
+			computeBitSlow(123, 456, 789),
+			computeBitSlow(789, 456, 123),
+		]);
+	});
 });
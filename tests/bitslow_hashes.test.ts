@@ -0,0 +1,26 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, it } from "bun:test";
+import { computeBitSlow } from "../src/bitslow";
+import { runMigrations } from "../src/migrations";
+import { backfillBitSlowHashes } from "../src/utils/bitslow_hashes";
+
+describe("BitSlow hash backfill", () => {
+	it("should store the hash for coins that do not have one", async () => {
+		const db = new Database(":memory:");
+		runMigrations(db);
+		db.exec(`
+      INSERT INTO coins (bit1, bit2, bit3, value) VALUES (1, 2, 3, 100);
+      INSERT INTO coins (bit1, bit2, bit3, value, bitslow_hash)
+        VALUES (4, 5, 6, 200, 'already-stored');
+    `);
+
+		const backfilled = await backfillBitSlowHashes(db);
+
+		expect(backfilled).toBe(1);
+		const coins = db
+			.query("SELECT bitslow_hash FROM coins ORDER BY coin_id")
+			.all() as { bitslow_hash: string }[];
+		expect(coins[0].bitslow_hash).toEqual(computeBitSlow(1, 2, 3));
+		expect(coins[1].bitslow_hash).toEqual("already-stored");
+	});
+});
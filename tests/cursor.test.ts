@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { encodeCursor, getCursor, toCursorPage } from "../src/utils/cursor";
+
+describe("Cursor pagination", () => {
+	const keyOf = (row: number) => [row];
+
+	function cursorFor(query: string) {
+		return getCursor(new URL(`http://localhost/api/coins?${query}`), [
+			"number",
+		]);
+	}
+
+	it("should read cursors and reject ones it did not issue", () => {
+		const token = encodeCursor([7]);
+
+		expect(cursorFor("page=2")).toEqual({ status: "none" });
+		expect(cursorFor(`after=${token}`)).toEqual({
+			status: "ok",
+			direction: "after",
+			key: [7],
+			token,
+		});
+		expect(cursorFor(`before=${token}`)).toMatchObject({
+			direction: "before",
+		});
+		expect(cursorFor("after=not-a-cursor").status).toBe("invalid");
+		expect(cursorFor(`after=${encodeCursor(["7"])}`).status).toBe("invalid");
+		expect(cursorFor(`after=${token}&before=${token}`).status).toBe("invalid");
+	});
+
+	it("should point past both ends of a page only when rows lie there", () => {
+		const none = { status: "none" } as const;
+		expect(toCursorPage([1, 2, 3], 2, none, keyOf)).toEqual({
+			rows: [1, 2],
+			nextCursor: encodeCursor([2]),
+			prevCursor: null,
+		});
+		expect(
+			toCursorPage([5, 6], 2, cursorFor(`after=${encodeCursor([4])}`), keyOf),
+		).toEqual({
+			rows: [5, 6],
+			nextCursor: null,
+			prevCursor: encodeCursor([5]),
+		});
+
+		// Walked backwards from 5, with 1 still further back
+		const before = cursorFor(`before=${encodeCursor([5])}`);
+		expect(toCursorPage([4, 3, 2], 2, before, keyOf)).toEqual({
+			rows: [3, 4],
+			nextCursor: encodeCursor([4]),
+			prevCursor: encodeCursor([3]),
+		});
+		expect(toCursorPage([2, 1], 2, before, keyOf).prevCursor).toBeNull();
+	});
+});
@@ -0,0 +1,146 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import {
+	consumeEmailToken,
+	getAppUrl,
+	issueEmailToken,
+	resetPassword,
+	sendPasswordResetEmail,
+	verifyEmail,
+} from "../src/email_tokens";
+import { OutboxMailer } from "../src/utils/mailer";
+import { verifyPassword } from "../src/utils/password_hashing";
+
+describe("Email tokens", () => {
+	let db: Database;
+	let clientId: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		clientId = Number(
+			db
+				.query("INSERT INTO clients (name, email) VALUES (?, ?)")
+				.run("Ada", "ada@example.com").lastInsertRowid,
+		);
+	});
+
+	it("should accept a token only once and only for its purpose", () => {
+		const token = issueEmailToken(db, clientId, "email_verification");
+
+		expect(consumeEmailToken(db, token, "password_reset")).toBeNull();
+		expect(consumeEmailToken(db, token, "email_verification")).toBe(clientId);
+		expect(consumeEmailToken(db, token, "email_verification")).toBeNull();
+	});
+
+	it("should reject tampered tokens", () => {
+		const token = issueEmailToken(db, clientId, "password_reset");
+		const [payload, signature] = token.split(".");
+		const forged = Buffer.from(
+			Buffer.from(payload, "base64url")
+				.toString()
+				.replace(`.${clientId}.`, ".999."),
+		).toString("base64url");
+
+		expect(
+			consumeEmailToken(db, `${forged}.${signature}`, "password_reset"),
+		).toBeNull();
+		expect(consumeEmailToken(db, "not-a-token", "password_reset")).toBeNull();
+		expect(consumeEmailToken(db, token, "password_reset")).toBe(clientId);
+	});
+
+	it("should invalidate older tokens when a new one is issued", () => {
+		const first = issueEmailToken(db, clientId, "password_reset");
+		const second = issueEmailToken(db, clientId, "password_reset");
+
+		expect(consumeEmailToken(db, first, "password_reset")).toBeNull();
+		expect(consumeEmailToken(db, second, "password_reset")).toBe(clientId);
+	});
+
+	it("should mail a reset link and set the new password", async () => {
+		const mailer = new OutboxMailer(db);
+
+		expect(
+			await sendPasswordResetEmail(
+				db,
+				mailer,
+				"nobody@example.com",
+				"http://localhost:3000",
+			),
+		).toBe(false);
+		expect(
+			await sendPasswordResetEmail(
+				db,
+				mailer,
+				"ada@example.com",
+				"http://localhost:3000",
+			),
+		).toBe(true);
+
+		const message = db
+			.query<{ recipient: string; body: string }, []>(
+				"SELECT recipient, body FROM outbox",
+			)
+			.get();
+		expect(message?.recipient).toBe("ada@example.com");
+
+		const token = message?.body.match(/reset-password\?token=(\S+)/)?.[1];
+		expect(token).toBeDefined();
+
+		expect(await resetPassword(db, token ?? "", "new password")).toBe(clientId);
+		expect(await resetPassword(db, token ?? "", "another one")).toBeNull();
+
+		const client = db
+			.query<
+				{
+					password_hash: string;
+					password_algorithm: string;
+					email_verified_at: string | null;
+				},
+				number
+			>(
+				"SELECT password_hash, password_algorithm, email_verified_at FROM clients WHERE id = ?",
+			)
+			.get(clientId);
+		expect(
+			await verifyPassword("new password", {
+				hash: client?.password_hash ?? "",
+				algorithm: client?.password_algorithm ?? "",
+			}),
+		).toBe(true);
+		expect(client?.email_verified_at).not.toBeNull();
+	});
+
+	it("should verify an email address", () => {
+		const token = issueEmailToken(db, clientId, "email_verification");
+
+		expect(verifyEmail(db, token)).toBe(clientId);
+		expect(
+			db
+				.query<{ email_verified_at: string | null }, number>(
+					"SELECT email_verified_at FROM clients WHERE id = ?",
+				)
+				.get(clientId)?.email_verified_at,
+		).not.toBeNull();
+	});
+
+	it("should take email links from APP_URL, required in production", () => {
+		const { APP_URL, NODE_ENV } = process.env;
+		try {
+			process.env.APP_URL = "https://bitslow.example.com/";
+			expect(getAppUrl()).toBe("https://bitslow.example.com");
+
+			delete process.env.APP_URL;
+			process.env.NODE_ENV = "development";
+			expect(getAppUrl()).toBe("http://localhost:3000");
+
+			process.env.NODE_ENV = "production";
+			expect(() => getAppUrl()).toThrow("APP_URL");
+		} finally {
+			// Assigning undefined would store the string "undefined"
+			Object.assign(process.env, { APP_URL, NODE_ENV });
+			if (APP_URL === undefined) delete process.env.APP_URL;
+			if (NODE_ENV === undefined) delete process.env.NODE_ENV;
+		}
+	});
+});
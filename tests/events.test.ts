@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import { EventHub, announceSale } from "../src/events";
+
+describe("EventHub", () => {
+	it("should replay missed events and refuse cursors it cannot serve", () => {
+		const hub = new EventHub(3);
+		for (let i = 0; i < 5; i++) {
+			hub.publish("new-transaction", { i });
+		}
+
+		expect(hub.latestId).toBe(5);
+		expect(hub.since(hub.epoch, 3)?.map((event) => event.id)).toEqual([4, 5]);
+		expect(hub.since(hub.epoch, 5)).toEqual([]);
+		// Event 2 fell out of the backlog, event 6 was never published
+		expect(hub.since(hub.epoch, 1)).toBeNull();
+		expect(hub.since(hub.epoch, 6)).toBeNull();
+		expect(hub.since("earlier-run", 4)).toBeNull();
+	});
+
+	it("should keep delivering when a listener throws", () => {
+		const hub = new EventHub();
+		const received: number[] = [];
+		hub.subscribe(() => {
+			throw new Error("broken listener");
+		});
+		const unsubscribe = hub.subscribe((event) => received.push(event.id));
+
+		hub.publish("coin-generated", {});
+		unsubscribe();
+		hub.publish("coin-generated", {});
+
+		expect(received).toEqual([1]);
+	});
+
+	it("should announce a sale as a purchase and a transaction row", () => {
+		const db = openDatabase(":memory:");
+		db.query(
+			"INSERT INTO clients (name, email, cash_balance) VALUES ('alice', 'alice@example.com', 0)",
+		).run();
+		db.query(
+			"INSERT INTO coins (bit1, bit2, bit3, value, client_id, bitslow_hash) VALUES (1, 2, 3, 10, 1, 'abc')",
+		).run();
+		const transactionId = Number(
+			db
+				.query(
+					"INSERT INTO transactions (coin_id, seller_id, buyer_id, amount, transaction_date) VALUES (1, NULL, 1, 10, '2026-03-01T10:00:00.000Z')",
+				)
+				.run().lastInsertRowid,
+		);
+		const hub = new EventHub();
+
+		announceSale(db, transactionId, hub);
+
+		expect(hub.since(hub.epoch, 0)).toEqual([
+			expect.objectContaining({
+				type: "coin-purchased",
+				data: {
+					coin_id: 1,
+					client_id: 1,
+					client_name: "alice",
+					seller_id: null,
+					amount: 10,
+					transaction_id: transactionId,
+				},
+			}),
+			expect.objectContaining({
+				type: "new-transaction",
+				data: expect.objectContaining({
+					id: transactionId,
+					buyer_name: "alice",
+					seller_name: null,
+					computedBitSlow: "abc",
+				}),
+			}),
+		]);
+	});
+});
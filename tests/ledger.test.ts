@@ -0,0 +1,83 @@
+import { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	clientCashAccount,
+	postJournal,
+	reconcileLedger,
+} from "../src/ledger";
+import { seedDatabase } from "../src/seed";
+
+describe("Ledger", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = new Database(":memory:");
+		seedDatabase(db, {
+			clientCount: 5,
+			bitSlowCount: 10,
+			transactionCount: 20,
+		});
+	});
+
+	it("should reconcile a freshly seeded database", () => {
+		const report = reconcileLedger(db);
+		expect(report.unbalancedJournals).toEqual([]);
+		expect(report.accountMismatches).toEqual([]);
+		expect(report.coinOwnershipMismatches).toEqual([]);
+		expect(report.balanced).toBe(true);
+	});
+
+	it("should flag a cash balance changed outside the ledger", () => {
+		db.query(
+			"UPDATE clients SET cash_balance = cash_balance + 1 WHERE id = 1",
+		).run();
+
+		const report = reconcileLedger(db);
+		expect(report.balanced).toBe(false);
+		expect(report.accountMismatches.map((m) => m.account)).toEqual([
+			clientCashAccount(1),
+		]);
+	});
+
+	it("should stay balanced when cash moves through a journal", () => {
+		db.transaction(() => {
+			db.query(
+				"UPDATE clients SET cash_balance = cash_balance + 50 WHERE id = 2",
+			).run();
+			postJournal(db, {
+				description: "Cash deposit",
+				legs: [
+					{
+						debit: EXTERNAL_CASH_ACCOUNT,
+						credit: clientCashAccount(2),
+						amount: 50,
+					},
+				],
+			});
+		})();
+
+		expect(reconcileLedger(db).balanced).toBe(true);
+	});
+
+	it("should flag coins whose owner differs from their transaction chain", () => {
+		const tx = db
+			.query(
+				"SELECT coin_id, buyer_id FROM transactions ORDER BY id DESC LIMIT 1",
+			)
+			.get() as { coin_id: number; buyer_id: number };
+		db.query("UPDATE coins SET client_id = NULL WHERE coin_id = ?").run(
+			tx.coin_id,
+		);
+
+		const report = reconcileLedger(db);
+		expect(report.coinOwnershipMismatches).toContainEqual(
+			expect.objectContaining({ coinId: tx.coin_id, ownerId: null }),
+		);
+	});
+
+	it("should reject updates and deletes of ledger entries", () => {
+		expect(() => db.exec("UPDATE ledger_entries SET amount = 0")).toThrow();
+		expect(() => db.exec("DELETE FROM ledger_entries")).toThrow();
+	});
+});
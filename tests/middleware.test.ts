@@ -0,0 +1,148 @@
+import { describe, expect, it } from "bun:test";
+import { withAuth, withPermission } from "../src/routes/middleware";
+import { TokenManager } from "../src/utils/auth_token";
+
+describe("withAuth", () => {
+	const handler = withAuth((_req, user) =>
+		Response.json({ userId: user.userId, email: user.email }),
+	);
+
+	it("should reject requests without a bearer token", async () => {
+		const response = await handler(new Request("http://localhost/api/user"));
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({
+			success: false,
+			authenticated: false,
+			message: "No token provided",
+		});
+	});
+
+	it("should reject unknown tokens with the same shape", async () => {
+		const response = await handler(
+			new Request("http://localhost/api/user", {
+				headers: { Authorization: "Bearer not-a-token" },
+			}),
+		);
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({
+			success: false,
+			authenticated: false,
+			message: "Invalid or expired token",
+		});
+	});
+
+	it("should pass the authenticated user to the handler", async () => {
+		const { accessToken } = await TokenManager.createSession(
+			7,
+			"user@example.com",
+			"user",
+			{ userAgent: null, ipAddress: null },
+		);
+		const response = await handler(
+			new Request("http://localhost/api/user", {
+				headers: { Authorization: `Bearer ${accessToken}` },
+			}),
+		);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({
+			userId: 7,
+			email: "user@example.com",
+		});
+	});
+});
+
+describe("withPermission", () => {
+	const handler = withPermission("audit:read", () =>
+		Response.json({ ok: true }),
+	);
+
+	async function requestAs(role: "user" | "admin"): Promise<Response> {
+		const { accessToken } = await TokenManager.createSession(
+			8,
+			"someone@example.com",
+			role,
+			{ userAgent: null, ipAddress: null },
+		);
+		return handler(
+			new Request("http://localhost/api/admin/audit", {
+				headers: { Authorization: `Bearer ${accessToken}` },
+			}),
+		);
+	}
+
+	it("should reject roles without the permission", async () => {
+		const response = await requestAs("user");
+
+		expect(response.status).toBe(403);
+		expect((await response.json()).success).toBe(false);
+	});
+
+	it("should run the handler for roles with the permission", async () => {
+		const response = await requestAs("admin");
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ ok: true });
+	});
+});
+
+describe("withAuth with API keys", () => {
+	const readHandler = withAuth(
+		(_req, user) => Response.json({ apiKeyId: user.apiKeyId }),
+		"read",
+	);
+	const mintHandler = withAuth(() => Response.json({ ok: true }), "mint");
+	const sessionHandler = withAuth(() => Response.json({ ok: true }));
+
+	async function requestWithKey(
+		handler: (req: Request) => Promise<Response>,
+	): Promise<Response> {
+		const result = await TokenManager.createApiKey(
+			9,
+			"bot@example.com",
+			"user",
+			{ name: "Bot", scopes: ["read"], expiresAt: null },
+		);
+		if (result.status !== "ok") throw new Error("Could not create API key");
+
+		return handler(
+			new Request("http://localhost/api/user", {
+				headers: { Authorization: `ApiKey ${result.key}` },
+			}),
+		);
+	}
+
+	it("should run the handler when the key has the scope", async () => {
+		const response = await requestWithKey(readHandler);
+
+		expect(response.status).toBe(200);
+		expect((await response.json()).apiKeyId).toEqual(expect.any(String));
+	});
+
+	it("should reject keys missing the scope", async () => {
+		const response = await requestWithKey(mintHandler);
+
+		expect(response.status).toBe(403);
+		expect((await response.json()).message).toBe(
+			'API key is missing the "mint" scope',
+		);
+	});
+
+	it("should reject keys on session-only routes", async () => {
+		const response = await requestWithKey(sessionHandler);
+
+		expect(response.status).toBe(403);
+	});
+
+	it("should reject unknown keys", async () => {
+		const response = await readHandler(
+			new Request("http://localhost/api/user", {
+				headers: { Authorization: "ApiKey bsk_unknown" },
+			}),
+		);
+
+		expect(response.status).toBe(401);
+	});
+});
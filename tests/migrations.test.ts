@@ -0,0 +1,46 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, it } from "bun:test";
+import { migrations, runMigrations } from "../src/migrations";
+
+describe("Migrations", () => {
+	it("should apply every migration in order on an empty database", () => {
+		const db = new Database(":memory:");
+		const applied = runMigrations(db);
+
+		expect(applied).toEqual(
+			migrations.map((migration) => migration.version).sort((a, b) => a - b),
+		);
+
+		const recorded = db
+			.query("SELECT version FROM schema_migrations ORDER BY version")
+			.all() as { version: number }[];
+		expect(recorded.map((row) => row.version)).toEqual(applied);
+	});
+
+	it("should not reapply migrations that already ran", () => {
+		const db = new Database(":memory:");
+		runMigrations(db);
+
+		expect(runMigrations(db)).toEqual([]);
+	});
+
+	it("should adopt a database created before migrations existed", () => {
+		const db = new Database(":memory:");
+		db.exec(`
+      CREATE TABLE auth_tokens (
+        token TEXT PRIMARY KEY,
+        client_id INTEGER NOT NULL,
+        email TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+		runMigrations(db);
+
+		const columns = db.query("PRAGMA table_info(coins)").all() as {
+			name: string;
+		}[];
+		expect(columns.map((column) => column.name)).toContain("asking_price");
+	});
+});
@@ -0,0 +1,168 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import {
+	EXTERNAL_CASH_ACCOUNT,
+	MINT_ACCOUNT,
+	clientCashAccount,
+	clientCoinsAccount,
+	postJournal,
+	reconcileLedger,
+} from "../src/ledger";
+import {
+	acceptOffer,
+	cancelOffer,
+	counterOffer,
+	createOffer,
+	listOffers,
+	rejectOffer,
+} from "../src/offers";
+
+function addClient(db: Database, name: string, cash: number): number {
+	return db.transaction(() => {
+		const clientId = Number(
+			db
+				.query(
+					"INSERT INTO clients (name, email, cash_balance) VALUES (?, ?, ?)",
+				)
+				.run(name, `${name}@example.com`, cash).lastInsertRowid,
+		);
+		postJournal(db, {
+			description: "Cash deposit",
+			legs: [
+				{
+					debit: EXTERNAL_CASH_ACCOUNT,
+					credit: clientCashAccount(clientId),
+					amount: cash,
+				},
+			],
+		});
+		return clientId;
+	})();
+}
+
+function mint(db: Database, clientId: number, value: number): number {
+	return db.transaction(() => {
+		const coinId = Number(
+			db
+				.query(
+					"INSERT INTO coins (bit1, bit2, bit3, value, client_id) VALUES (1, 2, 3, ?, ?)",
+				)
+				.run(value, clientId).lastInsertRowid,
+		);
+		postJournal(db, {
+			description: "Coin generated",
+			coinId,
+			legs: [
+				{
+					debit: MINT_ACCOUNT,
+					credit: clientCoinsAccount(clientId),
+					amount: value,
+				},
+			],
+		});
+		return coinId;
+	})();
+}
+
+function getCash(db: Database, clientId: number): number {
+	return (
+		db.query("SELECT cash_balance FROM clients WHERE id = ?").get(clientId) as {
+			cash_balance: number;
+		}
+	).cash_balance;
+}
+
+function inHours(hours: number): string {
+	return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
+
+describe("Offers", () => {
+	let db: Database;
+	let alice: number;
+	let bob: number;
+	let carol: number;
+	let coinId: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		alice = addClient(db, "alice", 100);
+		bob = addClient(db, "bob", 100);
+		carol = addClient(db, "carol", 100);
+		coinId = mint(db, alice, 10);
+	});
+
+	function offer(buyerId: number, amount: number): number {
+		const result = createOffer(db, buyerId, coinId, amount, inHours(1));
+		if (result.status !== "ok") throw new Error(result.status);
+		return result.offer.id;
+	}
+
+	it("should sell the coin on acceptance and cancel competing offers", () => {
+		const bobOffer = offer(bob, 40);
+		const carolOffer = offer(carol, 30);
+
+		const result = acceptOffer(db, alice, bobOffer);
+
+		expect(result).toEqual({
+			status: "ok",
+			offer: expect.objectContaining({
+				status: "accepted",
+				transactionId: expect.any(Number),
+			}),
+		});
+		expect(getCash(db, alice)).toBe(140);
+		expect(getCash(db, bob)).toBe(60);
+		expect(
+			db.query("SELECT client_id FROM coins WHERE coin_id = ?").get(coinId),
+		).toEqual({ client_id: bob });
+		expect(listOffers(db, carol, "mine")).toEqual([
+			expect.objectContaining({ id: carolOffer, status: "cancelled" }),
+		]);
+		expect(reconcileLedger(db).balanced).toBe(true);
+	});
+
+	it("should let the buyer accept a counter offer", () => {
+		const bobOffer = offer(bob, 20);
+		const counter = counterOffer(db, alice, bobOffer, 35, inHours(1));
+		if (counter.status !== "ok") throw new Error(counter.status);
+
+		expect(listOffers(db, bob, "received")).toEqual([
+			expect.objectContaining({ amount: 35, parentId: bobOffer }),
+		]);
+		expect(acceptOffer(db, alice, counter.offer.id).status).toBe("not_found");
+		expect(acceptOffer(db, bob, counter.offer.id).status).toBe("ok");
+		expect(getCash(db, bob)).toBe(65);
+		expect(listOffers(db, bob, "mine")[0].status).toBe("countered");
+	});
+
+	it("should refuse offers the buyer cannot cover", () => {
+		expect(createOffer(db, bob, coinId, 500, inHours(1)).status).toBe(
+			"insufficient_funds",
+		);
+
+		const bobOffer = offer(bob, 80);
+		db.query("UPDATE clients SET cash_balance = 10 WHERE id = ?").run(bob);
+
+		expect(acceptOffer(db, alice, bobOffer).status).toBe("insufficient_funds");
+		expect(getCash(db, alice)).toBe(100);
+		expect(listOffers(db, alice, "received")[0].status).toBe("pending");
+	});
+
+	it("should close expired, rejected and withdrawn offers", () => {
+		const expired = createOffer(db, bob, coinId, 20, inHours(-1));
+		if (expired.status !== "ok") throw new Error(expired.status);
+
+		expect(acceptOffer(db, alice, expired.offer.id).status).toBe("not_found");
+		expect(listOffers(db, bob, "mine")[0].status).toBe("expired");
+
+		const carolOffer = offer(carol, 25);
+		expect(cancelOffer(db, alice, carolOffer).status).toBe("not_found");
+		expect(rejectOffer(db, alice, carolOffer).status).toBe("ok");
+		expect(cancelOffer(db, carol, carolOffer).status).toBe("not_found");
+
+		const bobOffer = offer(bob, 30);
+		expect(cancelOffer(db, bob, bobOffer).status).toBe("ok");
+		expect(acceptOffer(db, alice, bobOffer).status).toBe("not_found");
+	});
+});
@@ -0,0 +1,33 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "bun:test";
+import {
+	LEGACY_PASSWORD_ALGORITHM,
+	PASSWORD_ALGORITHM,
+	hashPassword,
+	needsRehash,
+	verifyPassword,
+} from "../src/utils/password_hashing";
+
+describe("Password hashing", () => {
+	it("should salt every hash", async () => {
+		const first = await hashPassword("hunter2");
+		const second = await hashPassword("hunter2");
+
+		expect(first.algorithm).toBe(PASSWORD_ALGORITHM);
+		expect(first.hash).not.toEqual(second.hash);
+		expect(await verifyPassword("hunter2", first)).toBe(true);
+		expect(await verifyPassword("hunter3", first)).toBe(false);
+		expect(needsRehash(first)).toBe(false);
+	});
+
+	it("should verify legacy SHA-256 hashes and flag them for rehash", async () => {
+		const legacy = {
+			hash: createHash("sha256").update("hunter2").digest("hex"),
+			algorithm: LEGACY_PASSWORD_ALGORITHM,
+		};
+
+		expect(await verifyPassword("hunter2", legacy)).toBe(true);
+		expect(await verifyPassword("hunter3", legacy)).toBe(false);
+		expect(needsRehash(legacy)).toBe(true);
+	});
+});
@@ -0,0 +1,59 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import { promoteToAdmin } from "../src/promote_admin";
+import { TokenManager } from "../src/utils/auth_token";
+
+const device = { userAgent: "bun-test", ipAddress: "127.0.0.1" };
+
+describe("promoteToAdmin", () => {
+	let db: Database;
+	let clientId: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		TokenManager.initialize(db);
+		clientId = Number(
+			db
+				.query("INSERT INTO clients (name, email) VALUES (?, ?)")
+				.run("Ada", "ada@example.com").lastInsertRowid,
+		);
+	});
+
+	it("should promote a client once", async () => {
+		expect(await promoteToAdmin(db, "nobody@example.com")).toBe("not_found");
+		expect(await promoteToAdmin(db, "ada@example.com")).toBe("promoted");
+		expect(await promoteToAdmin(db, "ada@example.com")).toBe("already_admin");
+	});
+
+	it("should sign the client out so new tokens carry the role", async () => {
+		const login = await TokenManager.createSession(
+			clientId,
+			"ada@example.com",
+			"user",
+			device,
+		);
+
+		await promoteToAdmin(db, "ada@example.com");
+
+		expect(await TokenManager.verifyToken(login.accessToken)).toBeNull();
+		expect((await TokenManager.refresh(login.refreshToken)).status).toBe(
+			"invalid",
+		);
+	});
+
+	it("should keep the role across refreshes", async () => {
+		const login = await TokenManager.createSession(
+			clientId,
+			"ada@example.com",
+			"admin",
+			device,
+		);
+		const result = await TokenManager.refresh(login.refreshToken);
+		if (result.status !== "ok") throw new Error("refresh failed");
+
+		expect(await TokenManager.verifyToken(result.tokens.accessToken)).toEqual(
+			expect.objectContaining({ userId: clientId, role: "admin" }),
+		);
+	});
+});
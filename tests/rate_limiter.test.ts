@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { RateLimiter } from "../src/utils/rate_limiter";
+
+describe("RateLimiter", () => {
+	it("should allow max attempts per sliding window", () => {
+		const limiter = new RateLimiter({ windowMs: 1000, max: 2 });
+
+		expect(limiter.consume("ip", 0).allowed).toBe(true);
+		expect(limiter.consume("ip", 400).allowed).toBe(true);
+		expect(limiter.consume("ip", 800)).toEqual({
+			allowed: false,
+			retryAfterMs: 200,
+		});
+
+		// The first attempt has slid out of the window
+		expect(limiter.consume("ip", 1000).allowed).toBe(true);
+		expect(limiter.consume("other", 1000).allowed).toBe(true);
+	});
+
+	it("should back off exponentially once max is reached", () => {
+		const limiter = new RateLimiter({
+			windowMs: 60_000,
+			max: 2,
+			backoffMs: 1000,
+			maxBackoffMs: 3000,
+		});
+
+		limiter.record("account", 0);
+		expect(limiter.check("account", 0).allowed).toBe(true);
+
+		limiter.record("account", 0);
+		expect(limiter.check("account", 0).retryAfterMs).toBe(1000);
+
+		limiter.record("account", 1000);
+		expect(limiter.check("account", 1000).retryAfterMs).toBe(2000);
+
+		limiter.record("account", 3000);
+		expect(limiter.check("account", 3000).retryAfterMs).toBe(3000);
+	});
+
+	it("should lock out after repeated failures until reset", () => {
+		const limiter = new RateLimiter({
+			windowMs: 60_000,
+			max: 10,
+			backoffMs: 1000,
+			lockoutAfter: 3,
+			lockoutMs: 30_000,
+		});
+
+		for (let i = 0; i < 3; i++) {
+			limiter.record("account", i);
+		}
+		expect(limiter.check("account", 10)).toEqual({
+			allowed: false,
+			retryAfterMs: 29_992,
+		});
+
+		limiter.reset("account");
+		expect(limiter.check("account", 10).allowed).toBe(true);
+	});
+});
@@ -0,0 +1,97 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, it } from "bun:test";
+import { getCursor, toCursorPage } from "../src/utils/cursor";
+import {
+	type SortField,
+	describeSort,
+	getSort,
+	keysetCondition,
+	orderBy,
+} from "../src/utils/sort";
+
+type Row = { id: number; name: string; amount: number };
+
+const FIELDS: Record<string, SortField<Row>> = {
+	id: { expression: "id", type: "number", value: (row) => row.id },
+	name: { expression: "name", type: "string", value: (row) => row.name },
+	amount: { expression: "amount", type: "number", value: (row) => row.amount },
+};
+
+function sortFor(query: string) {
+	return getSort(
+		new URL(`http://localhost/api/rows?${query}`),
+		FIELDS,
+		{ sort: "id", order: "desc" },
+		"id",
+	);
+}
+
+describe("Sorting", () => {
+	it("should accept only whitelisted fields and orders", () => {
+		expect(describeSort(sortFor("") ?? [])).toBe("id:desc");
+		expect(describeSort(sortFor("sort=name,amount&order=desc") ?? [])).toBe(
+			"name:desc,amount:asc,id:asc",
+		);
+		expect(describeSort(sortFor("sort=amount,id&order=asc,desc") ?? [])).toBe(
+			"amount:asc,id:desc",
+		);
+
+		expect(sortFor("sort=password")).toBeNull();
+		expect(sortFor("sort=name&order=sideways")).toBeNull();
+		expect(sortFor("sort=name,name")).toBeNull();
+		expect(sortFor("sort=name&order=asc,desc")).toBeNull();
+		expect(sortFor("sort=amount; DROP TABLE rows")).toBeNull();
+	});
+
+	it("should page through mixed directions without gaps or repeats", () => {
+		const db = new Database(":memory:");
+		db.query(
+			"CREATE TABLE rows (id INTEGER PRIMARY KEY, name TEXT, amount INTEGER)",
+		).run();
+		const names = ["carol", "alice", "bob"];
+		for (let id = 1; id <= 12; id++) {
+			db.query("INSERT INTO rows VALUES (?, ?, ?)").run(
+				id,
+				names[id % 3],
+				id % 4,
+			);
+		}
+		const sort = sortFor("sort=name,amount&order=asc,desc") ?? [];
+		const everyRow = db
+			.query(`SELECT * FROM rows ORDER BY ${orderBy(sort)}`)
+			.all() as Row[];
+
+		function fetchPage(query: string) {
+			const cursor = getCursor(
+				new URL(`http://localhost/api/rows?${query}`),
+				sort.map((column) => column.type),
+			);
+			const backwards = cursor.status === "ok" && cursor.direction === "before";
+			const keyset =
+				cursor.status === "ok"
+					? keysetCondition(sort, cursor.key, backwards)
+					: { sql: "1", params: [] };
+			const rows = db
+				.query(
+					`SELECT * FROM rows WHERE ${keyset.sql} ORDER BY ${orderBy(sort, backwards)} LIMIT ?`,
+				)
+				.all(...keyset.params, 6) as Row[];
+			return toCursorPage(rows, 5, cursor, (row) =>
+				sort.map((column) => column.value(row)),
+			);
+		}
+
+		const seen: Row[] = [];
+		let page = fetchPage("");
+		seen.push(...page.rows);
+		while (page.nextCursor) {
+			page = fetchPage(`after=${page.nextCursor}`);
+			seen.push(...page.rows);
+		}
+		expect(seen).toEqual(everyRow);
+
+		// Back from the last page lands on the rows just before it
+		const previous = fetchPage(`before=${page.prevCursor}`);
+		expect(previous.rows).toEqual(everyRow.slice(5, 10));
+	});
+});
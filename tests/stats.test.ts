@@ -0,0 +1,103 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import { getCoinStats, getMarketStats } from "../src/stats";
+
+describe("Statistics", () => {
+	const NOW = Date.parse("2026-03-10T12:00:00.000Z");
+	let db: Database;
+	let coinId: number;
+	let otherCoinId: number;
+
+	function addCoin(): number {
+		return Number(
+			db
+				.query(
+					"INSERT INTO coins (bit1, bit2, bit3, value, client_id) VALUES (1, 2, 3, 10, 1)",
+				)
+				.run().lastInsertRowid,
+		);
+	}
+
+	function sale(coin: number, amount: number, date: string, kind = "purchase") {
+		return Number(
+			db
+				.query(
+					"INSERT INTO transactions (coin_id, seller_id, buyer_id, amount, transaction_date, kind) VALUES (?, NULL, 1, ?, ?, ?)",
+				)
+				.run(coin, amount, date, kind).lastInsertRowid,
+		);
+	}
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		db.query(
+			"INSERT INTO clients (name, email, cash_balance) VALUES ('alice', 'alice@example.com', 0)",
+		).run();
+		coinId = addCoin();
+		otherCoinId = addCoin();
+	});
+
+	it("should summarise a coin's sales and skip voided ones", () => {
+		sale(coinId, 10, "2026-03-01T10:00:00.000Z");
+		const voided = sale(coinId, 99, "2026-03-02T10:00:00.000Z");
+		db.query("UPDATE transactions SET voided_at = ? WHERE id = ?").run(
+			"2026-03-02T11:00:00.000Z",
+			voided,
+		);
+		sale(coinId, 25, "2026-03-03T10:00:00.000Z");
+		sale(coinId, 0, "2026-03-04T10:00:00.000Z", "admin_transfer");
+		const last = sale(coinId, 15, "2026-03-05T10:00:00.000Z");
+
+		const stats = getCoinStats(db, coinId);
+
+		expect(stats?.prices.map((price) => price.amount)).toEqual([10, 25, 15]);
+		expect(stats?.lastSale).toEqual({
+			transactionId: last,
+			date: "2026-03-05T10:00:00.000Z",
+			amount: 15,
+		});
+		expect(stats?.allTimeHigh).toBe(25);
+		expect(stats?.allTimeLow).toBe(10);
+		expect(stats?.transfers).toBe(4);
+		expect(getCoinStats(db, 999)).toBeNull();
+	});
+
+	it("should report daily volume, median and turnover with empty days", () => {
+		sale(coinId, 10, "2026-03-08T09:00:00.000Z");
+		sale(coinId, 20, "2026-03-08T10:00:00.000Z");
+		sale(otherCoinId, 40, "2026-03-08T11:00:00.000Z");
+		sale(otherCoinId, 30, "2026-03-10T08:00:00.000Z");
+		// Outside the three day window
+		sale(coinId, 500, "2026-03-07T23:59:00.000Z");
+
+		const stats = getMarketStats(db, 3, NOW);
+
+		expect(stats.days).toEqual([
+			{
+				date: "2026-03-08",
+				trades: 3,
+				volume: 70,
+				medianPrice: 20,
+				turnover: 1,
+			},
+			{
+				date: "2026-03-09",
+				trades: 0,
+				volume: 0,
+				medianPrice: null,
+				turnover: 0,
+			},
+			{
+				date: "2026-03-10",
+				trades: 1,
+				volume: 30,
+				medianPrice: 30,
+				turnover: 0.5,
+			},
+		]);
+		expect(stats.totalVolume).toBe(100);
+		expect(stats.totalTrades).toBe(4);
+		expect(stats.circulatingCoins).toBe(2);
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "bun:test";
+import { EventHub } from "../src/events";
+import {
+	TRANSACTION_LIST_TAG,
+	coinCache,
+	coinTag,
+	filterTag,
+	invalidateOnMarketEvents,
+	transactionCache,
+} from "../src/routes/cache";
+import type { TransactionFilters } from "../src/transaction_filters";
+import { TaggedCache } from "../src/utils/tagged_cache";
+
+describe("TaggedCache", () => {
+	it("should evict the least recently used entry and expire old ones", () => {
+		const cache = new TaggedCache<number>({ maxEntries: 2, ttlMs: 1000 });
+
+		cache.set("a", 1, [], 0);
+		cache.set("b", 2, [], 0);
+		expect(cache.get("a", 0)).toBe(1);
+		// "b" is now the least recently used
+		cache.set("c", 3, [], 0);
+
+		expect(cache.get("b", 0)).toBeUndefined();
+		expect(cache.get("c", 999)).toBe(3);
+		expect(cache.get("a", 1000)).toBeUndefined();
+		expect(cache.stats()).toEqual({
+			size: 1,
+			maxEntries: 2,
+			hits: 2,
+			misses: 2,
+			evictions: 1,
+			invalidations: 0,
+		});
+	});
+
+	it("should drop only the entries carrying an invalidated tag", () => {
+		const cache = new TaggedCache<string>({ maxEntries: 10, ttlMs: 1000 });
+		cache.set("page-1", "first", ["coins", "coin:1", "coin:2"], 0);
+		cache.set("page-2", "second", ["coins", "coin:3"], 0);
+
+		expect(cache.invalidate("coin:2")).toBe(1);
+		expect(cache.get("page-1", 0)).toBeUndefined();
+		expect(cache.get("page-2", 0)).toBe("second");
+
+		// Tags of a dropped entry no longer reach the keys it held
+		cache.set("page-1", "first again", ["coins"], 0);
+		expect(cache.invalidate("coin:1")).toBe(0);
+		expect(cache.invalidate("coins")).toBe(2);
+		expect(cache.stats().size).toBe(0);
+	});
+});
+
+describe("invalidateOnMarketEvents", () => {
+	const noFilters: TransactionFilters = {
+		startDate: null,
+		endDate: null,
+		minValue: null,
+		maxValue: null,
+		buyerName: null,
+		sellerName: null,
+	};
+
+	const pagination = {
+		total: 0,
+		page: 1,
+		pageSize: 15,
+		nextCursor: null,
+		prevCursor: null,
+	};
+
+	it("should drop the pages a sale changes and keep the rest", () => {
+		const hub = new EventHub();
+		const stop = invalidateOnMarketEvents(hub);
+		coinCache.clear();
+		transactionCache.clear();
+
+		coinCache.set("with-coin", { coins: [], ...pagination }, [coinTag(1)]);
+		coinCache.set("without-coin", { coins: [], ...pagination }, [coinTag(2)]);
+		const bobFilters = { ...noFilters, buyerName: "bob" };
+		const aliceFilters = { ...noFilters, buyerName: "alice" };
+		for (const filters of [noFilters, bobFilters, aliceFilters]) {
+			transactionCache.set(
+				JSON.stringify(filters),
+				{ transactions: [], ...pagination },
+				[TRANSACTION_LIST_TAG, filterTag(filters)],
+			);
+		}
+
+		hub.publish("coin-purchased", { coin_id: 1 });
+		hub.publish("new-transaction", {
+			buyer_name: "Alice",
+			seller_name: null,
+			amount: 10,
+			transaction_date: "2026-03-01T10:00:00.000Z",
+		});
+		stop();
+
+		expect(coinCache.get("with-coin")).toBeUndefined();
+		expect(coinCache.get("without-coin")).toBeDefined();
+		expect(transactionCache.get(JSON.stringify(noFilters))).toBeUndefined();
+		expect(transactionCache.get(JSON.stringify(aliceFilters))).toBeUndefined();
+		expect(transactionCache.get(JSON.stringify(bobFilters))).toBeDefined();
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "bun:test";
+import { matchesFilters } from "../src/transaction_filters";
+import type { Transaction } from "../src/types";
+
+describe("matchesFilters", () => {
+	const transaction: Transaction = {
+		id: 1,
+		coin_id: 7,
+		amount: 120,
+		transaction_date: "2026-03-05T10:00:00.000Z",
+		seller_id: null,
+		seller_name: null,
+		buyer_id: 2,
+		buyer_name: "Alice Smith",
+		bit1: 1,
+		bit2: 2,
+		bit3: 3,
+		value: 100,
+		computedBitSlow: "abc",
+	};
+	const noFilters = {
+		startDate: null,
+		endDate: null,
+		minValue: null,
+		maxValue: null,
+		buyerName: null,
+		sellerName: null,
+	};
+
+	it("should match the same rows as the listing query", () => {
+		expect(matchesFilters(transaction, noFilters)).toBe(true);
+		expect(
+			matchesFilters(transaction, {
+				...noFilters,
+				startDate: "2026-03-05",
+				minValue: "100",
+				maxValue: "100",
+				buyerName: "alice",
+				sellerName: "Original Issuer",
+			}),
+		).toBe(true);
+	});
+
+	it("should reject rows outside any filter", () => {
+		const misses = [
+			{ startDate: "2026-03-06" },
+			{ endDate: "2026-03-05" },
+			{ minValue: "101" },
+			{ maxValue: "99" },
+			{ buyerName: "bob" },
+			{ sellerName: "alice" },
+		];
+
+		for (const miss of misses) {
+			expect(matchesFilters(transaction, { ...noFilters, ...miss })).toBe(
+				false,
+			);
+		}
+	});
+});
@@ -0,0 +1,117 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, it } from "bun:test";
+import { openDatabase } from "../src/db";
+import {
+	beginTwoFactorEnrollment,
+	confirmTwoFactorEnrollment,
+	createLoginChallenge,
+	getTwoFactorStatus,
+	redeemLoginChallenge,
+	verifySecondFactor,
+} from "../src/two_factor";
+import {
+	base32Encode,
+	generateTotp,
+	totpTimeStep,
+	verifyTotp,
+} from "../src/utils/totp";
+
+// RFC 6238 appendix B test secret
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+	it("should match the RFC 6238 SHA-1 test vectors", () => {
+		expect(generateTotp(RFC_SECRET, totpTimeStep(59 * 1000))).toBe("287082");
+		expect(generateTotp(RFC_SECRET, totpTimeStep(1111111109 * 1000))).toBe(
+			"081804",
+		);
+	});
+
+	it("should tolerate one step of clock drift", () => {
+		const now = 1111111109 * 1000;
+		const previous = generateTotp(RFC_SECRET, totpTimeStep(now) - 1);
+
+		expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(
+			totpTimeStep(now) - 1,
+		);
+		expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+	});
+});
+
+describe("Two-factor login", () => {
+	let db: Database;
+	let clientId: number;
+
+	beforeEach(() => {
+		db = openDatabase(":memory:");
+		clientId = Number(
+			db
+				.query("INSERT INTO clients (name, email) VALUES (?, ?)")
+				.run("Ada", "ada@example.com").lastInsertRowid,
+		);
+	});
+
+	function enroll(): { secret: string; recoveryCodes: string[] } {
+		const enrollment = beginTwoFactorEnrollment(db, clientId);
+		if (!enrollment) throw new Error("enrollment failed");
+
+		// Confirm with the previous step's code so later tests can use the current one
+		const code = generateTotp(enrollment.secret, totpTimeStep() - 1);
+		const recoveryCodes = confirmTwoFactorEnrollment(db, clientId, code);
+		if (!recoveryCodes) throw new Error("confirmation failed");
+
+		return { secret: enrollment.secret, recoveryCodes };
+	}
+
+	it("should only enable 2FA after a valid code", () => {
+		const enrollment = beginTwoFactorEnrollment(db, clientId);
+
+		expect(enrollment?.otpauthUri).toStartWith("otpauth://totp/BitSlow");
+		expect(getTwoFactorStatus(db, clientId)).toEqual({
+			enabled: false,
+			pending: true,
+			recoveryCodesRemaining: 0,
+		});
+		expect(confirmTwoFactorEnrollment(db, clientId, "000000")).toBeNull();
+
+		enroll();
+		expect(getTwoFactorStatus(db, clientId).enabled).toBe(true);
+	});
+
+	it("should reject a TOTP code that was already used", () => {
+		const { secret } = enroll();
+		const code = generateTotp(secret, totpTimeStep());
+
+		expect(verifySecondFactor(db, clientId, code)).toBe(true);
+		expect(verifySecondFactor(db, clientId, code)).toBe(false);
+	});
+
+	it("should accept each recovery code once", () => {
+		const { recoveryCodes } = enroll();
+		const { challenge } = createLoginChallenge(db, clientId);
+
+		expect(
+			redeemLoginChallenge(db, challenge, recoveryCodes[0].toLowerCase()),
+		).toEqual({ status: "ok", clientId });
+		expect(verifySecondFactor(db, clientId, recoveryCodes[0])).toBe(false);
+		expect(getTwoFactorStatus(db, clientId).recoveryCodesRemaining).toBe(
+			recoveryCodes.length - 1,
+		);
+	});
+
+	it("should drop a challenge after too many wrong codes", () => {
+		enroll();
+		const { challenge } = createLoginChallenge(db, clientId);
+
+		for (let attempt = 4; attempt >= 0; attempt--) {
+			expect(redeemLoginChallenge(db, challenge, "AAAAA-AAAAA")).toEqual({
+				status: "wrong_code",
+				clientId,
+				attemptsRemaining: attempt,
+			});
+		}
+		expect(redeemLoginChallenge(db, challenge, "AAAAA-AAAAA")).toEqual({
+			status: "invalid",
+		});
+	});
+});